@@ -1,17 +1,149 @@
 import { join } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import { OPTIONAL_TASK_STATUSES } from './utils/taskStatus';
 
-let workingDirectory: string | null = null;
+export const CONFIG_FILE_NAME = '.mcp-tasks.json';
+
+// Recurring task definitions, instantiated by start_week
+export const RECURRING_TASKS_FILE_NAME = '.mcp-tasks-recurring.json';
+
+// Held while an operation changes the workspace; never committed
+export const LOCK_FILE_NAME = '.mcp-tasks.lock';
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const weekConfigSchema = z.object({
+  startDay: z.enum(WEEKDAYS).default('monday'),
+  // First day of the week on which start_week archives the running week instead of the previous one
+  cutoverDay: z.enum(WEEKDAYS).default('thursday'),
+  timezone: z.string().refine(isValidTimezone, { message: 'Unknown timezone' }).default('UTC'),
+}).strict();
+
+// Plain file names only, so every task file stays inside the workspace
+const fileNameSchema = z.string().regex(/^[^/\\]+$/, { message: 'Must be a file name without directories' });
+
+const filesConfigSchema = z.object({
+  current: fileNameSchema.default('current.md'),
+  backlog: fileNameSchema.default('backlog.md'),
+  archive: fileNameSchema.default('archive.md'),
+}).strict().refine(
+  files => new Set(Object.values(files)).size === Object.keys(files).length,
+  { message: 'File names must be distinct' },
+);
+
+const sectionTitleSchema = z.string().trim().min(1);
+
+const sectionsConfigSchema = z.object({
+  thisWeek: sectionTitleSchema.default('This Week'),
+  nextWeek: sectionTitleSchema.default('Next Week'),
+  backlog: sectionTitleSchema.default('Backlog'),
+  archive: sectionTitleSchema.default('Archive'),
+}).strict().refine(
+  sections => sections.thisWeek !== sections.nextWeek,
+  { message: 'This week and next week sections must have different titles' },
+);
+
+const gitConfigSchema = z.object({
+  name: z.string().trim().min(1).default('MCP Tasks Server'),
+  email: z.string().trim().min(1).default('mcp-tasks@example.com'),
+}).strict();
+
+const workspaceConfigSchema = z.object({
+  week: weekConfigSchema.default({}),
+  files: filesConfigSchema.default({}),
+  sections: sectionsConfigSchema.default({}),
+  // Text between a backlog task and the date it was added, as in "Task added on 2024-01-15"
+  backlogDateLabel: z.string().trim().min(1).default('added on'),
+  git: gitConfigSchema.default({}),
+  // Statuses beyond new, completed and closed that tasks in this workspace may use
+  extraStatuses: z.array(z.enum(OPTIONAL_TASK_STATUSES)).default([...OPTIONAL_TASK_STATUSES]),
+}).strict();
+
+export type WorkspaceConfig = z.infer<typeof workspaceConfigSchema>;
+
+export const DEFAULT_WORKSPACE = 'default';
+
+export interface Workspace {
+  name: string;
+  directory: string;
+}
+
+const workspaces = new Map<string, string>();
+const workspaceConfigs = new Map<string, WorkspaceConfig>();
+// Workspace selected for the operation currently running, following it across awaits
+const activeWorkspace = new AsyncLocalStorage<string>();
+let defaultWorkspace: string | null = null;
+
+/**
+ * Registers a named workspace; the first one registered becomes the default
+ */
+export function addWorkspace(name: string, dir: string): void {
+  if (!/^[\w-]+$/.test(name)) {
+    throw new Error(`Invalid workspace name "${name}": use letters, digits, "-" and "_" only`);
+  }
+
+  workspaces.set(name, dir);
+  workspaceConfigs.delete(dir);
+  defaultWorkspace ??= name;
+}
 
 export function setWorkingDirectory(dir: string): void {
-  workingDirectory = dir;
+  addWorkspace(DEFAULT_WORKSPACE, dir);
+  defaultWorkspace = DEFAULT_WORKSPACE;
+}
+
+export function getWorkspaces(): Workspace[] {
+  return [...workspaces].map(([name, directory]) => ({ name, directory }));
+}
+
+export function getDefaultWorkspaceName(): string | null {
+  return defaultWorkspace;
+}
+
+export function getWorkspaceName(): string | null {
+  return activeWorkspace.getStore() ?? defaultWorkspace;
+}
+
+/**
+ * Runs an operation against a named workspace, or the default workspace when no name is given
+ */
+export function runInWorkspace<T>(name: string | undefined, operation: () => T): T {
+  if (name === undefined) {
+    return operation();
+  }
+
+  if (!workspaces.has(name)) {
+    const available = [...workspaces.keys()].join(', ');
+
+    throw new Error(`Unknown workspace "${name}". Available workspaces: ${available}`);
+  }
+
+  return activeWorkspace.run(name, operation);
 }
 
 export function getWorkingDirectory(): string {
-  if (!workingDirectory) {
+  const name = getWorkspaceName();
+  const directory = name !== null ? workspaces.get(name) : undefined;
+
+  if (directory === undefined) {
     throw new Error('Working directory not set. Call setWorkingDirectory() first.');
   }
 
-  return workingDirectory;
+  return directory;
 }
 
 export function getFilePath(fileName: 'current' | 'backlog' | 'archive'): string {
@@ -19,12 +151,55 @@ export function getFilePath(fileName: 'current' | 'backlog' | 'archive'): string
 
   switch (fileName) {
     case 'current':
-      return join(workingDir, 'current.md');
     case 'backlog':
-      return join(workingDir, 'backlog.md');
     case 'archive':
-      return join(workingDir, 'archive.md');
+      return join(workingDir, getWorkspaceConfig().files[fileName]);
     default:
       throw new Error(`Unknown file: ${fileName}`);
   }
 }
+
+/**
+ * Lists the problems found while validating a workspace file, one per setting
+ */
+export function formatConfigErrors(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Reads and validates the workspace configuration file, falling back to defaults when it is absent
+ */
+export function loadWorkspaceConfig(): WorkspaceConfig {
+  const configPath = join(getWorkingDirectory(), CONFIG_FILE_NAME);
+  let rawConfig: unknown = {};
+
+  if (existsSync(configPath)) {
+    try {
+      rawConfig = JSON.parse(readFileSync(configPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Invalid ${CONFIG_FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const result = workspaceConfigSchema.safeParse(rawConfig);
+
+  if (!result.success) {
+    throw new Error(`Invalid ${CONFIG_FILE_NAME}: ${formatConfigErrors(result.error)}`);
+  }
+
+  return result.data;
+}
+
+export function getWorkspaceConfig(): WorkspaceConfig {
+  const directory = getWorkingDirectory();
+  let workspaceConfig = workspaceConfigs.get(directory);
+
+  if (!workspaceConfig) {
+    workspaceConfig = loadWorkspaceConfig();
+    workspaceConfigs.set(directory, workspaceConfig);
+  }
+
+  return workspaceConfig;
+}
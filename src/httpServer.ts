@@ -0,0 +1,232 @@
+/* global Buffer */
+import { createServer as createNodeServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { hostname, networkInterfaces } from 'os';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server';
+
+export const MCP_ENDPOINT = '/mcp';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+// Larger request bodies are refused so that one request cannot exhaust the server's memory
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers['content-length'] ?? 0) > MAX_BODY_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  // Keep draining an oversized chunked body without holding on to it, so the error response can still be sent
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+
+  if (size > MAX_BODY_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+
+  const body = Buffer.concat(chunks).toString('utf8');
+
+  return body === '' ? undefined : JSON.parse(body);
+}
+
+type SessionMap = Map<string, StreamableHTTPServerTransport>;
+
+interface HttpServerContext {
+  sessions: SessionMap;
+  // Host headers and browser origins that address this server, guarding against DNS rebinding
+  allowedHosts: string[];
+  allowedOrigins: string[];
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+// Addresses that bind the server to every local interface
+const WILDCARD_HOSTS = ['0.0.0.0', '[::]'];
+
+function formatHostName(address: string): string {
+  return address.includes(':') ? `[${address}]` : address;
+}
+
+/**
+ * Lists the names of this machine: the loopback names, its host name and the addresses of its interfaces
+ */
+function getLocalHostNames(): string[] {
+  const interfaceAddresses = Object.values(networkInterfaces())
+    .flatMap(addresses => addresses ?? [])
+    .map(({ address }) => formatHostName(address));
+
+  return [...new Set([...LOOPBACK_HOSTS, hostname(), ...interfaceAddresses])];
+}
+
+/**
+ * Lists the Host header values a client of this server can send; a loopback server
+ * can be reached under any of the loopback names, and a server bound to a wildcard
+ * address under any name of the machine
+ */
+function getAllowedHosts(host: string, port: number): string[] {
+  const hostName = formatHostName(host);
+  let hostNames = [hostName];
+
+  if (WILDCARD_HOSTS.includes(hostName)) {
+    hostNames = getLocalHostNames();
+  } else if (LOOPBACK_HOSTS.includes(hostName)) {
+    hostNames = LOOPBACK_HOSTS;
+  }
+
+  return hostNames.map(name => `${name}:${port}`);
+}
+
+async function openSession({ sessions, allowedHosts }: HttpServerContext): Promise<StreamableHTTPServerTransport> {
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      sessions.set(sessionId, transport);
+    },
+    enableDnsRebindingProtection: true,
+    allowedHosts,
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId !== undefined) {
+      sessions.delete(transport.sessionId);
+    }
+  };
+
+  await createServer().connect(transport);
+
+  return transport;
+}
+
+/**
+ * Rejects requests that a web page on another origin sends from the user's browser.
+ * Only browsers send an Origin header, so other clients are not affected; the transport
+ * checks the Host header of every request itself.
+ */
+function checkOrigin({ allowedOrigins }: HttpServerContext, req: IncomingMessage, res: ServerResponse): boolean {
+  const { origin } = req.headers;
+
+  if (origin !== undefined && !allowedOrigins.includes(origin)) {
+    sendError(res, 403, -32000, `Invalid Origin header: ${origin}`);
+
+    return false;
+  }
+
+  return true;
+}
+
+async function handleRequest(context: HttpServerContext, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.url?.split('?')[0] !== MCP_ENDPOINT) {
+    sendError(res, 404, -32000, `Not found: use ${MCP_ENDPOINT}`);
+
+    return;
+  }
+
+  if (!checkOrigin(context, req, res)) {
+    return;
+  }
+
+  const sessionId = req.headers['mcp-session-id'];
+  const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+  let transport = typeof sessionId === 'string' ? context.sessions.get(sessionId) : undefined;
+
+  if (sessionId !== undefined && !transport) {
+    sendError(res, 404, -32001, 'Session not found');
+
+    return;
+  }
+
+  // Only an initialize request may start a new session
+  if (!transport) {
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+
+      return;
+    }
+
+    transport = await openSession(context);
+  }
+
+  await transport.handleRequest(req, res, body);
+}
+
+function handleRequestError(res: ServerResponse, error: unknown): void {
+  if (res.headersSent) {
+    return;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof SyntaxError) {
+    sendError(res, 400, -32700, `Parse error: ${message}`);
+  } else if (error instanceof PayloadTooLargeError) {
+    sendError(res, 413, -32000, message);
+  } else {
+    sendError(res, 500, -32603, message);
+  }
+}
+
+/**
+ * Serves the task tools over Streamable HTTP. Every client session gets its own
+ * MCP server instance, all sharing the same workspaces.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const httpServer = createNodeServer();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+
+  // The allowed hosts include the port, which is only known once listening
+  const { port } = httpServer.address() as AddressInfo;
+  const allowedHosts = getAllowedHosts(options.host, port);
+  const context: HttpServerContext = {
+    sessions: new Map(),
+    allowedHosts,
+    allowedOrigins: allowedHosts.map(host => `http://${host}`),
+  };
+
+  httpServer.on('request', (req: IncomingMessage, res: ServerResponse) => {
+    handleRequest(context, req, res).catch((error: unknown) => handleRequestError(res, error));
+  });
+
+  return {
+    url: `http://${options.host}:${port}${MCP_ENDPOINT}`,
+    close: async() => {
+      await Promise.all([...context.sessions.values()].map(transport => transport.close()));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
@@ -1,57 +1,142 @@
 #!/usr/bin/env bun
 /* global process console */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { parseArgs } from 'util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { setWorkingDirectory } from './config';
+import { setWorkingDirectory, addWorkspace, getWorkspaces, runInWorkspace, getWorkspaceConfig } from './config';
 import { initializeWorkspace } from './utils/initializeWorkspace';
-import * as getCurrentTasks from './tools/getCurrentTasks';
-import * as getTaskBacklog from './tools/getTaskBacklog';
-import * as addTask from './tools/addTask';
-import * as finishTask from './tools/finishTask';
-import * as editTask from './tools/editTask';
-import * as moveTask from './tools/moveTask';
-import * as startWeek from './tools/startWeek';
-import * as currentTasks from './resources/currentTasks';
-import * as taskBacklog from './resources/taskBacklog';
+import { watchWorkspace, type FileWatcher } from './utils/fileWatcher';
+import { createServer } from './server';
+import { startHttpServer } from './httpServer';
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+// Plain arguments set the default workspace; "name=directory" arguments add named workspaces
+function registerWorkspaces(workspaceArgs: string[]): void {
+  for (const arg of workspaceArgs) {
+    const namedMatch = arg.match(/^([\w-]+)=(.+)$/);
+
+    if (namedMatch) {
+      addWorkspace(namedMatch[1], namedMatch[2]);
+    } else {
+      setWorkingDirectory(arg);
+    }
+  }
+}
+
+async function initializeWorkspaces(): Promise<FileWatcher[]> {
+  const watchers: FileWatcher[] = [];
+
+  for (const workspace of getWorkspaces()) {
+    await runInWorkspace(workspace.name, async() => {
+      // Validate the workspace configuration before touching any files
+      getWorkspaceConfig();
+
+      // Initialize the workspace, each with its own git repository
+      await initializeWorkspace();
+
+      // Commit and announce edits made by hand while the server runs
+      watchers.push(watchWorkspace());
+    });
+  }
+
+  return watchers;
+}
+
+/**
+ * Runs the cleanup once when the process is asked to stop, or when stdin ends for a stdio server,
+ * then exits; the file watchers would otherwise keep the process running
+ */
+function closeOnShutdown(close: () => Promise<void>, { onStdinEnd = false } = {}): void {
+  const shutdown = () => {
+    close().then(
+      () => process.exit(0),
+      (error: unknown) => {
+        console.error('Error during shutdown:', error);
+        process.exit(1);
+      },
+    );
+  };
+
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  if (onStdinEnd) {
+    process.stdin.once('end', shutdown);
+  }
+}
+
+function parsePort(value?: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const port = Number(value);
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${value}`);
+  }
+
+  return port;
+}
+
+function parseCommandLine(): { workspaceArgs: string[]; port?: number; host: string } {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+    },
+    allowPositionals: true,
+  });
+  const port = parsePort(values.port ?? process.env.MCP_TASKS_PORT);
+
+  return {
+    workspaceArgs: positionals,
+    ...(port !== undefined && { port }),
+    host: values.host ?? process.env.MCP_TASKS_HOST ?? DEFAULT_HTTP_HOST,
+  };
+}
 
 async function main() {
-  const args = process.argv.slice(2);
-  const workingDir = process.env.MCP_TASKS_WD || args[0];
+  const { workspaceArgs, port, host } = parseCommandLine();
+  const envWorkspaces = process.env.MCP_TASKS_WORKSPACES?.split(',').filter(arg => arg !== '') ?? [];
+  const envWorkingDir = process.env.MCP_TASKS_WD !== undefined && process.env.MCP_TASKS_WD !== ''
+    ? [process.env.MCP_TASKS_WD]
+    : [];
 
-  if (!workingDir) {
+  registerWorkspaces([...workspaceArgs, ...envWorkspaces, ...envWorkingDir]);
+
+  if (getWorkspaces().length === 0) {
     console.error('Error: Working directory parameter is required');
-    console.error('Usage: mcp-tasks <working-directory> or set MCP_TASKS_WD environment variable');
+    console.error('Usage: mcp-tasks [--port <port>] [--host <host>] <working-directory> [name=directory ...]');
+    console.error('       or set MCP_TASKS_WD environment variable');
     process.exit(1);
   }
 
-  // Set working directory for tools to use
-  setWorkingDirectory(workingDir);
-
-  // Initialize the workspace
-  await initializeWorkspace();
+  const watchers = await initializeWorkspaces();
+  const closeWatchers = () => watchers.forEach(watcher => watcher.close());
 
-  const server = new McpServer({
-    name: 'mcp-tasks',
-    title: 'Weekly Task Tracker',
-    version: '1.0.0',
-  });
+  // Serve over Streamable HTTP when a port is given, otherwise over stdio
+  if (port !== undefined) {
+    const httpServer = await startHttpServer({ host, port });
 
-  // Register tools
-  server.registerTool(getCurrentTasks.name, getCurrentTasks.config, getCurrentTasks.handler);
-  server.registerTool(getTaskBacklog.name, getTaskBacklog.config, getTaskBacklog.handler);
-  server.registerTool(addTask.name, addTask.config, addTask.handler);
-  server.registerTool(finishTask.name, finishTask.config, finishTask.handler);
-  server.registerTool(editTask.name, editTask.config, editTask.handler);
-  server.registerTool(moveTask.name, moveTask.config, moveTask.handler);
-  server.registerTool(startWeek.name, startWeek.config, startWeek.handler);
+    closeOnShutdown(async() => {
+      closeWatchers();
+      await httpServer.close();
+    });
+    console.error(`mcp-tasks listening on ${httpServer.url}`);
 
-  // Register resources
-  server.registerResource(currentTasks.name, currentTasks.uri, currentTasks.metadata, currentTasks.handler);
-  server.registerResource(taskBacklog.name, taskBacklog.uri, taskBacklog.metadata, taskBacklog.handler);
+    return;
+  }
 
+  const server = createServer();
   const transport = new StdioServerTransport();
 
+  closeOnShutdown(async() => {
+    closeWatchers();
+    await server.close();
+  }, { onStdinEnd: true });
   await server.connect(transport);
 }
 
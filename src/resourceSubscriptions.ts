@@ -0,0 +1,74 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { getDefaultWorkspaceName } from './config';
+import { onFileChange, type FileChange, type TaskFileName } from './utils/fileOperations';
+import * as currentTasks from './resources/currentTasks';
+import * as taskBacklog from './resources/taskBacklog';
+
+const DEFAULT_WORKSPACE_URIS: Partial<Record<TaskFileName, string>> = {
+  current: currentTasks.uri,
+  backlog: taskBacklog.uri,
+};
+
+function isAffectedResource(uri: string, change: FileChange): boolean {
+  const workspacePrefix = `tasks://workspaces/${change.workspace}/${change.fileName}`;
+  const isDefaultWorkspace = change.workspace === getDefaultWorkspaceName();
+
+  // Archive changes affect the whole archive file and every archived week resource
+  if (change.fileName === 'archive') {
+    return uri.startsWith(workspacePrefix) || (isDefaultWorkspace && uri.startsWith('tasks://archive/'));
+  }
+
+  return uri === workspacePrefix || (isDefaultWorkspace && uri === DEFAULT_WORKSPACE_URIS[change.fileName]);
+}
+
+function ignoreClosedTransport(): void {
+  // A client that disconnected mid-notification has nothing left to update
+}
+
+/**
+ * Lets clients subscribe to resources and notifies them when task files are written.
+ * Must be called before the server is connected to a transport.
+ */
+export function enableResourceSubscriptions(server: McpServer): void {
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+
+    return {};
+  });
+
+  const removeListener = onFileChange((change) => {
+    if (!server.isConnected()) {
+      return;
+    }
+
+    for (const uri of subscriptions) {
+      if (isAffectedResource(uri, change)) {
+        server.server.sendResourceUpdated({ uri }).catch(ignoreClosedTransport);
+      }
+    }
+
+    // New archive weeks show up as new resources
+    if (change.fileName === 'archive') {
+      server.server.sendResourceListChanged().catch(ignoreClosedTransport);
+    }
+  });
+
+  // Keep any close handler set before, so that both run when the connection closes
+  const previousOnClose = server.server.onclose;
+
+  server.server.onclose = () => {
+    removeListener();
+    previousOnClose?.();
+  };
+}
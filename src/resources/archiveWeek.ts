@@ -0,0 +1,36 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getArchiveWeeks, selectArchiveWeeks, formatArchiveWeeks } from '../utils/archive';
+
+export const name = 'archive-week';
+
+export const template = new ResourceTemplate('tasks://archive/{weekDate}', {
+  list: () => ({
+    resources: getArchiveWeeks().map(archiveWeek => ({
+      uri: `tasks://archive/${archiveWeek.week}`,
+      name: `Week of ${archiveWeek.week}`,
+      mimeType: 'text/markdown',
+    })),
+  }),
+});
+
+export const metadata = {
+  title: 'Archived Week',
+  description: 'A single archived week from archive.md, addressed by its week date (YYYY-MM-DD)',
+};
+
+export function handler(uri: URL, { weekDate }: { weekDate?: string | string[] }) {
+  const week = Array.isArray(weekDate) ? weekDate[0] : weekDate;
+  const weeks = selectArchiveWeeks(getArchiveWeeks(), { week });
+
+  if (week === undefined || weeks.length === 0) {
+    throw new Error(`No archived week found for ${week ?? 'unknown date'}`);
+  }
+
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: 'text/markdown',
+      text: formatArchiveWeeks(weeks),
+    }],
+  };
+}
@@ -0,0 +1,29 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getWorkspaces, runInWorkspace } from '../config';
+import { getArchiveWeeks } from '../utils/archive';
+import * as archiveWeek from './archiveWeek';
+
+export const name = 'workspace-archive-week';
+
+export const template = new ResourceTemplate('tasks://workspaces/{workspace}/archive/{weekDate}', {
+  list: () => ({
+    resources: getWorkspaces().flatMap(workspace =>
+      runInWorkspace(workspace.name, getArchiveWeeks).map(week => ({
+        uri: `tasks://workspaces/${workspace.name}/archive/${week.week}`,
+        name: `${workspace.name}: Week of ${week.week}`,
+        mimeType: 'text/markdown',
+      })),
+    ),
+  }),
+});
+
+export const metadata = {
+  title: 'Workspace Archived Week',
+  description: 'A single archived week of a named workspace, addressed by its week date (YYYY-MM-DD)',
+};
+
+export function handler(uri: URL, variables: { workspace?: string | string[]; weekDate?: string | string[] }) {
+  const workspace = Array.isArray(variables.workspace) ? variables.workspace[0] : variables.workspace;
+
+  return runInWorkspace(workspace, () => archiveWeek.handler(uri, { weekDate: variables.weekDate }));
+}
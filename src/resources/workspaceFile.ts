@@ -0,0 +1,45 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getWorkspaces, runInWorkspace } from '../config';
+import { readFile } from '../utils/fileOperations';
+
+export const name = 'workspace-file';
+
+const FILES = ['current', 'backlog', 'archive'] as const;
+
+type WorkspaceFileName = typeof FILES[number];
+
+function getVariable(value?: string | string[]): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export const template = new ResourceTemplate('tasks://workspaces/{workspace}/{file}', {
+  list: () => ({
+    resources: getWorkspaces().flatMap(workspace => FILES.map(file => ({
+      uri: `tasks://workspaces/${workspace.name}/${file}`,
+      name: `${workspace.name}: ${file}`,
+      mimeType: 'text/markdown',
+    }))),
+  }),
+});
+
+export const metadata = {
+  title: 'Workspace Task File',
+  description: 'The current, backlog or archive file of a named workspace',
+};
+
+export function handler(uri: URL, variables: { workspace?: string | string[]; file?: string | string[] }) {
+  const workspace = getVariable(variables.workspace);
+  const file = getVariable(variables.file);
+
+  if (!FILES.includes(file as WorkspaceFileName)) {
+    throw new Error(`Unknown workspace file: ${file ?? 'none'}`);
+  }
+
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: 'text/markdown',
+      text: runInWorkspace(workspace, () => readFile(file as WorkspaceFileName)),
+    }],
+  };
+}
@@ -0,0 +1,102 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { withWorkspaceParameter } from './utils/workspaceParameter';
+import { enableResourceSubscriptions } from './resourceSubscriptions';
+import * as getCurrentTasks from './tools/getCurrentTasks';
+import * as getTaskBacklog from './tools/getTaskBacklog';
+import * as addTask from './tools/addTask';
+import * as finishTask from './tools/finishTask';
+import * as editTask from './tools/editTask';
+import * as moveTask from './tools/moveTask';
+import * as deleteTask from './tools/deleteTask';
+import * as reopenTask from './tools/reopenTask';
+import * as setTaskStatus from './tools/setTaskStatus';
+import * as reorderTask from './tools/reorderTask';
+import * as batch from './tools/batch';
+import * as startWeek from './tools/startWeek';
+import * as searchTasks from './tools/searchTasks';
+import * as getArchive from './tools/getArchive';
+import * as undo from './tools/undo';
+import * as taskHistory from './tools/taskHistory';
+import * as getConfig from './tools/getConfig';
+import * as listTags from './tools/listTags';
+import * as getDueTasks from './tools/getDueTasks';
+import * as addTaskDependency from './tools/addTaskDependency';
+import * as removeTaskDependency from './tools/removeTaskDependency';
+import * as getBlockedTasks from './tools/getBlockedTasks';
+import * as addRecurringTask from './tools/addRecurringTask';
+import * as listRecurringTasks from './tools/listRecurringTasks';
+import * as removeRecurringTask from './tools/removeRecurringTask';
+import * as listWorkspaces from './tools/listWorkspaces';
+import * as currentTasks from './resources/currentTasks';
+import * as taskBacklog from './resources/taskBacklog';
+import * as archiveWeek from './resources/archiveWeek';
+import * as workspaceFile from './resources/workspaceFile';
+import * as workspaceArchiveWeek from './resources/workspaceArchiveWeek';
+
+function registerTools(server: McpServer): void {
+  // Task tools accept an optional workspace parameter
+  const tools = [
+    getCurrentTasks,
+    getTaskBacklog,
+    addTask,
+    finishTask,
+    editTask,
+    moveTask,
+    deleteTask,
+    reopenTask,
+    setTaskStatus,
+    reorderTask,
+    batch,
+    startWeek,
+    searchTasks,
+    listTags,
+    getDueTasks,
+    addTaskDependency,
+    removeTaskDependency,
+    getBlockedTasks,
+    addRecurringTask,
+    listRecurringTasks,
+    removeRecurringTask,
+    getArchive,
+    undo,
+    taskHistory,
+    getConfig,
+  ].map(tool => withWorkspaceParameter<object>(tool));
+
+  for (const tool of tools) {
+    server.registerTool(tool.name, tool.config, tool.handler);
+  }
+
+  server.registerTool(listWorkspaces.name, listWorkspaces.config, listWorkspaces.handler);
+}
+
+function registerResources(server: McpServer): void {
+  server.registerResource(currentTasks.name, currentTasks.uri, currentTasks.metadata, currentTasks.handler);
+  server.registerResource(taskBacklog.name, taskBacklog.uri, taskBacklog.metadata, taskBacklog.handler);
+  server.registerResource(archiveWeek.name, archiveWeek.template, archiveWeek.metadata, archiveWeek.handler);
+  server.registerResource(workspaceFile.name, workspaceFile.template, workspaceFile.metadata, workspaceFile.handler);
+  server.registerResource(
+    workspaceArchiveWeek.name,
+    workspaceArchiveWeek.template,
+    workspaceArchiveWeek.metadata,
+    workspaceArchiveWeek.handler,
+  );
+}
+
+/**
+ * Creates an MCP server with every task tool and resource registered.
+ * Each transport connection needs its own server instance.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: 'mcp-tasks',
+    title: 'Weekly Task Tracker',
+    version: '1.0.0',
+  });
+
+  enableResourceSubscriptions(server);
+  registerTools(server);
+  registerResources(server);
+
+  return server;
+}
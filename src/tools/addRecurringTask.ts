@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { getCurrentDate } from '../utils/dates';
+import { createRecurringTask, describeRecurrence, type NewRecurringTask } from '../utils/recurringTasks';
+import { TASK_PRIORITIES, type TaskPriority } from '../utils/taskPriority';
+import { taskDateSchema } from '../utils/taskDates';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
+
+export const name = 'add_recurring_task';
+
+export const config = {
+  title: 'Add Recurring Task',
+  description: 'Define a task that repeats weekly, every N weeks or monthly on a day of the month. ' +
+    'start_week adds its instances to This Week and Next Week',
+  inputSchema: {
+    task_text: z.string().describe('The text of each instance'),
+    frequency: z.enum(['weekly', 'monthly']).describe('How often the task repeats'),
+    interval: z.number().int().min(1).optional()
+      .describe('For weekly tasks, the number of weeks between instances (default 1)'),
+    start_date: taskDateSchema.optional()
+      .describe('For weekly tasks, a date in the first week with an instance (YYYY-MM-DD, default today)'),
+    day_of_month: z.number().int().min(1).max(31).optional()
+      .describe('For monthly tasks, the day of the month; shorter months use their last day'),
+    description: z.string().optional().describe('Additional details for each instance'),
+    priority: z.enum(TASK_PRIORITIES).optional().describe('Priority of each instance, P1 being the most important'),
+  },
+};
+
+export interface AddRecurringTaskArgs {
+  task_text: string;
+  frequency: 'weekly' | 'monthly';
+  interval?: number;
+  start_date?: string;
+  day_of_month?: number;
+  description?: string;
+  priority?: TaskPriority;
+}
+
+function buildRecurringTask(args: AddRecurringTaskArgs): NewRecurringTask {
+  const { description, priority } = args;
+  const text = args.task_text.trim();
+
+  if (args.frequency === 'weekly') {
+    if (args.day_of_month !== undefined) {
+      throw new Error('day_of_month only applies to monthly recurring tasks');
+    }
+
+    return {
+      text,
+      description,
+      priority,
+      frequency: 'weekly',
+      interval: args.interval ?? 1,
+      startDate: args.start_date ?? getCurrentDate(),
+    };
+  }
+
+  if (args.interval !== undefined || args.start_date !== undefined) {
+    throw new Error('interval and start_date only apply to weekly recurring tasks');
+  }
+
+  if (args.day_of_month === undefined) {
+    throw new Error('day_of_month is required for monthly recurring tasks');
+  }
+
+  return { text, description, priority, frequency: 'monthly', dayOfMonth: args.day_of_month };
+}
+
+/**
+ * Stores the recurring task definition without committing
+ */
+export function addRecurringTask(args: AddRecurringTaskArgs): TaskOperationResult {
+  if (args.task_text.trim() === '') {
+    throw new Error('Task text cannot be empty');
+  }
+
+  const recurringTask = createRecurringTask(buildRecurringTask(args));
+  const recurrence = describeRecurrence(recurringTask);
+
+  return {
+    message: `Successfully added recurring task "${recurringTask.text}" (${recurrence}) with ID ${recurringTask.id}`,
+    commitMessage: `Added recurring task: ${recurringTask.text} (${recurrence})`,
+  };
+}
+
+export function handler(args: AddRecurringTaskArgs) {
+  return runTaskOperation('adding recurring task', undefined, () => addRecurringTask(args));
+}
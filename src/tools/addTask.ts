@@ -1,18 +1,37 @@
 import { z } from 'zod';
-import { getCurrentDate } from '../utils/dates';
-import { commitChanges } from '../utils/git';
-import { addTaskToFile } from '../utils/fileOperations';
-import { createSuccessResponse, createErrorResponse } from '../utils/responses';
+import { getCurrentDate, appendAddedDate } from '../utils/dates';
+import { getWorkspaceConfig } from '../config';
+import { addTaskToFile, changeFile } from '../utils/fileOperations';
+import { generateTaskId, validateTaskMatch, assertTaskAtLine } from '../utils/taskIdentifier';
+import { addSubtask } from '../utils/markdown';
+import { formatTaskMetadata, type TaskMetadata } from '../utils/taskMetadata';
+import { TASK_PRIORITIES, type TaskPriority } from '../utils/taskPriority';
+import { addTags } from '../utils/taskTags';
+import { taskDateSchema } from '../utils/taskDates';
+import { expectedRevisionParameter } from '../utils/revision';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
 
 export const name = 'add_task';
 
 export const config = {
   title: 'Add Task',
-  description: 'Add a new task to the system',
+  description: 'Add a new task to the system, or a subtask under an existing task. ' +
+    'Returns the task\'s stable ID, which other tools accept as an identifier',
   inputSchema: {
     task_text: z.string().describe('The task description'),
-    target: z.enum(['backlog', 'current_week', 'next_week']).describe('Where to add the task'),
+    target: z.enum(['backlog', 'current_week', 'next_week']).optional()
+      .describe('Where to add the task; required unless parent is given'),
+    parent: z.string().optional()
+      .describe('Task ID or text of the task to add this task to as a subtask, instead of a target'),
     description: z.string().optional().describe('Additional task details'),
+    priority: z.enum(TASK_PRIORITIES).optional().describe('Task priority, P1 being the most important'),
+    tags: z.array(z.string()).optional()
+      .describe('Tags to add to the task text, e.g. ["#infra", "@home"]; names without a prefix become # tags'),
+    due_date: taskDateSchema.optional().describe('Date the task should be finished by (YYYY-MM-DD); not for subtasks'),
+    scheduled_date: taskDateSchema.optional()
+      .describe('Date work on the task is planned to start (YYYY-MM-DD); start_week pulls scheduled backlog tasks into the week. ' +
+        'Not for subtasks'),
+    expected_revision: expectedRevisionParameter,
   },
 };
 
@@ -26,44 +45,97 @@ function determineTaskTarget(
   target: 'backlog' | 'current_week' | 'next_week',
   taskText: string,
 ): TaskTarget {
+  const { sections } = getWorkspaceConfig();
+
   if (target === 'backlog') {
     return {
       fileName: 'backlog',
-      sectionTitle: 'Backlog',
-      taskText: `${taskText} added on ${getCurrentDate()}`,
+      sectionTitle: sections.backlog,
+      taskText: appendAddedDate(taskText, getCurrentDate()),
     };
   }
 
   return {
     fileName: 'current',
-    sectionTitle: target === 'current_week' ? 'This Week' : 'Next Week',
+    sectionTitle: target === 'current_week' ? sections.thisWeek : sections.nextWeek,
     taskText,
   };
 }
 
-export async function handler({
-  task_text,
-  target,
-  description,
-}: {
+export interface AddTaskArgs {
   task_text: string;
-  target: 'backlog' | 'current_week' | 'next_week';
+  target?: 'backlog' | 'current_week' | 'next_week';
+  parent?: string;
   description?: string;
-}) {
-  try {
-    const taskTarget = determineTaskTarget(target, task_text);
-
-    addTaskToFile(
-      taskTarget.fileName,
-      taskTarget.sectionTitle,
-      taskTarget.taskText,
-      description,
-    );
-
-    await commitChanges(`Added task: ${task_text}`);
-
-    return createSuccessResponse(`Successfully added task "${task_text}" to ${taskTarget.sectionTitle}`);
-  } catch (error) {
-    return createErrorResponse('adding task', error);
+  priority?: TaskPriority;
+  tags?: string[];
+  due_date?: string;
+  scheduled_date?: string;
+}
+
+function getTaskMetadata(taskId: string, { priority, due_date, scheduled_date }: AddTaskArgs): TaskMetadata {
+  return {
+    id: taskId,
+    priority: priority ?? '',
+    due: due_date ?? '',
+    scheduled: scheduled_date ?? '',
+  };
+}
+
+function addSubtaskToParent(parentIdentifier: string, taskText: string, args: AddTaskArgs): TaskOperationResult {
+  // Due and scheduled tasks are looked up among top-level tasks only, so a dated subtask would never come up
+  if (args.due_date !== undefined || args.scheduled_date !== undefined) {
+    throw new Error('Subtasks cannot have a due_date or scheduled_date; date the parent task instead');
   }
+
+  const parent = validateTaskMatch(parentIdentifier);
+  const taskId = generateTaskId();
+
+  changeFile(parent.file, (content) => {
+    assertTaskAtLine(content, parent);
+
+    return addSubtask(content, parent.lineNumber, formatTaskMetadata(taskText, getTaskMetadata(taskId, args)), args.description);
+  });
+
+  return {
+    message: `Successfully added subtask "${taskText}" to "${parent.taskText}" with ID ${taskId}`,
+    commitMessage: `Added subtask: ${taskText} to ${parent.taskText}`,
+  };
+}
+
+/**
+ * Adds the task to its target section, or as a subtask of its parent, without committing
+ */
+export function addTask(args: AddTaskArgs): TaskOperationResult {
+  const { task_text, target, parent, description, tags } = args;
+
+  // Tags go before the backlog date so that the date stays the last part of the text
+  const taskText = tags !== undefined ? addTags(task_text, tags) : task_text;
+
+  if (parent !== undefined && target === undefined) {
+    return addSubtaskToParent(parent, taskText, args);
+  }
+
+  if (target === undefined || parent !== undefined) {
+    throw new Error('Exactly one of target or parent must be provided');
+  }
+
+  const taskTarget = determineTaskTarget(target, taskText);
+  const taskId = generateTaskId();
+
+  addTaskToFile(
+    taskTarget.fileName,
+    taskTarget.sectionTitle,
+    formatTaskMetadata(taskTarget.taskText, getTaskMetadata(taskId, args)),
+    description,
+  );
+
+  return {
+    message: `Successfully added task "${taskText}" to ${taskTarget.sectionTitle} with ID ${taskId}`,
+    commitMessage: `Added task: ${taskText}`,
+  };
+}
+
+export function handler({ expected_revision, ...args }: AddTaskArgs & { expected_revision?: string }) {
+  return runTaskOperation('adding task', expected_revision, () => addTask(args));
 }
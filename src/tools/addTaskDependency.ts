@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { findAllTasks, validateTaskMatch, assertTaskAtLine, generateTaskId, type TaskMatch } from '../utils/taskIdentifier';
+import { updateTaskMetadata } from '../utils/markdown';
+import { changeFile, runTransaction } from '../utils/fileOperations';
+import { dependsOn, formatBlockedBy } from '../utils/taskDependencies';
+import { expectedRevisionParameter } from '../utils/revision';
+import type { TaskMetadata } from '../utils/taskMetadata';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
+
+export const name = 'add_task_dependency';
+
+export const config = {
+  title: 'Add Task Dependency',
+  description: 'Declare that a task is blocked by another task, which has to be done before it can start. ' +
+    'A prerequisite without an ID is given one, since dependencies refer to tasks by ID',
+  inputSchema: {
+    task_identifier: z.string().describe('Task ID or text of the task that has to wait'),
+    blocked_by: z.string().describe('Task ID or text of the task it has to wait for'),
+    expected_revision: expectedRevisionParameter,
+  },
+};
+
+export interface AddTaskDependencyArgs {
+  task_identifier: string;
+  blocked_by: string;
+}
+
+function changeTaskMetadata(task: TaskMatch, changes: TaskMetadata): void {
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
+    return updateTaskMetadata(content, task.lineNumber, changes);
+  });
+}
+
+function checkForCycle(task: TaskMatch, prerequisite: TaskMatch): void {
+  const isSameTask = task.file === prerequisite.file && task.lineNumber === prerequisite.lineNumber;
+
+  if (isSameTask) {
+    throw new Error(`Task "${task.taskText}" cannot be blocked by itself`);
+  }
+
+  // A task without an ID cannot be anyone's prerequisite yet
+  if (task.id !== undefined && dependsOn(prerequisite, task.id, findAllTasks())) {
+    throw new Error(`Task "${prerequisite.taskText}" already depends on "${task.taskText}", so it cannot block it`);
+  }
+}
+
+/**
+ * Adds the prerequisite to the task's blocked_by metadata without committing
+ */
+export function addTaskDependency({ task_identifier, blocked_by }: AddTaskDependencyArgs): TaskOperationResult {
+  const task = validateTaskMatch(task_identifier);
+  const prerequisite = validateTaskMatch(blocked_by);
+  const blockedBy = task.blockedBy ?? [];
+
+  checkForCycle(task, prerequisite);
+
+  if (prerequisite.id !== undefined && blockedBy.includes(prerequisite.id)) {
+    return { message: `Task "${task.taskText}" is already blocked by "${prerequisite.taskText}"` };
+  }
+
+  const prerequisiteId = prerequisite.id ?? generateTaskId();
+
+  runTransaction(() => {
+    if (prerequisite.id === undefined) {
+      changeTaskMetadata(prerequisite, { id: prerequisiteId });
+    }
+
+    changeTaskMetadata(task, { blocked_by: formatBlockedBy([...blockedBy, prerequisiteId]) });
+  });
+
+  return {
+    message: `Successfully marked task "${task.taskText}" as blocked by "${prerequisite.taskText}" (${prerequisiteId})`,
+    commitMessage: `Added dependency: ${task.taskText} blocked by ${prerequisite.taskText}`,
+  };
+}
+
+export function handler({ expected_revision, ...args }: AddTaskDependencyArgs & { expected_revision?: string }) {
+  return runTaskOperation('adding task dependency', expected_revision, () => addTaskDependency(args));
+}
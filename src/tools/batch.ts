@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import { commitChanges } from '../utils/git';
+import { runTransaction } from '../utils/fileOperations';
+import { createStructuredResponse, createErrorResponse, type MCPResponse } from '../utils/responses';
+import { checkRevision, expectedRevisionParameter, getWorkspaceRevision } from '../utils/revision';
+import { withWorkspaceLock } from '../utils/workspaceLock';
+import type { TaskOperationResult } from '../utils/taskOperation';
+import { addTask, config as addTaskConfig } from './addTask';
+import { editTask, config as editTaskConfig } from './editTask';
+import { finishTask, config as finishTaskConfig } from './finishTask';
+import { moveTask, config as moveTaskConfig } from './moveTask';
+import { deleteTask, config as deleteTaskConfig } from './deleteTask';
+import { reopenTask, config as reopenTaskConfig } from './reopenTask';
+import { setTaskStatus, config as setTaskStatusConfig } from './setTaskStatus';
+import { reorderTask, config as reorderTaskConfig } from './reorderTask';
+
+export const name = 'batch';
+
+const MAX_OPERATIONS = 50;
+
+// Each operation takes the same parameters as the matching tool; the batch checks the revision once
+const operationSchema = z.discriminatedUnion('type', [
+  z.object(addTaskConfig.inputSchema).omit({ expected_revision: true }).extend({ type: z.literal('add') }),
+  z.object(editTaskConfig.inputSchema).omit({ expected_revision: true }).extend({ type: z.literal('edit') }),
+  z.object(finishTaskConfig.inputSchema).omit({ expected_revision: true }).extend({ type: z.literal('finish') }),
+  z.object(moveTaskConfig.inputSchema).omit({ expected_revision: true }).extend({ type: z.literal('move') }),
+  z.object(deleteTaskConfig.inputSchema).omit({ expected_revision: true }).extend({ type: z.literal('delete') }),
+  z.object(reopenTaskConfig.inputSchema).omit({ expected_revision: true }).extend({ type: z.literal('reopen') }),
+  z.object(setTaskStatusConfig.inputSchema).omit({ expected_revision: true }).extend({ type: z.literal('set_status') }),
+  z.object(reorderTaskConfig.inputSchema).omit({ expected_revision: true }).extend({ type: z.literal('reorder') }),
+]);
+
+type BatchOperation = z.infer<typeof operationSchema>;
+
+export const config = {
+  title: 'Batch',
+  description: 'Apply an ordered list of add, edit, finish, move, delete, reopen, set_status and reorder operations ' +
+    'as one transaction with a single commit. By default the whole batch is aborted without changes when an operation fails',
+  inputSchema: {
+    operations: z.array(operationSchema).min(1).max(MAX_OPERATIONS)
+      .describe('Operations to apply in order; later operations see the changes made by earlier ones'),
+    stop_on_error: z.boolean().optional()
+      .describe('Abort the whole batch on the first failure (default true); when false, failed operations are skipped'),
+    expected_revision: expectedRevisionParameter,
+  },
+};
+
+interface OperationReport {
+  index: number;
+  type: BatchOperation['type'];
+  status: 'applied' | 'failed' | 'skipped';
+  message: string;
+}
+
+interface BatchProgress {
+  reports: OperationReport[];
+  commitMessages: string[];
+}
+
+function applyOperation(operation: BatchOperation): TaskOperationResult {
+  switch (operation.type) {
+    case 'add':
+      return addTask(operation);
+    case 'edit':
+      return editTask(operation);
+    case 'finish':
+      return finishTask(operation);
+    case 'move':
+      return moveTask(operation);
+    case 'delete':
+      return deleteTask(operation);
+    case 'reopen':
+      return reopenTask(operation);
+    case 'set_status':
+      return setTaskStatus(operation);
+    case 'reorder':
+      return reorderTask(operation);
+    default:
+      throw new Error('Unknown operation type');
+  }
+}
+
+// Thrown when a failed operation aborts the batch; its report already records the failure
+class BatchAbortedError extends Error {}
+
+/**
+ * Applies the operations in order, recording a report for each. Each operation runs
+ * in its own nested transaction, so a failed one leaves no partial change behind.
+ */
+function applyOperations(operations: BatchOperation[], stopOnError: boolean, progress: BatchProgress): void {
+  for (const [index, operation] of operations.entries()) {
+    try {
+      const { message, commitMessage } = runTransaction(() => applyOperation(operation));
+
+      progress.reports.push({ index, type: operation.type, status: 'applied', message });
+
+      if (commitMessage !== undefined) {
+        progress.commitMessages.push(commitMessage);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      progress.reports.push({ index, type: operation.type, status: 'failed', message });
+
+      if (stopOnError) {
+        throw new BatchAbortedError(message);
+      }
+    }
+  }
+}
+
+function formatBatchCommitMessage(commitMessages: string[]): string {
+  if (commitMessages.length === 1) {
+    return commitMessages[0];
+  }
+
+  // Details such as deleted task lines stay indented under their operation
+  const operationList = commitMessages
+    .map(message => `- ${message.replace(/\n\n?/g, '\n  ')}`)
+    .join('\n');
+
+  return `Batch of ${commitMessages.length} operations\n\n${operationList}`;
+}
+
+function markSkipped(operations: BatchOperation[], reports: OperationReport[]): OperationReport[] {
+  return operations.map((operation, index) => reports[index] ?? {
+    index,
+    type: operation.type,
+    status: 'skipped',
+    message: 'Not applied because an earlier operation failed',
+  });
+}
+
+async function runBatch(operations: BatchOperation[], stopOnError: boolean): Promise<MCPResponse> {
+  const progress: BatchProgress = { reports: [], commitMessages: [] };
+  const { reports, commitMessages } = progress;
+
+  try {
+    runTransaction(() => applyOperations(operations, stopOnError, progress));
+  } catch (error) {
+    // Only an operation failure aborts the batch with a report; anything else, such as
+    // failing to write the staged files, is unexpected
+    if (!(error instanceof BatchAbortedError)) {
+      throw error;
+    }
+
+    return { ...createStructuredResponse({ committed: false, results: markSkipped(operations, reports) }), isError: true };
+  }
+
+  if (commitMessages.length > 0) {
+    await commitChanges(formatBatchCommitMessage(commitMessages));
+  }
+
+  return createStructuredResponse({
+    committed: commitMessages.length > 0,
+    revision: getWorkspaceRevision(),
+    results: reports,
+  });
+}
+
+export async function handler({
+  operations,
+  stop_on_error = true,
+  expected_revision,
+}: {
+  operations: BatchOperation[];
+  stop_on_error?: boolean;
+  expected_revision?: string;
+}) {
+  try {
+    return await withWorkspaceLock(async() => {
+      checkRevision(expected_revision);
+
+      return runBatch(operations, stop_on_error);
+    });
+  } catch (error) {
+    return createErrorResponse('applying batch', error);
+  }
+}
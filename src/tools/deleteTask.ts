@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { basename } from 'path';
+import { getFilePath } from '../config';
+import { validateTaskMatch, assertTaskAtLine } from '../utils/taskIdentifier';
+import { removeTask, getTaskDescriptionLines } from '../utils/markdown';
+import { changeFile } from '../utils/fileOperations';
+import { expectedRevisionParameter } from '../utils/revision';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
+
+export const name = 'delete_task';
+
+export const config = {
+  title: 'Delete Task',
+  description: 'Permanently remove a task and its description from the current week or backlog, ' +
+    'e.g. one added by mistake. The deleted lines are kept in the commit message',
+  inputSchema: {
+    task_identifier: z.string().describe('Task ID or text to match against existing tasks'),
+    expected_revision: expectedRevisionParameter,
+  },
+};
+
+export interface DeleteTaskArgs {
+  task_identifier: string;
+}
+
+/**
+ * Removes the task without committing. The commit message carries the removed
+ * lines so the task can be recovered from the history.
+ */
+export function deleteTask({ task_identifier }: DeleteTaskArgs): TaskOperationResult {
+  const task = validateTaskMatch(task_identifier);
+  let deletedLines: string[] = [];
+
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
+    const lines = content.split('\n');
+
+    deletedLines = [lines[task.lineNumber - 1], ...getTaskDescriptionLines(lines, task.lineNumber)];
+
+    return removeTask(content, task.lineNumber);
+  });
+
+  const location = `${task.section} in ${basename(getFilePath(task.file))}`;
+
+  return {
+    message: `Successfully deleted task "${task.taskText}" from ${task.section}`,
+    commitMessage: `Deleted task: ${task.taskText}\n\nRemoved from ${location}:\n${deletedLines.join('\n')}`,
+  };
+}
+
+export function handler({ expected_revision, ...args }: DeleteTaskArgs & { expected_revision?: string }) {
+  return runTaskOperation('deleting task', expected_revision, () => deleteTask(args));
+}
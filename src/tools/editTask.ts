@@ -1,59 +1,113 @@
 import { z } from 'zod';
-import { validateTaskMatch, type TaskMatch } from '../utils/taskIdentifier';
-import { updateTaskText, updateTaskDescription } from '../utils/markdown';
-import { getCurrentDate } from '../utils/dates';
-import { commitChanges } from '../utils/git';
+import { validateTaskMatch, assertTaskAtLine, type TaskMatch } from '../utils/taskIdentifier';
+import { updateTaskText, updateTaskDescription, updateTaskMetadata } from '../utils/markdown';
+import { getCurrentDate, appendAddedDate, splitAddedDate } from '../utils/dates';
 import { changeFile } from '../utils/fileOperations';
-import { createSuccessResponse, createErrorResponse } from '../utils/responses';
+import { expectedRevisionParameter } from '../utils/revision';
+import { TASK_PRIORITIES, type TaskPriority } from '../utils/taskPriority';
+import { setTags } from '../utils/taskTags';
+import { taskDateSchema } from '../utils/taskDates';
+import type { TaskMetadata } from '../utils/taskMetadata';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
 
 export const name = 'edit_task';
 
 export const config = {
   title: 'Edit Task',
-  description: 'Modify an existing task\'s text or description',
+  description: 'Modify an existing task\'s text, description, priority, tags, due date or scheduled date',
   inputSchema: {
-    task_identifier: z.string().describe('Text to match against existing tasks'),
+    task_identifier: z.string().describe('Task ID or text to match against existing tasks'),
     new_text: z.string().optional().describe('Updated task text'),
     new_description: z.string().optional().describe('Updated description'),
+    new_priority: z.enum([...TASK_PRIORITIES, 'none']).optional().describe('Updated priority, or none to clear it'),
+    new_tags: z.array(z.string()).optional().describe('Tags replacing the task\'s current tags; an empty list removes them'),
+    new_due_date: z.union([taskDateSchema, z.literal('none')]).optional()
+      .describe('Updated due date (YYYY-MM-DD), or none to clear it'),
+    new_scheduled_date: z.union([taskDateSchema, z.literal('none')]).optional()
+      .describe('Updated scheduled date (YYYY-MM-DD), or none to clear it'),
+    expected_revision: expectedRevisionParameter,
   },
 };
 
-function validateEditParameters(newText?: string, newDescription?: string): void {
-  if ((newText === undefined || newText === '') && newDescription === undefined) {
-    throw new Error('At least one of new_text or new_description must be provided');
+export interface EditTaskArgs {
+  task_identifier: string;
+  new_text?: string;
+  new_description?: string;
+  new_priority?: TaskPriority | 'none';
+  new_tags?: string[];
+  new_due_date?: string;
+  new_scheduled_date?: string;
+}
+
+function hasNewText(newText?: string): newText is string {
+  return newText !== undefined && newText !== '';
+}
+
+function validateEditParameters({ new_text, new_description, new_priority, new_tags, new_due_date, new_scheduled_date }: EditTaskArgs): void {
+  const otherChanges = [new_description, new_priority, new_tags, new_due_date, new_scheduled_date];
+
+  if (!hasNewText(new_text) && otherChanges.every(value => value === undefined)) {
+    throw new Error(
+      'At least one of new_text, new_description, new_priority, new_tags, new_due_date or new_scheduled_date must be provided',
+    );
   }
 }
 
-function updateBacklogTaskText(originalText: string, newText: string): string {
-  // For backlog tasks, preserve the date suffix if it exists
-  const dateMatch = originalText.match(/^(.+) added on (\d{4}-\d{2}-\d{2})$/);
+/**
+ * Collects the metadata to update, with "none" clearing a value
+ */
+function getMetadataChanges({ new_priority, new_due_date, new_scheduled_date }: EditTaskArgs): TaskMetadata {
+  const changes: TaskMetadata = {};
+  const fields: [string, string | undefined][] = [
+    ['priority', new_priority],
+    ['due', new_due_date],
+    ['scheduled', new_scheduled_date],
+  ];
+
+  for (const [key, value] of fields) {
+    if (value !== undefined) {
+      changes[key] = value === 'none' ? '' : value;
+    }
+  }
 
-  if (dateMatch) {
-    const [, , date] = dateMatch;
+  return changes;
+}
 
-    return `${newText} added on ${date}`;
+/**
+ * Works out the task's new text from the new text and tags, or undefined when neither changes
+ */
+function getUpdatedTaskText(task: TaskMatch, { new_text: newText, new_tags: newTags }: EditTaskArgs): string | undefined {
+  if (!hasNewText(newText) && newTags === undefined) {
+    return undefined;
   }
 
+  // For backlog tasks, preserve the date suffix if it exists.
   // If no date found, add current date (shouldn't happen but be safe)
-  return `${newText} added on ${getCurrentDate()}`;
+  const { text, addedOn } = task.file === 'backlog' ? splitAddedDate(task.taskText) : { text: task.taskText };
+  const baseText = hasNewText(newText) ? newText : text;
+  const finalText = newTags !== undefined ? setTags(baseText, newTags) : baseText;
+
+  return task.file === 'backlog' ? appendAddedDate(finalText, addedOn ?? getCurrentDate()) : finalText;
 }
 
-function updateTaskInFile(
-  fileName: 'current' | 'backlog',
-  task: TaskMatch,
-  newText?: string,
-  newDescription?: string,
-): void {
-  changeFile(fileName, (content) => {
+function updateTaskInFile(task: TaskMatch, args: EditTaskArgs): void {
+  const { new_description: newDescription } = args;
+  const newText = getUpdatedTaskText(task, args);
+  const metadataChanges = getMetadataChanges(args);
+
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
     let updatedContent = content;
 
     // Update task text if provided
-    if (newText !== undefined && newText !== '') {
-      const finalText = fileName === 'backlog'
-        ? updateBacklogTaskText(task.taskText, newText)
-        : newText;
+    if (newText !== undefined) {
+      updatedContent = updateTaskText(updatedContent, task.lineNumber, newText);
+    }
 
-      updatedContent = updateTaskText(updatedContent, task.lineNumber, finalText);
+    // Update or clear the priority and dates if provided
+    if (Object.keys(metadataChanges).length > 0) {
+      updatedContent = updateTaskMetadata(updatedContent, task.lineNumber, metadataChanges);
     }
 
     // Update description if provided (or explicitly cleared)
@@ -69,43 +123,59 @@ function updateTaskInFile(
   });
 }
 
-function formatUpdateMessage(newText?: string, newDescription?: string): string {
+function formatDateUpdate(label: string, date: string): string {
+  return date !== 'none' ? `${label} (${date})` : `${label} (cleared)`;
+}
+
+function formatUpdateMessage(args: EditTaskArgs): string {
+  const { new_text, new_description, new_priority, new_tags, new_due_date, new_scheduled_date } = args;
   const updates: string[] = [];
 
-  if (newText !== undefined && newText !== '') {
+  if (hasNewText(new_text)) {
     updates.push('text');
   }
 
-  if (newDescription !== undefined) {
-    updates.push(newDescription !== '' ? 'description' : 'description (cleared)');
+  if (new_description !== undefined) {
+    updates.push(new_description !== '' ? 'description' : 'description (cleared)');
+  }
+
+  if (new_priority !== undefined) {
+    updates.push(new_priority !== 'none' ? `priority (${new_priority})` : 'priority (cleared)');
+  }
+
+  if (new_tags !== undefined) {
+    updates.push(new_tags.length > 0 ? 'tags' : 'tags (cleared)');
+  }
+
+  if (new_due_date !== undefined) {
+    updates.push(formatDateUpdate('due date', new_due_date));
+  }
+
+  if (new_scheduled_date !== undefined) {
+    updates.push(formatDateUpdate('scheduled date', new_scheduled_date));
   }
 
   return `Updated ${updates.join(' and ')}`;
 }
 
-export async function handler({
-  task_identifier,
-  new_text,
-  new_description,
-}: {
-  task_identifier: string;
-  new_text?: string;
-  new_description?: string;
-}) {
-  try {
-    validateEditParameters(new_text, new_description);
+/**
+ * Updates the task's text, description, priority, tags and/or dates without committing
+ */
+export function editTask(args: EditTaskArgs): TaskOperationResult {
+  validateEditParameters(args);
 
-    const task = validateTaskMatch(task_identifier);
+  const task = validateTaskMatch(args.task_identifier);
 
-    updateTaskInFile(task.file, task, new_text, new_description);
+  updateTaskInFile(task, args);
 
-    const updateMessage = formatUpdateMessage(new_text, new_description);
-    const commitMessage = `Edited task: ${task.taskText} - ${updateMessage}`;
+  const updateMessage = formatUpdateMessage(args);
 
-    await commitChanges(commitMessage);
+  return {
+    message: `Successfully updated task "${task.taskText}" - ${updateMessage}`,
+    commitMessage: `Edited task: ${task.taskText} - ${updateMessage}`,
+  };
+}
 
-    return createSuccessResponse(`Successfully updated task "${task.taskText}" - ${updateMessage}`);
-  } catch (error) {
-    return createErrorResponse('editing task', error);
-  }
+export function handler({ expected_revision, ...args }: EditTaskArgs & { expected_revision?: string }) {
+  return runTaskOperation('editing task', expected_revision, () => editTask(args));
 }
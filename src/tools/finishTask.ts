@@ -1,28 +1,31 @@
 import { z } from 'zod';
-import { validateTaskMatch, type TaskMatch } from '../utils/taskIdentifier';
+import { findAllTasks, validateTaskMatch, assertTaskAtLine, type TaskMatch } from '../utils/taskIdentifier';
 import { updateTaskStatus } from '../utils/markdown';
-import { commitChanges } from '../utils/git';
 import { changeFile } from '../utils/fileOperations';
-import { createSuccessResponse, createErrorResponse } from '../utils/responses';
 import { getStatusDisplay } from '../utils/taskStatus';
+import { getFinishingNotes } from '../utils/taskDependencies';
+import { expectedRevisionParameter } from '../utils/revision';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
 
 export const name = 'finish_task';
 
 export const config = {
   title: 'Finish Task',
-  description: 'Mark a task as completed or closed',
+  description: 'Mark a task or subtask as completed or closed. Warns when completing a task with open prerequisites ' +
+    'and lists the tasks that finishing it unblocks',
   inputSchema: {
-    task_identifier: z.string().describe('Text to match against existing tasks'),
+    task_identifier: z.string().describe('Task ID or text to match against existing tasks and subtasks'),
     status: z.enum(['completed', 'closed']).describe('Mark as completed (x) or closed (-)'),
+    expected_revision: expectedRevisionParameter,
   },
 };
 
-function updateTaskInFile(
-  fileName: 'current' | 'backlog',
-  lineNumber: number,
-  status: 'completed' | 'closed',
-): void {
-  changeFile(fileName, (content) => updateTaskStatus(content, lineNumber, status));
+function updateTaskInFile(task: TaskMatch, status: 'completed' | 'closed'): void {
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
+    return updateTaskStatus(content, task.lineNumber, status);
+  });
 }
 
 function checkTaskAlreadyInState(
@@ -36,35 +39,51 @@ function checkTaskAlreadyInState(
   return null;
 }
 
-function formatStatusMessage(taskText: string, status: 'completed' | 'closed'): string {
+function describeTask(task: TaskMatch): string {
+  return task.parent !== undefined ? `subtask "${task.taskText}" of "${task.parent}"` : `task "${task.taskText}"`;
+}
+
+function formatStatusMessage(task: TaskMatch, status: 'completed' | 'closed'): string {
   const statusDisplay = getStatusDisplay(status);
 
-  return `Successfully marked task "${taskText}" as ${statusDisplay}`;
+  return `Successfully marked ${describeTask(task)} as ${statusDisplay}`;
+}
+
+function formatCommitMessage(task: TaskMatch, status: 'completed' | 'closed'): string {
+  const action = status === 'completed' ? 'Completed' : 'Closed';
+
+  return task.parent !== undefined
+    ? `${action} subtask: ${task.taskText} of ${task.parent}`
+    : `${action} task: ${task.taskText}`;
 }
 
-export async function handler({
-  task_identifier,
-  status,
-}: {
+export interface FinishTaskArgs {
   task_identifier: string;
   status: 'completed' | 'closed';
-}) {
-  try {
-    const task = validateTaskMatch(task_identifier);
-    const alreadyInStateMessage = checkTaskAlreadyInState(task, status);
+}
+
+/**
+ * Marks the task or subtask as completed or closed without committing, noting what it means for dependent tasks
+ */
+export function finishTask({ task_identifier, status }: FinishTaskArgs): TaskOperationResult {
+  const task = validateTaskMatch(task_identifier, { includeSubtasks: true });
+  const alreadyInStateMessage = checkTaskAlreadyInState(task, status);
 
-    if (alreadyInStateMessage !== null) {
-      return createSuccessResponse(alreadyInStateMessage);
-    }
+  if (alreadyInStateMessage !== null) {
+    return { message: alreadyInStateMessage };
+  }
 
-    updateTaskInFile(task.file, task.lineNumber, status);
+  // Dependencies are worked out from the task lists as they were before the task was finished
+  const dependencyNotes = getFinishingNotes(task, status, findAllTasks());
 
-    const commitMessage = `${status === 'completed' ? 'Completed' : 'Closed'} task: ${task.taskText}`;
+  updateTaskInFile(task, status);
 
-    await commitChanges(commitMessage);
+  return {
+    message: [formatStatusMessage(task, status), ...dependencyNotes].join('\n'),
+    commitMessage: formatCommitMessage(task, status),
+  };
+}
 
-    return createSuccessResponse(formatStatusMessage(task.taskText, status));
-  } catch (error) {
-    return createErrorResponse('finishing task', error);
-  }
+export function handler({ expected_revision, ...args }: FinishTaskArgs & { expected_revision?: string }) {
+  return runTaskOperation('finishing task', expected_revision, () => finishTask(args));
 }
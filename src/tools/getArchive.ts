@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { getArchiveWeeks, selectArchiveWeeks, formatArchiveWeeks, filterArchiveWeeks } from '../utils/archive';
+import { createRevisionResponse, createErrorResponse } from '../utils/responses';
+import { getWorkspaceRevision } from '../utils/revision';
+import { hasAllTags, tagFilterParameter } from '../utils/taskTags';
+
+export const name = 'get_archive';
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+export const config = {
+  title: 'Get Archive',
+  description: 'Retrieve archived weeks: a specific week, a range of weeks, the last N weeks or the weeks with tagged tasks ' +
+    '(defaults to the most recent week)',
+  inputSchema: {
+    week: z.string().regex(datePattern).optional().describe('Week date to retrieve (YYYY-MM-DD, as in "Week of YYYY-MM-DD")'),
+    from_week: z.string().regex(datePattern).optional().describe('Earliest week date to include (YYYY-MM-DD)'),
+    to_week: z.string().regex(datePattern).optional().describe('Latest week date to include (YYYY-MM-DD)'),
+    last: z.number().int().positive().optional().describe('Only include the most recent N matching weeks'),
+    tags: tagFilterParameter,
+  },
+};
+
+interface ArchiveArgs {
+  week?: string;
+  from_week?: string;
+  to_week?: string;
+  last?: number;
+  tags?: string[];
+}
+
+function hasSelection({ week, from_week, to_week, last, tags }: ArchiveArgs): boolean {
+  return [week, from_week, to_week, last, tags].some(value => value !== undefined);
+}
+
+export function handler(args: ArchiveArgs) {
+  try {
+    const { tags } = args;
+    const archiveWeeks = tags !== undefined
+      ? filterArchiveWeeks(getArchiveWeeks(), line => hasAllTags(line, tags))
+      : getArchiveWeeks();
+    const weeks = selectArchiveWeeks(archiveWeeks, {
+      week: args.week,
+      fromWeek: args.from_week,
+      toWeek: args.to_week,
+      last: hasSelection(args) ? args.last : 1,
+    });
+
+    const message = weeks.length === 0
+      ? 'No archived weeks found matching the request.'
+      : formatArchiveWeeks(weeks);
+
+    return createRevisionResponse(message, getWorkspaceRevision());
+  } catch (error) {
+    return createErrorResponse('reading archive', error);
+  }
+}
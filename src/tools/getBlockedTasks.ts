@@ -0,0 +1,36 @@
+import { collectTaskRecords } from '../utils/taskSearch';
+import { getOpenPrerequisites } from '../utils/taskDependencies';
+import { isFinishedStatus } from '../utils/taskStatus';
+import { createStructuredResponse, createErrorResponse } from '../utils/responses';
+import { getWorkspaceRevision } from '../utils/revision';
+
+export const name = 'get_blocked_tasks';
+
+export const config = {
+  title: 'Get Blocked Tasks',
+  description: 'List unfinished current and backlog tasks that have prerequisites: blocked tasks with the prerequisites ' +
+    'they are still waiting for, and unblocked tasks whose prerequisites are all done',
+  inputSchema: {},
+};
+
+export function handler() {
+  try {
+    const records = [...collectTaskRecords('current'), ...collectTaskRecords('backlog')];
+    const dependentTasks = records.filter(record =>
+      record.blockedBy !== undefined && !isFinishedStatus(record.status));
+    const blocked = dependentTasks
+      .map(record => ({
+        ...record,
+        openPrerequisites: getOpenPrerequisites(record, records).map(({ id, taskText }) => ({ id, taskText })),
+      }))
+      .filter(record => record.openPrerequisites.length > 0);
+
+    return createStructuredResponse({
+      blocked,
+      unblocked: dependentTasks.filter(record => getOpenPrerequisites(record, records).length === 0),
+      revision: getWorkspaceRevision(),
+    });
+  } catch (error) {
+    return createErrorResponse('listing blocked tasks', error);
+  }
+}
@@ -0,0 +1,18 @@
+import { getWorkspaceConfig } from '../config';
+import { createStructuredResponse, createErrorResponse } from '../utils/responses';
+
+export const name = 'get_config';
+
+export const config = {
+  title: 'Get Config',
+  description: 'Show the workspace conventions in effect: file names, section titles, backlog date label, week boundaries, git identity and extra task statuses',
+  inputSchema: {},
+};
+
+export function handler() {
+  try {
+    return createStructuredResponse(getWorkspaceConfig());
+  } catch (error) {
+    return createErrorResponse('reading configuration', error);
+  }
+}
@@ -1,19 +1,35 @@
+import { z } from 'zod';
 import { readFile } from '../utils/fileOperations';
-import { createSuccessResponse, createErrorResponse } from '../utils/responses';
+import { filterTasks, sortTasksByPriority, annotateSubtaskProgress } from '../utils/markdown';
+import { createRevisionResponse, createErrorResponse } from '../utils/responses';
+import { getWorkspaceRevision } from '../utils/revision';
+import { hasAllTags, tagFilterParameter } from '../utils/taskTags';
 
 export const name = 'get_current_tasks';
 
 export const config = {
   title: 'Get Current Tasks',
-  description: 'Retrieve all current, recent, and upcoming tasks',
-  inputSchema: {},
+  description: 'Retrieve all current, recent, and upcoming tasks. Tasks with subtasks show how many are finished, e.g. (2/5)',
+  inputSchema: {
+    sort_by_priority: z.boolean().optional()
+      .describe('Order the tasks of each section by priority (P1 first) instead of their order in the file'),
+    tags: tagFilterParameter,
+  },
 };
 
-export function handler() {
+export function handler({ sort_by_priority = false, tags }: { sort_by_priority?: boolean; tags?: string[] } = {}) {
   try {
-    const content = readFile('current');
+    let content = readFile('current');
 
-    return createSuccessResponse(content);
+    if (tags !== undefined) {
+      content = filterTasks(content, line => hasAllTags(line, tags));
+    }
+
+    if (sort_by_priority) {
+      content = sortTasksByPriority(content);
+    }
+
+    return createRevisionResponse(annotateSubtaskProgress(content), getWorkspaceRevision());
   } catch (error) {
     return createErrorResponse('reading current task list', error);
   }
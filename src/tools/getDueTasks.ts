@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { collectTaskRecords, type TaskRecord } from '../utils/taskSearch';
+import { getCurrentDate, addDays } from '../utils/dates';
+import { isFinishedStatus } from '../utils/taskStatus';
+import { createStructuredResponse, createErrorResponse } from '../utils/responses';
+import { getWorkspaceRevision } from '../utils/revision';
+
+export const name = 'get_due_tasks';
+
+const DEFAULT_DAYS_AHEAD = 7;
+
+export const config = {
+  title: 'Get Due Tasks',
+  description: 'List unfinished current and backlog tasks that are overdue or due within the coming days, earliest due date first',
+  inputSchema: {
+    days_ahead: z.number().int().min(0).optional()
+      .describe(`Include tasks due up to this many days from today (default ${DEFAULT_DAYS_AHEAD})`),
+  },
+};
+
+type DueTaskRecord = TaskRecord & { dueDate: string };
+
+function isDueTask(record: TaskRecord): record is DueTaskRecord {
+  return record.dueDate !== undefined && !isFinishedStatus(record.status);
+}
+
+export function handler({ days_ahead = DEFAULT_DAYS_AHEAD }: { days_ahead?: number } = {}) {
+  try {
+    const today = getCurrentDate();
+    const until = addDays(today, days_ahead);
+    const dueTasks = [...collectTaskRecords('current'), ...collectTaskRecords('backlog')]
+      .filter(isDueTask)
+      .filter(record => record.dueDate <= until)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+    return createStructuredResponse({
+      today,
+      overdue: dueTasks.filter(record => record.dueDate < today),
+      upcoming: dueTasks.filter(record => record.dueDate >= today),
+      revision: getWorkspaceRevision(),
+    });
+  } catch (error) {
+    return createErrorResponse('listing due tasks', error);
+  }
+}
@@ -1,19 +1,25 @@
 import { readFile } from '../utils/fileOperations';
-import { createSuccessResponse, createErrorResponse } from '../utils/responses';
+import { filterTasks, annotateSubtaskProgress } from '../utils/markdown';
+import { createRevisionResponse, createErrorResponse } from '../utils/responses';
+import { getWorkspaceRevision } from '../utils/revision';
+import { hasAllTags, tagFilterParameter } from '../utils/taskTags';
 
 export const name = 'get_task_backlog';
 
 export const config = {
   title: 'Get Task Backlog',
-  description: 'Retrieve the backlog of as-yet unscheduled tasks',
-  inputSchema: {},
+  description: 'Retrieve the backlog of as-yet unscheduled tasks. Tasks with subtasks show how many are finished, e.g. (2/5)',
+  inputSchema: {
+    tags: tagFilterParameter,
+  },
 };
 
-export function handler() {
+export function handler({ tags }: { tags?: string[] } = {}) {
   try {
     const content = readFile('backlog');
+    const tasks = tags !== undefined ? filterTasks(content, line => hasAllTags(line, tags)) : content;
 
-    return createSuccessResponse(content);
+    return createRevisionResponse(annotateSubtaskProgress(tasks), getWorkspaceRevision());
   } catch (error) {
     return createErrorResponse('reading task backlog', error);
   }
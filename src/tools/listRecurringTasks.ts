@@ -0,0 +1,20 @@
+import { readRecurringTasks, describeRecurrence } from '../utils/recurringTasks';
+import { createStructuredResponse, createErrorResponse } from '../utils/responses';
+
+export const name = 'list_recurring_tasks';
+
+export const config = {
+  title: 'List Recurring Tasks',
+  description: 'List the recurring task definitions of the workspace with how often each repeats',
+  inputSchema: {},
+};
+
+export function handler() {
+  try {
+    const recurringTasks = readRecurringTasks().map(task => ({ ...task, recurrence: describeRecurrence(task) }));
+
+    return createStructuredResponse({ count: recurringTasks.length, recurringTasks });
+  } catch (error) {
+    return createErrorResponse('listing recurring tasks', error);
+  }
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { collectTaskRecords } from '../utils/taskSearch';
+import { createStructuredResponse, createErrorResponse } from '../utils/responses';
+import { getWorkspaceRevision } from '../utils/revision';
+
+export const name = 'list_tags';
+
+export const config = {
+  title: 'List Tags',
+  description: 'List the #project and @context tags used by current and backlog tasks, with the number of tasks carrying each',
+  inputSchema: {
+    include_archive: z.boolean().optional().describe('Also count tags on archived tasks'),
+  },
+};
+
+interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Counts tags case-insensitively, reporting each under the spelling seen first
+ */
+function countTags(tagLists: string[][]): TagCount[] {
+  const counts = new Map<string, TagCount>();
+
+  for (const tag of tagLists.flat()) {
+    const entry = counts.get(tag.toLowerCase()) ?? { tag, count: 0 };
+
+    entry.count++;
+    counts.set(tag.toLowerCase(), entry);
+  }
+
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function handler({ include_archive = false }: { include_archive?: boolean } = {}) {
+  try {
+    const records = [
+      ...collectTaskRecords('current'),
+      ...collectTaskRecords('backlog'),
+      ...(include_archive ? collectTaskRecords('archive') : []),
+    ];
+    const tags = countTags(records.map(record => record.tags ?? []));
+
+    return createStructuredResponse({ tags, revision: getWorkspaceRevision() });
+  } catch (error) {
+    return createErrorResponse('listing tags', error);
+  }
+}
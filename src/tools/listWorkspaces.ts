@@ -0,0 +1,24 @@
+import { getWorkspaces, getDefaultWorkspaceName } from '../config';
+import { createStructuredResponse, createErrorResponse } from '../utils/responses';
+
+export const name = 'list_workspaces';
+
+export const config = {
+  title: 'List Workspaces',
+  description: 'List the named task workspaces managed by this server. Pass a name as the "workspace" parameter of other tools',
+  inputSchema: {},
+};
+
+export function handler() {
+  try {
+    const defaultName = getDefaultWorkspaceName();
+    const workspaces = getWorkspaces().map(workspace => ({
+      ...workspace,
+      isDefault: workspace.name === defaultName,
+    }));
+
+    return createStructuredResponse({ workspaces });
+  } catch (error) {
+    return createErrorResponse('listing workspaces', error);
+  }
+}
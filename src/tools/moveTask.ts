@@ -1,10 +1,12 @@
 import { z } from 'zod';
-import { validateTaskMatch, type TaskMatch } from '../utils/taskIdentifier';
+import { validateTaskMatch, assertTaskAtLine, type TaskMatch } from '../utils/taskIdentifier';
 import { removeTask, getTaskDescriptionLines } from '../utils/markdown';
-import { getCurrentDate } from '../utils/dates';
-import { commitChanges } from '../utils/git';
-import { addTaskToFile, changeFile, readFile } from '../utils/fileOperations';
-import { createSuccessResponse, createErrorResponse } from '../utils/responses';
+import { getCurrentDate, appendAddedDate, splitAddedDate } from '../utils/dates';
+import { getWorkspaceConfig } from '../config';
+import { addTaskToFile, changeFile, readFile, runTransaction } from '../utils/fileOperations';
+import { splitTaskMetadata, formatTaskMetadata, type TaskMetadata } from '../utils/taskMetadata';
+import { expectedRevisionParameter } from '../utils/revision';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
 
 export const name = 'move_task';
 
@@ -12,8 +14,9 @@ export const config = {
   title: 'Move Task',
   description: 'Move a task between backlog, current week, and next week',
   inputSchema: {
-    task_identifier: z.string().describe('Text to match against existing tasks'),
+    task_identifier: z.string().describe('Task ID or text to match against existing tasks'),
     destination: z.enum(['backlog', 'current_week', 'next_week']).describe('Where to move the task'),
+    expected_revision: expectedRevisionParameter,
   },
 };
 
@@ -23,13 +26,15 @@ interface MoveDestination {
 }
 
 function getDestinationInfo(destination: 'backlog' | 'current_week' | 'next_week'): MoveDestination {
+  const { sections } = getWorkspaceConfig();
+
   switch (destination) {
     case 'backlog':
-      return { file: 'backlog', section: 'Backlog' };
+      return { file: 'backlog', section: sections.backlog };
     case 'current_week':
-      return { file: 'current', section: 'This Week' };
+      return { file: 'current', section: sections.thisWeek };
     case 'next_week':
-      return { file: 'current', section: 'Next Week' };
+      return { file: 'current', section: sections.nextWeek };
     default:
       throw new Error(`Unknown destination: ${destination}`);
   }
@@ -51,6 +56,12 @@ function extractTaskDescription(task: TaskMatch): string | undefined {
   return descriptionLines.map(line => line.substring(2)).join('\n');
 }
 
+function extractTaskMetadata(task: TaskMatch): TaskMetadata {
+  const lines = readFile(task.file).split('\n');
+
+  return splitTaskMetadata(lines[task.lineNumber - 1]).metadata;
+}
+
 function transformTaskText(
   taskText: string,
   fromDestination: 'backlog' | 'current_week' | 'next_week',
@@ -58,16 +69,12 @@ function transformTaskText(
 ): string {
   // Remove date from backlog tasks when moving to current/next week
   if (fromDestination === 'backlog' && toDestination !== 'backlog') {
-    const dateMatch = taskText.match(/^(.+) added on \d{4}-\d{2}-\d{2}$/);
-
-    if (dateMatch) {
-      return dateMatch[1]; // Return text without date
-    }
+    return splitAddedDate(taskText).text;
   }
 
   // Add date to tasks when moving to backlog
   if (fromDestination !== 'backlog' && toDestination === 'backlog') {
-    return `${taskText} added on ${getCurrentDate()}`;
+    return appendAddedDate(taskText, getCurrentDate());
   }
 
   // No transformation needed for current_week <-> next_week moves
@@ -75,15 +82,17 @@ function transformTaskText(
 }
 
 function getSourceDestination(task: TaskMatch): 'backlog' | 'current_week' | 'next_week' {
+  const { sections } = getWorkspaceConfig();
+
   if (task.file === 'backlog') {
     return 'backlog';
   }
 
-  if (task.section === 'This Week') {
+  if (task.section === sections.thisWeek) {
     return 'current_week';
   }
 
-  if (task.section === 'Next Week') {
+  if (task.section === sections.nextWeek) {
     return 'next_week';
   }
 
@@ -91,7 +100,11 @@ function getSourceDestination(task: TaskMatch): 'backlog' | 'current_week' | 'ne
 }
 
 function removeTaskFromSource(task: TaskMatch): void {
-  changeFile(task.file, (content) => removeTask(content, task.lineNumber));
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
+    return removeTask(content, task.lineNumber);
+  });
 }
 
 function checkTaskAlreadyAtDestination(
@@ -107,49 +120,56 @@ function checkTaskAlreadyAtDestination(
   return null;
 }
 
-async function performTaskMove(
+function performTaskMove(
   task: TaskMatch,
   destination: 'backlog' | 'current_week' | 'next_week',
-): Promise<string> {
+): TaskOperationResult {
   const sourceDestination = getSourceDestination(task);
   const destinationInfo = getDestinationInfo(destination);
   const description = extractTaskDescription(task);
+  const metadata = extractTaskMetadata(task);
   const transformedText = transformTaskText(task.taskText, sourceDestination, destination);
 
-  // Remove from source
-  removeTaskFromSource(task);
-
-  // Add to destination
-  addTaskToFile(destinationInfo.file, destinationInfo.section, transformedText, description, task.status);
+  // The task is removed from its source and added to its destination together or not at all
+  runTransaction(() => {
+    removeTaskFromSource(task);
+    addTaskToFile(
+      destinationInfo.file,
+      destinationInfo.section,
+      formatTaskMetadata(transformedText, metadata),
+      description,
+      task.status,
+    );
+  });
 
   const sourceLocation = sourceDestination.replace('_', ' ');
   const destLocation = destination.replace('_', ' ');
-  const commitMessage = `Moved task: ${task.taskText} from ${sourceLocation} to ${destLocation}`;
-
-  await commitChanges(commitMessage);
 
-  return `Successfully moved task "${task.taskText}" from ${sourceLocation} to ${destLocation}`;
+  return {
+    message: `Successfully moved task "${task.taskText}" from ${sourceLocation} to ${destLocation}`,
+    commitMessage: `Moved task: ${task.taskText} from ${sourceLocation} to ${destLocation}`,
+  };
 }
 
-export async function handler({
-  task_identifier,
-  destination,
-}: {
+export interface MoveTaskArgs {
   task_identifier: string;
   destination: 'backlog' | 'current_week' | 'next_week';
-}) {
-  try {
-    const task = validateTaskMatch(task_identifier);
-    const alreadyAtDestination = checkTaskAlreadyAtDestination(task, destination);
-
-    if (alreadyAtDestination !== null) {
-      return createSuccessResponse(alreadyAtDestination);
-    }
+}
 
-    const successMessage = await performTaskMove(task, destination);
+/**
+ * Moves the task to its destination without committing
+ */
+export function moveTask({ task_identifier, destination }: MoveTaskArgs): TaskOperationResult {
+  const task = validateTaskMatch(task_identifier);
+  const alreadyAtDestination = checkTaskAlreadyAtDestination(task, destination);
 
-    return createSuccessResponse(successMessage);
-  } catch (error) {
-    return createErrorResponse('moving task', error);
+  if (alreadyAtDestination !== null) {
+    return { message: alreadyAtDestination };
   }
+
+  return performTaskMove(task, destination);
+}
+
+export function handler({ expected_revision, ...args }: MoveTaskArgs & { expected_revision?: string }) {
+  return runTaskOperation('moving task', expected_revision, () => moveTask(args));
 }
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { findRecurringTask, deleteRecurringTask } from '../utils/recurringTasks';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
+
+export const name = 'remove_recurring_task';
+
+export const config = {
+  title: 'Remove Recurring Task',
+  description: 'Stop a task from recurring. Instances already in the task lists are kept',
+  inputSchema: {
+    recurring_task_identifier: z.string().describe('Recurring task ID or text to match against the definitions'),
+  },
+};
+
+export interface RemoveRecurringTaskArgs {
+  recurring_task_identifier: string;
+}
+
+/**
+ * Removes the recurring task definition without committing
+ */
+export function removeRecurringTask({ recurring_task_identifier }: RemoveRecurringTaskArgs): TaskOperationResult {
+  const recurringTask = findRecurringTask(recurring_task_identifier);
+
+  deleteRecurringTask(recurringTask.id);
+
+  return {
+    message: `Successfully removed recurring task "${recurringTask.text}"`,
+    commitMessage: `Removed recurring task: ${recurringTask.text}`,
+  };
+}
+
+export function handler(args: RemoveRecurringTaskArgs) {
+  return runTaskOperation('removing recurring task', undefined, () => removeRecurringTask(args));
+}
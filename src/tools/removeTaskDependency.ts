@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { findAllTasks, validateTaskMatch, assertTaskAtLine, type TaskMatch } from '../utils/taskIdentifier';
+import { updateTaskMetadata } from '../utils/markdown';
+import { changeFile } from '../utils/fileOperations';
+import { formatBlockedBy } from '../utils/taskDependencies';
+import { expectedRevisionParameter } from '../utils/revision';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
+
+export const name = 'remove_task_dependency';
+
+export const config = {
+  title: 'Remove Task Dependency',
+  description: 'Remove a prerequisite from a task, so that it no longer waits for it',
+  inputSchema: {
+    task_identifier: z.string().describe('Task ID or text of the blocked task'),
+    blocked_by: z.string()
+      .describe('Task ID or text of the prerequisite; archived or deleted prerequisites can be given by ID'),
+    expected_revision: expectedRevisionParameter,
+  },
+};
+
+export interface RemoveTaskDependencyArgs {
+  task_identifier: string;
+  blocked_by: string;
+}
+
+interface Prerequisite {
+  id: string;
+  taskText: string;
+}
+
+function findPrerequisite(task: TaskMatch, identifier: string): Prerequisite {
+  const blockedBy = task.blockedBy ?? [];
+  const id = identifier.trim();
+
+  // Prerequisites that left the task lists can only be referred to by their ID
+  if (blockedBy.includes(id)) {
+    return { id, taskText: findAllTasks().find(other => other.id === id)?.taskText ?? id };
+  }
+
+  const prerequisite = validateTaskMatch(identifier);
+
+  if (prerequisite.id === undefined || !blockedBy.includes(prerequisite.id)) {
+    throw new Error(`Task "${task.taskText}" is not blocked by "${prerequisite.taskText}"`);
+  }
+
+  return { id: prerequisite.id, taskText: prerequisite.taskText };
+}
+
+/**
+ * Removes the prerequisite from the task's blocked_by metadata without committing
+ */
+export function removeTaskDependency({ task_identifier, blocked_by }: RemoveTaskDependencyArgs): TaskOperationResult {
+  const task = validateTaskMatch(task_identifier);
+  const prerequisite = findPrerequisite(task, blocked_by);
+  const remainingIds = (task.blockedBy ?? []).filter(id => id !== prerequisite.id);
+
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
+    return updateTaskMetadata(content, task.lineNumber, { blocked_by: formatBlockedBy(remainingIds) });
+  });
+
+  return {
+    message: `Successfully removed "${prerequisite.taskText}" from the prerequisites of task "${task.taskText}"`,
+    commitMessage: `Removed dependency: ${task.taskText} blocked by ${prerequisite.taskText}`,
+  };
+}
+
+export function handler({ expected_revision, ...args }: RemoveTaskDependencyArgs & { expected_revision?: string }) {
+  return runTaskOperation('removing task dependency', expected_revision, () => removeTaskDependency(args));
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { getWorkspaceConfig } from '../config';
+import { validateTaskMatch, assertTaskAtLine, type TaskMatch } from '../utils/taskIdentifier';
+import { updateTaskStatus } from '../utils/markdown';
+import { findArchivedTask, type TaskRecord } from '../utils/taskSearch';
+import { addTaskToFile, changeFile } from '../utils/fileOperations';
+import { formatTaskMetadata, type TaskMetadata } from '../utils/taskMetadata';
+import { formatBlockedBy } from '../utils/taskDependencies';
+import { isFinishedStatus } from '../utils/taskStatus';
+import { expectedRevisionParameter } from '../utils/revision';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
+
+export const name = 'reopen_task';
+
+export const config = {
+  title: 'Reopen Task',
+  description: 'Mark a completed or closed task as new again. Archived tasks can be reopened by copying them back into this week',
+  inputSchema: {
+    task_identifier: z.string().describe('Task ID or text to match against existing tasks'),
+    from_archive: z.boolean().optional()
+      .describe('When no current or backlog task matches, copy the matching archived task into this week as a new task'),
+    expected_revision: expectedRevisionParameter,
+  },
+};
+
+export interface ReopenTaskArgs {
+  task_identifier: string;
+  from_archive?: boolean;
+}
+
+function reopenActiveTask(task: TaskMatch): TaskOperationResult {
+  if (!isFinishedStatus(task.status)) {
+    return { message: `Task "${task.taskText}" is already open` };
+  }
+
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
+    return updateTaskStatus(content, task.lineNumber, 'new');
+  });
+
+  return {
+    message: `Successfully reopened task "${task.taskText}" in ${task.section}`,
+    commitMessage: `Reopened task: ${task.taskText}`,
+  };
+}
+
+/**
+ * Rebuilds the metadata of an archived task; the rollover count is left out, so the copy starts over without one
+ */
+function getArchivedTaskMetadata(record: TaskRecord): TaskMetadata {
+  return {
+    id: record.id ?? '',
+    priority: record.priority ?? '',
+    due: record.dueDate ?? '',
+    scheduled: record.scheduledDate ?? '',
+    blocked_by: formatBlockedBy(record.blockedBy ?? []),
+  };
+}
+
+function reopenArchivedTask(identifier: string): TaskOperationResult {
+  const record = findArchivedTask(identifier);
+  const { thisWeek } = getWorkspaceConfig().sections;
+  const week = record.week ?? record.section;
+
+  // The archive keeps its record
+  addTaskToFile('current', thisWeek, formatTaskMetadata(record.taskText, getArchivedTaskMetadata(record)), record.description);
+
+  return {
+    message: `Successfully reopened archived task "${record.taskText}" from the week of ${week} in ${thisWeek}`,
+    commitMessage: `Reopened archived task: ${record.taskText} from the week of ${week}`,
+  };
+}
+
+function isNoMatchError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('No matching tasks found');
+}
+
+/**
+ * Reopens the task without committing
+ */
+export function reopenTask({ task_identifier, from_archive = false }: ReopenTaskArgs): TaskOperationResult {
+  let task: TaskMatch;
+
+  try {
+    task = validateTaskMatch(task_identifier);
+  } catch (error) {
+    if (from_archive && isNoMatchError(error)) {
+      return reopenArchivedTask(task_identifier);
+    }
+
+    throw error;
+  }
+
+  return reopenActiveTask(task);
+}
+
+export function handler({ expected_revision, ...args }: ReopenTaskArgs & { expected_revision?: string }) {
+  return runTaskOperation('reopening task', expected_revision, () => reopenTask(args));
+}
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { findAllTasks, validateTaskMatch, assertTaskAtLine, type TaskMatch } from '../utils/taskIdentifier';
+import { reorderTask as reorderTaskInContent } from '../utils/markdown';
+import { changeFile } from '../utils/fileOperations';
+import { expectedRevisionParameter } from '../utils/revision';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
+
+export const name = 'reorder_task';
+
+export const config = {
+  title: 'Reorder Task',
+  description: 'Move a task to another position within its section, either to a numbered position or above another task',
+  inputSchema: {
+    task_identifier: z.string().describe('Task ID or text to match against existing tasks'),
+    position: z.number().int().min(1).optional()
+      .describe('New 1-based position within the section; positions past the end move the task to the end'),
+    above: z.string().optional().describe('Task ID or text of a task in the same section to place the task above'),
+    expected_revision: expectedRevisionParameter,
+  },
+};
+
+export interface ReorderTaskArgs {
+  task_identifier: string;
+  position?: number;
+  above?: string;
+}
+
+function isSameTask(a: TaskMatch, b: TaskMatch): boolean {
+  return a.file === b.file && a.lineNumber === b.lineNumber;
+}
+
+function getSectionTasks(task: TaskMatch): TaskMatch[] {
+  return findAllTasks().filter(candidate => candidate.file === task.file && candidate.section === task.section);
+}
+
+/**
+ * Works out the index among the section's other tasks that the task should end up at
+ */
+function getTargetIndex(task: TaskMatch, otherTasks: TaskMatch[], { position, above }: ReorderTaskArgs): number {
+  if (position !== undefined) {
+    return Math.min(position - 1, otherTasks.length);
+  }
+
+  const anchor = validateTaskMatch(above ?? '');
+
+  if (isSameTask(anchor, task)) {
+    throw new Error('A task cannot be placed above itself');
+  }
+
+  const index = otherTasks.findIndex(candidate => isSameTask(candidate, anchor));
+
+  if (index === -1) {
+    throw new Error(
+      `Task "${anchor.taskText}" is in ${anchor.section}, not ${task.section}. Use move_task to move tasks between sections`,
+    );
+  }
+
+  return index;
+}
+
+function validateReorderParameters({ position, above }: ReorderTaskArgs): void {
+  if ((position === undefined) === (above === undefined)) {
+    throw new Error('Exactly one of position or above must be provided');
+  }
+}
+
+/**
+ * Moves the task within its section without committing
+ */
+export function reorderTask(args: ReorderTaskArgs): TaskOperationResult {
+  validateReorderParameters(args);
+
+  const task = validateTaskMatch(args.task_identifier);
+  const sectionTasks = getSectionTasks(task);
+  const otherTasks = sectionTasks.filter(candidate => !isSameTask(candidate, task));
+  const targetIndex = getTargetIndex(task, otherTasks, args);
+
+  if (sectionTasks.findIndex(candidate => isSameTask(candidate, task)) === targetIndex) {
+    return { message: `Task "${task.taskText}" is already at position ${targetIndex + 1} in ${task.section}` };
+  }
+
+  const anchor = otherTasks.at(targetIndex);
+
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
+    if (anchor !== undefined) {
+      assertTaskAtLine(content, anchor);
+    }
+
+    return reorderTaskInContent(content, task.lineNumber, anchor?.lineNumber ?? null);
+  });
+
+  return {
+    message: `Successfully moved task "${task.taskText}" to position ${targetIndex + 1} in ${task.section}`,
+    commitMessage: `Reordered task: ${task.taskText} to position ${targetIndex + 1} in ${task.section}`,
+  };
+}
+
+export function handler({ expected_revision, ...args }: ReorderTaskArgs & { expected_revision?: string }) {
+  return runTaskOperation('reordering task', expected_revision, () => reorderTask(args));
+}
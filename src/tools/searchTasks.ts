@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { searchTasks } from '../utils/taskSearch';
+import { createStructuredResponse, createErrorResponse } from '../utils/responses';
+import { getWorkspaceRevision } from '../utils/revision';
+import { TASK_STATUSES, type TaskStatus } from '../utils/taskStatus';
+import { tagFilterParameter } from '../utils/taskTags';
+
+export const name = 'search_tasks';
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+export const config = {
+  title: 'Search Tasks',
+  description: 'Search task text and descriptions across the current week, backlog and archive',
+  inputSchema: {
+    query: z.string().optional().describe('Case-insensitive text to find in task text or descriptions'),
+    status: z.enum(TASK_STATUSES).optional().describe('Only return tasks with this status'),
+    section: z.string().optional().describe('Only return tasks in this section, e.g. "This Week" or "Week of 2024-01-08"'),
+    from_date: z.string().regex(datePattern).optional()
+      .describe('Earliest backlog added date or archive week (YYYY-MM-DD); excludes undated tasks'),
+    to_date: z.string().regex(datePattern).optional()
+      .describe('Latest backlog added date or archive week (YYYY-MM-DD); excludes undated tasks'),
+    tags: tagFilterParameter,
+  },
+};
+
+export function handler({
+  query,
+  status,
+  section,
+  from_date,
+  to_date,
+  tags,
+}: {
+  query?: string;
+  status?: TaskStatus;
+  section?: string;
+  from_date?: string;
+  to_date?: string;
+  tags?: string[];
+}) {
+  try {
+    const results = searchTasks({
+      query,
+      status,
+      section,
+      fromDate: from_date,
+      toDate: to_date,
+      tags,
+    });
+
+    return createStructuredResponse({ count: results.length, results, revision: getWorkspaceRevision() });
+  } catch (error) {
+    return createErrorResponse('searching tasks', error);
+  }
+}
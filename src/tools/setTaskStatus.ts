@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { getWorkspaceConfig } from '../config';
+import { findAllTasks, validateTaskMatch, assertTaskAtLine } from '../utils/taskIdentifier';
+import { updateTaskStatus } from '../utils/markdown';
+import { changeFile } from '../utils/fileOperations';
+import { getEnabledStatuses, getStatusDisplay, isFinishedStatus, TASK_STATUSES, type TaskStatus } from '../utils/taskStatus';
+import { getFinishingNotes } from '../utils/taskDependencies';
+import { expectedRevisionParameter } from '../utils/revision';
+import { runTaskOperation, type TaskOperationResult } from '../utils/taskOperation';
+
+export const name = 'set_task_status';
+
+export const config = {
+  title: 'Set Task Status',
+  description: 'Change the status of a task: new [ ], in progress [/], blocked [!], deferred [>], completed [x] or closed [-]. ' +
+    'Deferred tasks move to next week when the week is started',
+  inputSchema: {
+    task_identifier: z.string().describe('Task ID or text to match against existing tasks'),
+    status: z.enum(TASK_STATUSES).describe('New status for the task'),
+    expected_revision: expectedRevisionParameter,
+  },
+};
+
+export interface SetTaskStatusArgs {
+  task_identifier: string;
+  status: TaskStatus;
+}
+
+function checkStatusEnabled(status: TaskStatus): void {
+  if (!getEnabledStatuses(getWorkspaceConfig().extraStatuses).includes(status)) {
+    throw new Error(`Status "${status}" is not enabled in this workspace`);
+  }
+}
+
+/**
+ * Changes the task's status without committing
+ */
+export function setTaskStatus({ task_identifier, status }: SetTaskStatusArgs): TaskOperationResult {
+  checkStatusEnabled(status);
+
+  const task = validateTaskMatch(task_identifier);
+  const statusText = status.replace('_', ' ');
+
+  if (task.status === status) {
+    return { message: `Task "${task.taskText}" is already marked as ${statusText}` };
+  }
+
+  const dependencyNotes = isFinishedStatus(status) ? getFinishingNotes(task, status, findAllTasks()) : [];
+
+  changeFile(task.file, (content) => {
+    assertTaskAtLine(content, task);
+
+    return updateTaskStatus(content, task.lineNumber, status);
+  });
+
+  return {
+    message: [`Successfully marked task "${task.taskText}" as ${getStatusDisplay(status)}`, ...dependencyNotes].join('\n'),
+    commitMessage: `Marked task as ${statusText}: ${task.taskText}`,
+  };
+}
+
+export function handler({ expected_revision, ...args }: SetTaskStatusArgs & { expected_revision?: string }) {
+  return runTaskOperation('setting task status', expected_revision, () => setTaskStatus(args));
+}
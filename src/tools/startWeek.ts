@@ -1,49 +1,258 @@
-import { parseMarkdownSections, getTaskDescriptionLines } from '../utils/markdown';
-import { readFile, changeFile, appendToFile } from '../utils/fileOperations';
+import { z } from 'zod';
+import { parseMarkdownSections, getTaskDescriptionLines, partitionTasks, removeFinishedSubtasks } from '../utils/markdown';
+import { readFile, changeFile, appendToFile, addTaskToFile, runTransaction } from '../utils/fileOperations';
 import { hasUntrackedFiles, commitChanges } from '../utils/git';
-import { getCurrentDate, getArchiveWeekDate } from '../utils/dates';
+import { getCurrentDate, getArchiveWeekDate, appendAddedDate, splitAddedDate, addDays } from '../utils/dates';
+import { getWorkspaceConfig } from '../config';
 import { createSuccessResponse, createErrorResponse } from '../utils/responses';
-import { parseStatusChar, isFinishedStatus } from '../utils/taskStatus';
+import { parseStatusChar, isFinishedStatus, getTaskCheckbox, TASK_CHECKBOX_PATTERN, TASK_LINE_PATTERN } from '../utils/taskStatus';
+import { splitTaskMetadata, formatTaskMetadata } from '../utils/taskMetadata';
+import { parseTaskLine, generateTaskId } from '../utils/taskIdentifier';
+import { readRecurringTasks, recursInWeek, getRecurringTaskId, formatRecurringInstance } from '../utils/recurringTasks';
+import { checkRevision, expectedRevisionParameter, getWorkspaceRevision } from '../utils/revision';
+import { withWorkspaceLock } from '../utils/workspaceLock';
 
 export const name = 'start_week';
 
+const DEFAULT_STALE_THRESHOLD = 3;
+
 export const config = {
   title: 'Start Week',
-  description: 'Execute the weekly transition: archive current week, move incomplete tasks and next week to current week',
-  inputSchema: {},
+  description: 'Execute the weekly transition: archive current week, move incomplete tasks (with their unfinished subtasks) ' +
+    'and next week to current week. Deferred tasks move to next week ' +
+    'and backlog tasks scheduled for the new week or earlier move to current week. ' +
+    'Recurring tasks are added to the weeks they fall in',
+  inputSchema: {
+    stale_threshold: z.number().int().min(1).optional()
+      .describe(`Report tasks carried over this many weeks in a row as stale (default ${DEFAULT_STALE_THRESHOLD})`),
+    move_stale_to_backlog: z.boolean().optional()
+      .describe('Move stale tasks to the backlog instead of carrying them over again'),
+    dry_run: z.boolean().optional()
+      .describe('Preview the transition without changing any files or making commits'),
+    expected_revision: expectedRevisionParameter,
+  },
 };
 
-function filterTasksByCompletion(sectionContent: string[]): { finished: string[]; unfinished: string[] } {
-  const finished: string[] = [];
-  const unfinished: string[] = [];
+interface StartWeekOptions {
+  staleThreshold: number;
+  moveStaleToBacklog: boolean;
+}
+
+interface CarriedTask {
+  lines: string[];
+  taskText: string;
+  rollovers: number;
+}
+
+interface WeekTransitionPlan {
+  archiveDate: string;
+  archiveSection: string;
+  finished: string[];
+  deferred: string[];
+  kept: CarriedTask[];
+  stale: CarriedTask[];
+  scheduled: ScheduledTasks;
+  recurring: string[];
+  currentContent: string;
+  // Revision the plan was computed from, re-checked before anything is written
+  revision: string;
+}
+
+interface ScheduledTasks {
+  lines: string[];
+  backlogContent: string;
+}
+
+interface SortedTasks {
+  finished: string[];
+  deferred: string[];
+  unfinished: string[];
+}
+
+function getTaskGroup(sorted: SortedTasks, statusChar: string): string[] {
+  const status = parseStatusChar(statusChar);
+
+  if (isFinishedStatus(status)) {
+    return sorted.finished;
+  }
+
+  return status === 'deferred' ? sorted.deferred : sorted.unfinished;
+}
+
+function filterTasksByCompletion(sectionContent: string[]): SortedTasks {
+  const sorted: SortedTasks = { finished: [], deferred: [], unfinished: [] };
 
   for (let i = 0; i < sectionContent.length; i++) {
     const line = sectionContent[i];
 
     // Check if this is a task line
-    const taskMatch = line.match(/^- \[([ x-])\] /);
+    const taskMatch = line.match(TASK_LINE_PATTERN);
 
     if (taskMatch) {
-      const statusChar = taskMatch[1];
-      const status = parseStatusChar(statusChar);
-      const isFinished = isFinishedStatus(status);
-
-      // Collect this task and any description lines that follow
-      const taskLines = [line];
+      // Collect this task and any description lines that follow; finished subtasks of carried tasks stay in the archive only
       const descriptionLines = getTaskDescriptionLines(sectionContent, i + 1);
+      const group = getTaskGroup(sorted, taskMatch[1]);
 
-      taskLines.push(...descriptionLines);
+      group.push(line, ...(group === sorted.finished ? descriptionLines : removeFinishedSubtasks(descriptionLines)));
       i += descriptionLines.length; // Skip these lines in the main loop
+    }
+  }
 
-      if (isFinished) {
-        finished.push(...taskLines);
-      } else {
-        unfinished.push(...taskLines);
-      }
+  return sorted;
+}
+
+/**
+ * Reschedules deferred tasks for next week as new tasks, keeping their rollover count
+ */
+function deferTasks(deferredLines: string[]): string[] {
+  return deferredLines.map(line => line.replace(TASK_CHECKBOX_PATTERN, getTaskCheckbox('new')));
+}
+
+/**
+ * Increments the rollover counter stored in each carried-over task's metadata
+ */
+function rollOverTasks(unfinishedLines: string[]): CarriedTask[] {
+  const carried: CarriedTask[] = [];
+
+  for (let i = 0; i < unfinishedLines.length; i++) {
+    const taskMatch = unfinishedLines[i].match(TASK_LINE_PATTERN);
+
+    if (!taskMatch) {
+      continue;
     }
+
+    const [, statusChar, fullText] = taskMatch;
+    const { text, metadata } = splitTaskMetadata(fullText);
+    const rollovers = parseInt(metadata.rollovers ?? '0', 10) + 1;
+    const descriptionLines = getTaskDescriptionLines(unfinishedLines, i + 1);
+
+    carried.push({
+      lines: [`- [${statusChar}] ${formatTaskMetadata(text, { ...metadata, rollovers: String(rollovers) })}`, ...descriptionLines],
+      taskText: text.trim(),
+      rollovers,
+    });
+    i += descriptionLines.length;
+  }
+
+  return carried;
+}
+
+function moveTaskToBacklog(task: CarriedTask): void {
+  const [taskLine, ...descriptionLines] = task.lines;
+  const taskMatch = taskLine.match(TASK_LINE_PATTERN);
+
+  if (!taskMatch) {
+    return;
+  }
+
+  const { text, metadata } = splitTaskMetadata(taskMatch[2]);
+  const description = descriptionLines.map(line => line.substring(2)).join('\n');
+
+  // The rollover counter starts over once the task is rescheduled from the backlog
+  addTaskToFile(
+    'backlog',
+    getWorkspaceConfig().sections.backlog,
+    formatTaskMetadata(appendAddedDate(text, getCurrentDate()), { ...metadata, rollovers: '' }),
+    description,
+    parseStatusChar(taskMatch[1]),
+  );
+}
+
+function carryOverTasks(
+  thisWeekContent: string[],
+  options: StartWeekOptions,
+): { kept: CarriedTask[]; stale: CarriedTask[] } {
+  const { unfinished } = filterTasksByCompletion(thisWeekContent);
+  const carriedTasks = rollOverTasks(unfinished);
+  const staleTasks = carriedTasks.filter(task => task.rollovers >= options.staleThreshold);
+
+  if (!options.moveStaleToBacklog) {
+    return { kept: carriedTasks, stale: staleTasks };
+  }
+
+  return {
+    kept: carriedTasks.filter(task => !staleTasks.includes(task)),
+    stale: staleTasks,
+  };
+}
+
+function formatStaleTasks(staleTasks: CarriedTask[], options: StartWeekOptions): string {
+  if (staleTasks.length === 0) {
+    return '';
+  }
+
+  const action = options.moveStaleToBacklog ? 'moved to backlog' : `still in ${getWorkspaceConfig().sections.thisWeek}`;
+  const taskList = staleTasks
+    .map(task => `- ${task.taskText} (carried over ${task.rollovers} weeks)`)
+    .join('\n');
+
+  return `Stale tasks carried over at least ${options.staleThreshold} weeks (${action}):\n${taskList}`;
+}
+
+function isScheduledBy(taskLine: string, date: string): boolean {
+  const taskInfo = parseTaskLine(taskLine);
+
+  return taskInfo?.scheduledDate !== undefined && taskInfo.scheduledDate <= date && !isFinishedStatus(taskInfo.status);
+}
+
+/**
+ * Drops the backlog "added on" date from a task line, as moving the task to the week would
+ */
+function removeAddedDate(taskLine: string): string {
+  const taskMatch = taskLine.match(TASK_LINE_PATTERN);
+
+  if (!taskMatch) {
+    return taskLine;
+  }
+
+  const { text, metadata } = splitTaskMetadata(taskMatch[2]);
+
+  return `- [${taskMatch[1]}] ${formatTaskMetadata(splitAddedDate(text.trim()).text, metadata)}`;
+}
+
+/**
+ * Turns a scheduled backlog task, with its description and notes, into lines for the week
+ */
+function toWeekLines([taskLine, ...otherLines]: string[]): string[] {
+  const lines = [removeAddedDate(taskLine), ...otherLines];
+
+  // Blank lines separating the task from the next backlog task do not belong in the week
+  while (lines[lines.length - 1].trim() === '') {
+    lines.pop();
   }
 
-  return { finished, unfinished };
+  return lines;
+}
+
+/**
+ * Takes the backlog tasks scheduled on or before the given date out of the backlog
+ */
+function pullScheduledTasks(lastDay: string): ScheduledTasks {
+  const { matched, remaining } = partitionTasks(readFile('backlog'), taskLine => isScheduledBy(taskLine, lastDay));
+
+  return {
+    lines: matched.flatMap(toWeekLines),
+    backlogContent: remaining,
+  };
+}
+
+/**
+ * Creates instances of the recurring tasks falling in the week starting on the given date,
+ * skipping those that already have an instance among the week's tasks. Each instance gets
+ * a task ID that is also added to the IDs assigned so far, as none of them is on disk yet.
+ */
+function instantiateRecurringTasks(weekStart: string, weekLines: string[], assignedIds: Set<string>): string[] {
+  const instantiatedIds = new Set(weekLines.map(getRecurringTaskId));
+
+  return readRecurringTasks()
+    .filter(task => recursInWeek(task, weekStart) && !instantiatedIds.has(task.id))
+    .flatMap((task) => {
+      const taskId = generateTaskId(assignedIds);
+
+      assignedIds.add(taskId);
+
+      return formatRecurringInstance(task, taskId);
+    });
 }
 
 function checkIfWeekAlreadyArchived(archiveDate: string): boolean {
@@ -59,102 +268,181 @@ function checkIfWeekAlreadyArchived(archiveDate: string): boolean {
   }
 }
 
-function addWeekToArchive(archiveDate: string, thisWeekContent: string[]): void {
-  const sectionTitle = `Week of ${archiveDate}`;
-  const newSection = [`# ${sectionTitle}`, ...thisWeekContent].join('\n');
-
-  appendToFile('archive', newSection);
-}
-
 function formatThisWeekSection(): string {
   try {
+    const { thisWeek } = getWorkspaceConfig().sections;
     const currentContent = readFile('current');
     const sections = parseMarkdownSections(currentContent);
-    const thisWeekSection = sections.find(s => s.title === 'This Week');
+    const thisWeekSection = sections.find(s => s.title === thisWeek);
 
     if (!thisWeekSection) {
       return '';
     }
 
-    return ['# This Week', ...thisWeekSection.content].join('\n');
+    return [`# ${thisWeek}`, ...thisWeekSection.content].join('\n');
   } catch {
     // If current file can't be read, return empty string
     return '';
   }
 }
 
-function rebuildCurrentFile(
-  newThisWeekTasks: string[],
-): void {
-  changeFile('current', () => {
-    const sections = [
-      '# This Week',
-      ...newThisWeekTasks,
-      '',
-      '# Next Week',
-      '',
-    ];
-
-    return sections.join('\n');
-  });
+function buildCurrentContent(newThisWeekTasks: string[], newNextWeekTasks: string[]): string {
+  const { thisWeek, nextWeek } = getWorkspaceConfig().sections;
+  const sections = [
+    `# ${thisWeek}`,
+    ...newThisWeekTasks,
+    '',
+    `# ${nextWeek}`,
+    ...newNextWeekTasks,
+    '',
+  ];
+
+  return sections.join('\n');
 }
 
-async function performWeekTransition(): Promise<string> {
-  // Step 1: Check if week already archived (idempotency check)
-  const archiveDate = getArchiveWeekDate();
+/**
+ * Works out everything the transition will change without touching disk or git
+ */
+function planWeekTransition(archiveDate: string, options: StartWeekOptions): WeekTransitionPlan {
+  const { files, sections: sectionTitles } = getWorkspaceConfig();
+  const sections = parseMarkdownSections(readFile('current'));
+  const thisWeekSection = sections.find(s => s.title === sectionTitles.thisWeek);
+  const nextWeekSection = sections.find(s => s.title === sectionTitles.nextWeek);
 
-  if (checkIfWeekAlreadyArchived(archiveDate)) {
-    const currentThisWeek = formatThisWeekSection();
-    const message = `Week of ${archiveDate} has already been archived. No changes made.`;
-
-    return currentThisWeek ? `${message}\n\n${currentThisWeek}` : message;
+  if (!thisWeekSection || !nextWeekSection) {
+    throw new Error(`Required sections not found in ${files.current}`);
   }
 
-  // Step 2: Pre-backup commit
-  if (await hasUntrackedFiles()) {
-    await commitChanges('Pre-start-week backup');
-  }
+  const { finished, deferred } = filterTasksByCompletion(thisWeekSection.content);
+  const { kept, stale } = carryOverTasks(thisWeekSection.content, options);
+  const deferredLines = deferTasks(deferred);
+  // The new week starts a week after the archived one; tasks scheduled up to its last day join it
+  const newWeekStart = addDays(archiveDate, 7);
+  const scheduled = pullScheduledTasks(addDays(newWeekStart, 6));
+  // Incomplete and scheduled tasks are combined with next week tasks for the new "This Week", deferred tasks wait a week
+  const thisWeekLines = [...kept.flatMap(task => task.lines), ...scheduled.lines];
+  const assignedIds = new Set<string>();
+  const thisWeekRecurring = instantiateRecurringTasks(newWeekStart, [...thisWeekLines, ...nextWeekSection.content], assignedIds);
+  const nextWeekRecurring = instantiateRecurringTasks(addDays(newWeekStart, 7), deferredLines, assignedIds);
+
+  return {
+    archiveDate,
+    // The entire "This Week" section is archived for record keeping
+    archiveSection: [`# Week of ${archiveDate}`, ...thisWeekSection.content].join('\n'),
+    finished,
+    deferred: deferredLines,
+    kept,
+    stale,
+    scheduled,
+    recurring: [...thisWeekRecurring, ...nextWeekRecurring],
+    currentContent: buildCurrentContent(
+      [...thisWeekLines, ...thisWeekRecurring, ...nextWeekSection.content],
+      [...deferredLines, ...nextWeekRecurring],
+    ),
+    revision: getWorkspaceRevision(),
+  };
+}
 
-  // Step 3: Parse current.md
-  const currentContent = readFile('current');
-  const sections = parseMarkdownSections(currentContent);
+function formatTaskList(lines: string[]): string {
+  const taskLines = lines.filter(line => TASK_LINE_PATTERN.test(line));
 
-  const thisWeekSection = sections.find(s => s.title === 'This Week');
-  const nextWeekSection = sections.find(s => s.title === 'Next Week');
+  return taskLines.length > 0 ? taskLines.join('\n') : '(none)';
+}
 
-  if (!thisWeekSection || !nextWeekSection) {
-    throw new Error('Required sections not found in current.md');
+function formatTransitionPreview(plan: WeekTransitionPlan, options: StartWeekOptions): string {
+  const { files, sections } = getWorkspaceConfig();
+
+  return [
+    `Dry run: no changes made. Starting the week would archive the week of ${plan.archiveDate}.`,
+    `Archive section to be added to ${files.archive}:\n${plan.archiveSection.trimEnd()}`,
+    `Tasks carried over to ${sections.thisWeek}:\n${formatTaskList(plan.kept.map(task => task.lines[0]))}`,
+    `Scheduled tasks pulled from ${sections.backlog}:\n${formatTaskList(plan.scheduled.lines)}`,
+    `Tasks deferred to ${sections.nextWeek}:\n${formatTaskList(plan.deferred)}`,
+    `Recurring tasks added:\n${formatTaskList(plan.recurring)}`,
+    `Tasks dropped as finished:\n${formatTaskList(plan.finished)}`,
+    formatStaleTasks(plan.stale, options),
+    `Resulting ${files.current}:\n${plan.currentContent}`,
+  ].filter(part => part !== '').join('\n\n');
+}
+
+async function applyWeekTransition(plan: WeekTransitionPlan, options: StartWeekOptions): Promise<string> {
+  // Pre-backup commit
+  if (await hasUntrackedFiles()) {
+    await commitChanges('Pre-start-week backup', { undoable: false });
   }
 
-  // Step 4: Copy "This Week" to archive (entire section for record keeping)
-  addWeekToArchive(archiveDate, thisWeekSection.content);
+  // The files may have been edited outside the server while the backup was committed
+  checkRevision(plan.revision);
 
-  // Step 5: Filter "This Week" tasks by completion
-  const { unfinished: thisWeekUnfinished } =
-    filterTasksByCompletion(thisWeekSection.content);
+  // Archive, backlog and current week are updated together or not at all
+  runTransaction(() => {
+    appendToFile('archive', plan.archiveSection);
 
-  // Step 6: Combine incomplete tasks with next week tasks for new "This Week"
-  const newThisWeekTasks = [...thisWeekUnfinished, ...nextWeekSection.content];
+    if (plan.scheduled.lines.length > 0) {
+      changeFile('backlog', () => plan.scheduled.backlogContent);
+    }
+
+    if (options.moveStaleToBacklog) {
+      plan.stale.forEach(moveTaskToBacklog);
+    }
 
-  // Step 7: Rebuild current.md
-  rebuildCurrentFile(newThisWeekTasks);
+    changeFile('current', () => plan.currentContent);
+  });
 
-  // Step 8: Final commit
+  // Final commit
   const today = getCurrentDate();
 
   await commitChanges(`Completed week transition to ${today}`);
 
-  const currentThisWeek = formatThisWeekSection();
-  const message = `Successfully completed week transition. Archived week of ${archiveDate}.`;
+  return [
+    `Successfully completed week transition. Archived week of ${plan.archiveDate}.`,
+    formatStaleTasks(plan.stale, options),
+    formatThisWeekSection(),
+  ].filter(part => part !== '').join('\n\n');
+}
 
-  return currentThisWeek ? `${message}\n\n${currentThisWeek}` : message;
+async function performWeekTransition(options: StartWeekOptions, dryRun: boolean): Promise<string> {
+  // Check if week already archived (idempotency check)
+  const archiveDate = getArchiveWeekDate();
+
+  if (checkIfWeekAlreadyArchived(archiveDate)) {
+    const currentThisWeek = formatThisWeekSection();
+    const message = `Week of ${archiveDate} has already been archived. No changes made.`;
+
+    return currentThisWeek ? `${message}\n\n${currentThisWeek}` : message;
+  }
+
+  const plan = planWeekTransition(archiveDate, options);
+
+  if (dryRun) {
+    return formatTransitionPreview(plan, options);
+  }
+
+  return applyWeekTransition(plan, options);
 }
 
-export async function handler() {
+export async function handler({
+  stale_threshold = DEFAULT_STALE_THRESHOLD,
+  move_stale_to_backlog = false,
+  dry_run = false,
+  expected_revision,
+}: {
+  stale_threshold?: number;
+  move_stale_to_backlog?: boolean;
+  dry_run?: boolean;
+  expected_revision?: string;
+} = {}) {
   try {
-    const successMessage = await performWeekTransition();
+    return await withWorkspaceLock(async() => {
+      checkRevision(expected_revision);
+
+      const successMessage = await performWeekTransition({
+        staleThreshold: stale_threshold,
+        moveStaleToBacklog: move_stale_to_backlog,
+      }, dry_run);
 
-    return createSuccessResponse(successMessage);
+      return createSuccessResponse(successMessage);
+    });
   } catch (error) {
     return createErrorResponse('during week transition', error);
   }
@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import { basename } from 'path';
+import { getFilePath } from '../config';
+import { parseMarkdownSections } from '../utils/markdown';
+import { getFileCommits, getFileAtCommit } from '../utils/git';
+import { validateTaskMatch, parseTaskLine } from '../utils/taskIdentifier';
+import { findArchivedTask } from '../utils/taskSearch';
+import { parseArchiveWeekTitle } from '../utils/archive';
+import { splitAddedDate } from '../utils/dates';
+import { createStructuredResponse, createErrorResponse } from '../utils/responses';
+import { isFinishedStatus, type TaskStatus } from '../utils/taskStatus';
+
+export const name = 'task_history';
+
+export const config = {
+  title: 'Task History',
+  description: 'List the chronological history of a task (added, edited, moved, finished, archived) from the git log',
+  inputSchema: {
+    task_identifier: z.string().describe('Task ID or text to match against current, backlog or archived tasks'),
+  },
+};
+
+type FileName = 'current' | 'backlog' | 'archive';
+
+const FILE_NAMES: FileName[] = ['current', 'backlog', 'archive'];
+
+interface TrackedTask {
+  id?: string;
+  taskText: string;
+}
+
+interface TaskLocation {
+  file: 'current' | 'backlog';
+  section: string;
+  status: TaskStatus;
+  taskText: string;
+}
+
+interface TaskState {
+  active?: TaskLocation;
+  archivedWeeks: string[];
+}
+
+interface TaskEventChange {
+  type: 'added' | 'restored' | 'edited' | 'moved' | 'finished' | 'status_changed' | 'archived' | 'removed';
+  details: string;
+}
+
+interface TaskEvent extends TaskEventChange {
+  date: string;
+  commit: string;
+}
+
+function stripAddedDate(taskText: string): string {
+  return splitAddedDate(taskText).text;
+}
+
+function resolveTask(identifier: string): TrackedTask {
+  try {
+    const task = validateTaskMatch(identifier);
+
+    return {
+      ...(task.id !== undefined && { id: task.id }),
+      taskText: stripAddedDate(task.taskText),
+    };
+  } catch (error) {
+    // Finished tasks may only survive in the archive
+    if (error instanceof Error && error.message.startsWith('No matching tasks found')) {
+      const record = findArchivedTask(identifier);
+
+      return {
+        ...(record.id !== undefined && { id: record.id }),
+        taskText: record.taskText,
+      };
+    }
+
+    throw error;
+  }
+}
+
+function isSameTask(taskInfo: { taskText: string; id?: string }, task: TrackedTask): boolean {
+  return task.id !== undefined
+    ? taskInfo.id === task.id
+    : stripAddedDate(taskInfo.taskText) === task.taskText;
+}
+
+function locateTask(contents: Record<FileName, string>, task: TrackedTask): TaskState {
+  const state: TaskState = { archivedWeeks: [] };
+
+  for (const file of FILE_NAMES) {
+    for (const section of parseMarkdownSections(contents[file])) {
+      const taskInfo = section.content
+        .map(line => parseTaskLine(line))
+        .find(info => info !== null && isSameTask(info, task));
+
+      if (!taskInfo) {
+        continue;
+      }
+
+      if (file === 'archive') {
+        state.archivedWeeks.push(parseArchiveWeekTitle(section.title) ?? section.title);
+      } else {
+        state.active ??= { file, section: section.title, status: taskInfo.status, taskText: taskInfo.taskText };
+      }
+    }
+  }
+
+  return state;
+}
+
+function describeLocation(location: TaskLocation): string {
+  return location.file === 'backlog' ? 'backlog' : location.section;
+}
+
+function diffActiveTask(previous: TaskLocation, next: TaskLocation): TaskEventChange[] {
+  const changes: TaskEventChange[] = [];
+
+  if (previous.file !== next.file || previous.section !== next.section) {
+    changes.push({ type: 'moved', details: `Moved from ${describeLocation(previous)} to ${describeLocation(next)}` });
+  }
+
+  if (stripAddedDate(previous.taskText) !== stripAddedDate(next.taskText)) {
+    changes.push({ type: 'edited', details: `Text changed from "${previous.taskText}" to "${next.taskText}"` });
+  }
+
+  if (previous.status !== next.status) {
+    changes.push(isFinishedStatus(next.status)
+      ? { type: 'finished', details: `Marked as ${next.status}` }
+      : { type: 'status_changed', details: `Status changed from ${previous.status} to ${next.status}` });
+  }
+
+  return changes;
+}
+
+function diffStates(previous: TaskState, next: TaskState, seenBefore: boolean): TaskEventChange[] {
+  const changes: TaskEventChange[] = [];
+  const newWeeks = next.archivedWeeks.filter(week => !previous.archivedWeeks.includes(week));
+
+  if (!previous.active && next.active) {
+    changes.push(seenBefore
+      ? { type: 'restored', details: `Restored to ${describeLocation(next.active)}` }
+      : { type: 'added', details: `Added to ${describeLocation(next.active)}` });
+  } else if (previous.active && next.active) {
+    changes.push(...diffActiveTask(previous.active, next.active));
+  } else if (previous.active && newWeeks.length === 0) {
+    changes.push({ type: 'removed', details: `Removed from ${describeLocation(previous.active)}` });
+  }
+
+  for (const week of newWeeks) {
+    const outcome = next.active ? `carried over to ${describeLocation(next.active)}` : 'removed from current tasks';
+
+    changes.push({ type: 'archived', details: `Archived in week of ${week}, ${outcome}` });
+  }
+
+  return changes;
+}
+
+async function buildTaskHistory(task: TrackedTask): Promise<TaskEvent[]> {
+  const paths = Object.fromEntries(
+    FILE_NAMES.map(file => [file, basename(getFilePath(file))]),
+  ) as Record<FileName, string>;
+  const contents: Record<FileName, string> = { current: '', backlog: '', archive: '' };
+  const events: TaskEvent[] = [];
+  let state: TaskState = { archivedWeeks: [] };
+  let seen = false;
+
+  for (const commit of await getFileCommits(Object.values(paths))) {
+    for (const file of FILE_NAMES.filter(fileName => commit.files.includes(paths[fileName]))) {
+      contents[file] = await getFileAtCommit(commit.hash, paths[file]);
+    }
+
+    const nextState = locateTask(contents, task);
+
+    for (const change of diffStates(state, nextState, seen)) {
+      events.push({ date: commit.date, commit: commit.subject, ...change });
+    }
+
+    seen ||= nextState.active !== undefined || nextState.archivedWeeks.length > 0;
+    state = nextState;
+  }
+
+  return events;
+}
+
+export async function handler({ task_identifier }: { task_identifier: string }) {
+  try {
+    const task = resolveTask(task_identifier);
+    const events = await buildTaskHistory(task);
+
+    return createStructuredResponse({ task, events });
+  } catch (error) {
+    return createErrorResponse('reading task history', error);
+  }
+}
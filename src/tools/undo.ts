@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { getCommitLog, hasUntrackedFiles, revertCommits, type CommitInfo } from '../utils/git';
+import { notifyFileChange } from '../utils/fileOperations';
+import { createSuccessResponse, createErrorResponse } from '../utils/responses';
+import { checkRevision, expectedRevisionParameter } from '../utils/revision';
+import { withWorkspaceLock } from '../utils/workspaceLock';
+
+export const name = 'undo';
+
+export const config = {
+  title: 'Undo',
+  description: 'Revert the most recent task operation(s). Only changes made by this server\'s tools can be undone',
+  inputSchema: {
+    count: z.number().int().min(1).max(20).optional().describe('Number of operations to undo (default 1)'),
+    expected_revision: expectedRevisionParameter,
+  },
+};
+
+function findUndoableCommits(log: CommitInfo[], count: number): CommitInfo[] {
+  const reverted = new Set<string>();
+  const undoable: CommitInfo[] = [];
+
+  for (const commit of log) {
+    if (undoable.length === count) {
+      break;
+    }
+
+    // Skip earlier undo commits along with the operations they already reverted
+    if (commit.reverts.length > 0) {
+      commit.reverts.forEach(hash => reverted.add(hash));
+      continue;
+    }
+
+    if (reverted.has(commit.hash)) {
+      continue;
+    }
+
+    if (!commit.isOperation) {
+      const found = undoable.length === 0
+        ? 'No operations can be undone'
+        : `Only ${undoable.length} operation(s) can be undone`;
+
+      throw new Error(`${found}: "${commit.subject}" was not made by a task operation`);
+    }
+
+    undoable.push(commit);
+  }
+
+  if (undoable.length < count) {
+    throw new Error(`Only ${undoable.length} operation(s) found in the history`);
+  }
+
+  return undoable;
+}
+
+function formatUndoSubject(commits: CommitInfo[]): string {
+  return commits.length === 1
+    ? `Undo: ${commits[0].subject}`
+    : `Undo ${commits.length} operations`;
+}
+
+export async function handler({
+  count = 1,
+  expected_revision,
+}: {
+  count?: number;
+  expected_revision?: string;
+}) {
+  try {
+    return await withWorkspaceLock(async() => {
+      checkRevision(expected_revision);
+
+      if (await hasUntrackedFiles()) {
+        throw new Error('The workspace has uncommitted changes; refusing to undo');
+      }
+
+      const commits = findUndoableCommits(await getCommitLog(), count);
+
+      await revertCommits(commits, formatUndoSubject(commits));
+
+      // The revert rewrote the task files behind changeFile's back
+      (['current', 'backlog', 'archive'] as const).forEach(notifyFileChange);
+
+      const revertedList = commits.map(commit => `- ${commit.subject} (${commit.date})`).join('\n');
+
+      return createSuccessResponse(`Successfully undid ${commits.length} operation(s):\n${revertedList}`);
+    });
+  } catch (error) {
+    return createErrorResponse('undoing operation', error);
+  }
+}
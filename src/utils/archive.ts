@@ -0,0 +1,82 @@
+import { parseMarkdownSections, filterSectionTasks, type TaskLinePredicate } from './markdown';
+import { TASK_LINE_PATTERN } from './taskStatus';
+import { readFile } from './fileOperations';
+
+export interface ArchiveWeek {
+  week: string;
+  content: string[];
+}
+
+export interface ArchiveSelection {
+  week?: string;
+  fromWeek?: string;
+  toWeek?: string;
+  last?: number;
+}
+
+/**
+ * Extracts the week date from an archive heading such as "Week of 2024-01-08"
+ */
+export function parseArchiveWeekTitle(title: string): string | undefined {
+  return title.match(/^Week of (\d{4}-\d{2}-\d{2})$/)?.[1];
+}
+
+/**
+ * Returns all archived weeks in chronological order
+ */
+export function getArchiveWeeks(): ArchiveWeek[] {
+  const sections = parseMarkdownSections(readFile('archive'));
+  const weeks: ArchiveWeek[] = [];
+
+  for (const section of sections) {
+    const week = parseArchiveWeekTitle(section.title);
+
+    if (week !== undefined) {
+      weeks.push({ week, content: section.content });
+    }
+  }
+
+  return weeks.sort((a, b) => a.week.localeCompare(b.week));
+}
+
+/**
+ * Selects a single week, a range of weeks and/or the most recent N weeks
+ */
+export function selectArchiveWeeks(weeks: ArchiveWeek[], selection: ArchiveSelection): ArchiveWeek[] {
+  const { week, fromWeek, toWeek, last } = selection;
+
+  const selected = weeks.filter(archiveWeek =>
+    (week === undefined || archiveWeek.week === week) &&
+    (fromWeek === undefined || archiveWeek.week >= fromWeek) &&
+    (toWeek === undefined || archiveWeek.week <= toWeek),
+  );
+
+  return last === undefined ? selected : selected.slice(-last);
+}
+
+/**
+ * Keeps only the tasks passing the predicate, dropping weeks left without any task
+ */
+export function filterArchiveWeeks(weeks: ArchiveWeek[], predicate: TaskLinePredicate): ArchiveWeek[] {
+  return weeks
+    .map(archiveWeek => ({ ...archiveWeek, content: filterSectionTasks(archiveWeek.content, predicate) }))
+    .filter(archiveWeek => archiveWeek.content.some(line => TASK_LINE_PATTERN.test(line)));
+}
+
+/**
+ * Formats archived weeks back into markdown sections
+ */
+export function formatArchiveWeeks(weeks: ArchiveWeek[]): string {
+  return weeks
+    .map(archiveWeek => {
+      const content = [...archiveWeek.content];
+
+      // Normalize spacing between sections
+      while (content.length > 0 && content[content.length - 1].trim() === '') {
+        content.pop();
+      }
+
+      return [`# Week of ${archiveWeek.week}`, ...content].join('\n');
+    })
+    .join('\n\n');
+}
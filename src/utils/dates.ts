@@ -1,32 +1,107 @@
-export function getCurrentDate(): string {
-  const now = new Date();
+import { getWorkspaceConfig, WEEKDAYS } from '../config';
+import { TAG_RUN_SOURCE } from './taskTags';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function formatDateInTimezone(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Shifts a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+
+  result.setUTCDate(result.getUTCDate() + days);
+
+  return result.toISOString().split('T')[0];
+}
+
+function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
 
-  return now.toISOString().split('T')[0];
+/**
+ * Returns today's date in the workspace timezone
+ *
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function getCurrentDate(): string {
+  return formatDateInTimezone(new Date(), getWorkspaceConfig().week.timezone);
 }
 
 /**
- * Returns the Monday date of the week that should be archived during week transition.
+ * Returns the first day of the week that should be archived during week transition.
  *
- * This calculates the Monday of the current week being archived.
- * The logic finds the last Thursday, then goes back 3 more days to get the
- * Monday of the week to archive.
+ * Weeks begin on the configured start day. Before the configured cut-over day
+ * the previous week is the one being wrapped up; from the cut-over day onwards
+ * it is the running week. With the defaults (Monday start, Thursday cut-over)
+ * starting the week on Monday-Wednesday archives the previous Monday's week.
  *
  * @returns Date string in YYYY-MM-DD format
  */
 export function getArchiveWeekDate(): string {
-  const today = new Date();
-  const currentDay = today.getDay(); // 0=Sunday, 1=Monday, ..., 6=Saturday
-  const daysToLastThursday = currentDay >= 4 ? currentDay - 4 : currentDay + 3;
+  const { startDay, cutoverDay } = getWorkspaceConfig().week;
+  const today = getCurrentDate();
+  const startIndex = WEEKDAYS.indexOf(startDay);
+  const daysIntoWeek = (getDayOfWeek(today) - startIndex + 7) % 7;
+  const cutoverOffset = (WEEKDAYS.indexOf(cutoverDay) - startIndex + 7) % 7;
+  const weekStart = addDays(today, -daysIntoWeek);
+
+  return daysIntoWeek < cutoverOffset ? addDays(weekStart, -7) : weekStart;
+}
 
-  // Get Monday of the week to archive: today - daysToLastThursday - 3
-  const archiveMonday = new Date(today);
+/**
+ * Returns the first day of the week containing a date, following the configured start day
+ *
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function getWeekStartDate(date: string): string {
+  const startIndex = WEEKDAYS.indexOf(getWorkspaceConfig().week.startDay);
+
+  return addDays(date, -((getDayOfWeek(date) - startIndex + 7) % 7));
+}
+
+/**
+ * Counts the days from one YYYY-MM-DD date to another, negative when the second is earlier
+ */
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY);
+}
 
-  archiveMonday.setDate(today.getDate() - daysToLastThursday - 3);
+export interface BacklogTaskText {
+  text: string;
+  addedOn?: string;
+}
+
+function getAddedDatePattern(): RegExp {
+  const label = getWorkspaceConfig().backlogDateLabel.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  // Tags typed after the date still belong to the task text
+  return new RegExp(`^(.+) ${label} (\\d{4}-\\d{2}-\\d{2})(${TAG_RUN_SOURCE})$`);
+}
+
+/**
+ * Appends the backlog "added on" suffix to task text
+ */
+export function appendAddedDate(taskText: string, date: string): string {
+  return `${taskText} ${getWorkspaceConfig().backlogDateLabel} ${date}`;
+}
 
-  // Format as YYYY-MM-DD
-  const year = archiveMonday.getFullYear();
-  const month = String(archiveMonday.getMonth() + 1).padStart(2, '0');
-  const day = String(archiveMonday.getDate()).padStart(2, '0');
+/**
+ * Separates backlog task text from its "added on" suffix, if present
+ */
+export function splitAddedDate(taskText: string): BacklogTaskText {
+  const dateMatch = taskText.match(getAddedDatePattern());
 
-  return `${year}-${month}-${day}`;
+  return dateMatch ? { text: `${dateMatch[1]}${dateMatch[3]}`, addedOn: dateMatch[2] } : { text: taskText };
 }
@@ -1,15 +1,144 @@
-import { readFileSync, writeFileSync } from 'fs';
-import { getFilePath } from '../config';
+/* global process console */
+import { readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { getFilePath, getWorkspaceName } from '../config';
 import { addTaskToSection } from './markdown';
 import type { TaskStatus } from './taskStatus';
 
 // eslint-disable-next-line no-unused-vars
 type ContentModifier = (content: string) => string;
 
+export type TaskFileName = 'current' | 'backlog' | 'archive';
+
+export interface FileChange {
+  workspace: string | null;
+  fileName: TaskFileName;
+}
+
+// eslint-disable-next-line no-unused-vars
+type FileChangeListener = (change: FileChange) => void;
+
+const fileChangeListeners = new Set<FileChangeListener>();
+
+/**
+ * Registers a listener called whenever a task file is written; returns a function removing it
+ */
+export function onFileChange(listener: FileChangeListener): () => void {
+  fileChangeListeners.add(listener);
+
+  return () => {
+    fileChangeListeners.delete(listener);
+  };
+}
+
+/**
+ * Tells listeners that task files of the active workspace changed, e.g. after a git revert
+ */
+export function notifyFileChange(fileName: TaskFileName): void {
+  const change = { workspace: getWorkspaceName(), fileName };
+
+  for (const listener of fileChangeListeners) {
+    listener(change);
+  }
+}
+
+interface StagedFile {
+  fileName: TaskFileName;
+  original: string;
+  content: string;
+}
+
+// Writes staged by the transaction currently running, keyed by file path
+let activeTransaction: Map<string, StagedFile> | null = null;
+
+function readFromDisk(filePath: string): string {
+  return readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Replaces a file by renaming a fully written temporary file over it,
+ * so readers and crashes never see a partially written file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  try {
+    writeFileSync(tempPath, content);
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function writeStagedFiles(staged: Map<string, StagedFile>): void {
+  const written: [string, StagedFile][] = [];
+
+  try {
+    for (const entry of staged) {
+      writeFileAtomic(entry[0], entry[1].content);
+      written.push(entry);
+    }
+  } catch (error) {
+    // Put back the files already replaced so the transaction leaves no partial change behind
+    for (const [filePath, file] of written) {
+      try {
+        writeFileAtomic(filePath, file.original);
+      } catch (rollbackError) {
+        // Keep restoring the other files and report the write that failed in the first place
+        console.error(`Failed to restore ${filePath} after a failed transaction:`, rollbackError);
+      }
+    }
+
+    throw error;
+  }
+}
+
+function runNestedTransaction<T>(staged: Map<string, StagedFile>, operation: () => T): T {
+  const savepoint = new Map(staged);
+
+  try {
+    return operation();
+  } catch (error) {
+    // Undo only the changes staged by the nested operation
+    staged.clear();
+    savepoint.forEach((file, filePath) => staged.set(filePath, file));
+    throw error;
+  }
+}
+
+/**
+ * Runs several file changes as one unit: changes are staged in memory and only
+ * written once the operation succeeds. If the operation or any write fails, no
+ * task file is left changed. A nested transaction joins the outer one, and a
+ * failing nested transaction discards just its own changes.
+ */
+export function runTransaction<T>(operation: () => T): T {
+  if (activeTransaction) {
+    return runNestedTransaction(activeTransaction, operation);
+  }
+
+  const staged = new Map<string, StagedFile>();
+
+  activeTransaction = staged;
+
+  let result: T;
+
+  try {
+    result = operation();
+  } finally {
+    activeTransaction = null;
+  }
+
+  writeStagedFiles(staged);
+  staged.forEach(file => notifyFileChange(file.fileName));
+
+  return result;
+}
+
 export function readFile(fileName: 'current' | 'backlog' | 'archive'): string {
   const filePath = getFilePath(fileName);
 
-  return readFileSync(filePath, 'utf-8');
+  return activeTransaction?.get(filePath)?.content ?? readFromDisk(filePath);
 }
 
 export function changeFile(
@@ -17,10 +146,18 @@ export function changeFile(
   modifier: ContentModifier,
 ): void {
   const filePath = getFilePath(fileName);
-  const content = readFileSync(filePath, 'utf-8');
+  const stagedFile = activeTransaction?.get(filePath);
+  const content = stagedFile?.content ?? readFromDisk(filePath);
   const updatedContent = modifier(content);
 
-  writeFileSync(filePath, updatedContent);
+  if (activeTransaction) {
+    activeTransaction.set(filePath, { fileName, original: stagedFile?.original ?? content, content: updatedContent });
+
+    return;
+  }
+
+  writeFileAtomic(filePath, updatedContent);
+  notifyFileChange(fileName);
 }
 
 export function appendToFile(
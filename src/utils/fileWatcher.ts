@@ -0,0 +1,120 @@
+/* global console setTimeout clearTimeout */
+import { watch, existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
+import { getFilePath, getWorkingDirectory, getWorkspaceConfig, getWorkspaceName, runInWorkspace } from '../config';
+import { onFileChange, notifyFileChange, type TaskFileName } from './fileOperations';
+import { hasUntrackedFiles, commitChanges } from './git';
+import { validateTaskFile } from './markdown';
+import { withWorkspaceLock } from './workspaceLock';
+import { getEnabledStatuses } from './taskStatus';
+
+const TASK_FILES: TaskFileName[] = ['current', 'backlog', 'archive'];
+
+// Editors often save in several steps, so wait for writes to settle
+const SETTLE_DELAY_MS = 100;
+
+export interface FileWatcher {
+  close(): void;
+}
+
+function readIfExists(filePath: string): string | undefined {
+  return existsSync(filePath) ? readFileSync(filePath, 'utf-8') : undefined;
+}
+
+function getRequiredSections(fileName: TaskFileName): string[] {
+  const { sections } = getWorkspaceConfig();
+
+  switch (fileName) {
+    case 'current':
+      return [sections.thisWeek, sections.nextWeek];
+    case 'backlog':
+      return [sections.backlog];
+    case 'archive':
+    default:
+      return [];
+  }
+}
+
+/**
+ * Builds the commit message for an external edit, listing any problems found by the parser
+ */
+export function formatExternalEditMessage(fileName: string, problems: string[]): string {
+  const subject = `External edit to ${fileName}`;
+
+  return problems.length === 0
+    ? subject
+    : `${subject}\n\nValidation warnings:\n${problems.map(problem => `- ${problem}`).join('\n')}`;
+}
+
+type LastSeenContents = Map<TaskFileName, string | undefined>;
+
+async function recordExternalEdit(fileName: TaskFileName, lastSeen: LastSeenContents): Promise<void> {
+  const filePath = getFilePath(fileName);
+  const content = readIfExists(filePath);
+
+  // Unchanged, or written by the server and committed by the operation itself
+  if (content === undefined || content === lastSeen.get(fileName) || !(await hasUntrackedFiles([filePath]))) {
+    return;
+  }
+
+  lastSeen.set(fileName, content);
+
+  const problems = validateTaskFile(
+    content,
+    getRequiredSections(fileName),
+    getEnabledStatuses(getWorkspaceConfig().extraStatuses),
+  );
+
+  if (problems.length > 0) {
+    console.error(`External edit to ${basename(filePath)} has problems:\n${problems.join('\n')}`);
+  }
+
+  // Only the edited file: other changes in the workspace are not part of this edit
+  await commitChanges(formatExternalEditMessage(basename(filePath), problems), { undoable: false, paths: [filePath] });
+  notifyFileChange(fileName);
+}
+
+/**
+ * Watches the active workspace's task files for edits made outside the server.
+ * External edits are validated, committed and announced to resource subscribers;
+ * writes made by the server itself are ignored.
+ */
+export function watchWorkspace(): FileWatcher {
+  const workspace = getWorkspaceName() ?? undefined;
+  const watchedDirectory = getWorkingDirectory();
+  const filesByName = new Map(TASK_FILES.map(fileName => [basename(getFilePath(fileName)), fileName]));
+  const lastSeen: LastSeenContents = new Map(TASK_FILES.map(fileName => [fileName, readIfExists(getFilePath(fileName))]));
+  const timers = new Map<TaskFileName, ReturnType<typeof setTimeout>>();
+
+  // Remember what the server wrote so the resulting watch events are not mistaken for external edits
+  const removeListener = onFileChange((change) => {
+    if (change.workspace === (workspace ?? null)) {
+      lastSeen.set(change.fileName, readIfExists(getFilePath(change.fileName)));
+    }
+  });
+
+  const watcher = watch(watchedDirectory, (_event, changedFile) => {
+    const fileName = filesByName.get(basename(changedFile ?? ''));
+
+    if (fileName === undefined) {
+      return;
+    }
+
+    clearTimeout(timers.get(fileName));
+    timers.set(fileName, setTimeout(() => {
+      const record = () => withWorkspaceLock(() => recordExternalEdit(fileName, lastSeen));
+
+      runInWorkspace(workspace, record).catch((error: unknown) => {
+        console.error(`Failed to record external edit to ${fileName} file:`, error);
+      });
+    }, SETTLE_DELAY_MS));
+  });
+
+  return {
+    close: () => {
+      watcher.close();
+      removeListener();
+      timers.forEach(timer => clearTimeout(timer));
+    },
+  };
+}
@@ -1,5 +1,5 @@
 import { spawn } from 'child_process';
-import { getWorkingDirectory } from '../config';
+import { getWorkingDirectory, getWorkspaceConfig, LOCK_FILE_NAME } from '../config';
 
 async function execCommand(command: string, args: string[], cwd: string): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -41,15 +41,24 @@ export async function isGitRepo(): Promise<boolean> {
 export async function initGitRepo(): Promise<void> {
   const workingDir = getWorkingDirectory();
 
+  const { git } = getWorkspaceConfig();
+
   await execCommand('git', ['init'], workingDir);
-  await execCommand('git', ['config', 'user.email', 'mcp-tasks@example.com'], workingDir);
-  await execCommand('git', ['config', 'user.name', 'MCP Tasks Server'], workingDir);
+  await execCommand('git', ['config', 'user.email', git.email], workingDir);
+  await execCommand('git', ['config', 'user.name', git.name], workingDir);
 }
 
-export async function hasUntrackedFiles(): Promise<boolean> {
+// The workspace lock file and temporary files left by an interrupted atomic write are never part of the task history
+const EXCLUDED_PATHS = [`:(exclude)${LOCK_FILE_NAME}`, ':(exclude)*.tmp'];
+
+/**
+ * Checks for uncommitted changes, optionally limited to the given paths
+ */
+export async function hasUntrackedFiles(paths: string[] = []): Promise<boolean> {
   try {
     const workingDir = getWorkingDirectory();
-    const output = await execCommand('git', ['status', '--porcelain'], workingDir);
+    const pathArgs = ['--', ...(paths.length > 0 ? paths : ['.']), ...EXCLUDED_PATHS];
+    const output = await execCommand('git', ['status', '--porcelain', ...pathArgs], workingDir);
 
     return output.trim().length > 0;
   } catch {
@@ -57,9 +66,132 @@ export async function hasUntrackedFiles(): Promise<boolean> {
   }
 }
 
-export async function commitChanges(message: string): Promise<void> {
+// Trailers recording which commits were made by task operations and which commits undid them
+const OPERATION_TRAILER = 'MCP-Tasks-Operation';
+const REVERT_TRAILER = 'MCP-Tasks-Revert';
+
+export interface CommitOptions {
+  // Snapshot commits of external changes are not task operations and cannot be undone
+  undoable?: boolean;
+  // Limits the commit to these paths instead of every change in the workspace
+  paths?: string[];
+}
+
+export interface CommitInfo {
+  hash: string;
+  subject: string;
+  date: string;
+  isOperation: boolean;
+  reverts: string[];
+}
+
+export interface FileCommit {
+  hash: string;
+  subject: string;
+  date: string;
+  files: string[];
+}
+
+export async function commitChanges(message: string, options: CommitOptions = {}): Promise<void> {
   const workingDir = getWorkingDirectory();
+  const { undoable = true, paths } = options;
+  const trailerArgs = undoable ? ['-m', `${OPERATION_TRAILER}: true`] : [];
+  const onlyPathArgs = paths !== undefined ? ['--', ...paths] : [];
 
-  await execCommand('git', ['add', '.'], workingDir);
-  await execCommand('git', ['commit', '-m', message], workingDir);
+  await execCommand('git', ['add', '--', ...(paths ?? ['.']), ...EXCLUDED_PATHS], workingDir);
+  await execCommand('git', ['commit', '-m', message, ...trailerArgs, ...onlyPathArgs], workingDir);
+}
+
+function parseCommitRecord(record: string): CommitInfo {
+  const [hash, subject, date, operation, reverts] = record.split('\x1f');
+
+  return {
+    hash,
+    subject,
+    date,
+    isOperation: operation.trim() !== '',
+    reverts: reverts.split('\n').map(line => line.trim()).filter(line => line !== ''),
+  };
+}
+
+/**
+ * Returns the commit history of the workspace, most recent first
+ */
+export async function getCommitLog(): Promise<CommitInfo[]> {
+  const workingDir = getWorkingDirectory();
+  const format = [
+    '%H',
+    '%s',
+    '%aI',
+    `%(trailers:key=${OPERATION_TRAILER},valueonly)`,
+    `%(trailers:key=${REVERT_TRAILER},valueonly)`,
+  ].join('%x1f');
+  const output = await execCommand('git', ['log', `--format=${format}%x1e`], workingDir);
+
+  return output
+    .split('\x1e')
+    .map(record => record.trim())
+    .filter(record => record !== '')
+    .map(parseCommitRecord);
+}
+
+/**
+ * Reverts the given commits (most recent first) in a single commit
+ */
+export async function revertCommits(commits: CommitInfo[], message: string): Promise<void> {
+  const workingDir = getWorkingDirectory();
+
+  try {
+    await execCommand('git', ['revert', '--no-commit', ...commits.map(commit => commit.hash)], workingDir);
+  } catch (error) {
+    // Return to the state before the revert sequence started
+    await execCommand('git', ['revert', '--abort'], workingDir).catch(() => undefined);
+    throw error;
+  }
+
+  const trailers = commits.map(commit => `${REVERT_TRAILER}: ${commit.hash}`).join('\n');
+
+  await execCommand('git', ['commit', '-m', message, '-m', trailers], workingDir);
+}
+
+/**
+ * Returns the commits that touched any of the given paths, oldest first. File names are
+ * relative to the working directory, which may be a subdirectory of the repository.
+ */
+export async function getFileCommits(paths: string[]): Promise<FileCommit[]> {
+  const workingDir = getWorkingDirectory();
+  const output = await execCommand(
+    'git',
+    ['log', '--reverse', '--format=%x1e%H%x1f%s%x1f%aI', '--name-only', '--relative', '--', ...paths],
+    workingDir,
+  );
+
+  return output
+    .split('\x1e')
+    .filter(record => record.trim() !== '')
+    .map(record => {
+      const [header, ...fileLines] = record.split('\n');
+      const [hash, subject, date] = header.split('\x1f');
+
+      return {
+        hash,
+        subject,
+        date,
+        files: fileLines.map(line => line.trim()).filter(line => line !== ''),
+      };
+    });
+}
+
+/**
+ * Returns a file's content at a given commit, or an empty string if it did not exist
+ */
+export async function getFileAtCommit(hash: string, path: string): Promise<string> {
+  const workingDir = getWorkingDirectory();
+
+  try {
+    // A "./" prefix resolves the path from the working directory rather than the repository root
+    return await execCommand('git', ['show', `${hash}:./${path}`], workingDir);
+  } catch {
+    return '';
+  }
 }
@@ -1,18 +1,16 @@
 import { existsSync, mkdirSync, writeFileSync } from 'fs';
-import { join } from 'path';
-import { getWorkingDirectory } from '../config';
+import { getWorkingDirectory, getWorkspaceConfig, getFilePath } from '../config';
 import { isGitRepo, initGitRepo, hasUntrackedFiles, commitChanges } from './git';
 
-const CURRENT_TEMPLATE = `# This Week
+function getFileTemplates(): { fileName: 'current' | 'backlog' | 'archive'; template: string }[] {
+  const { sections } = getWorkspaceConfig();
 
-# Next Week
-`;
-
-const BACKLOG_TEMPLATE = `# Backlog
-`;
-
-const ARCHIVE_TEMPLATE = `# Archive
-`;
+  return [
+    { fileName: 'current', template: `# ${sections.thisWeek}\n\n# ${sections.nextWeek}\n` },
+    { fileName: 'backlog', template: `# ${sections.backlog}\n` },
+    { fileName: 'archive', template: `# ${sections.archive}\n` },
+  ];
+}
 
 export async function initializeWorkspace(): Promise<void> {
   const workingDir = getWorkingDirectory();
@@ -28,14 +26,8 @@ export async function initializeWorkspace(): Promise<void> {
   }
 
   // Create markdown files if they don't exist
-  const files = [
-    { name: 'current.md', template: CURRENT_TEMPLATE },
-    { name: 'backlog.md', template: BACKLOG_TEMPLATE },
-    { name: 'archive.md', template: ARCHIVE_TEMPLATE },
-  ];
-
-  for (const file of files) {
-    const filePath = join(workingDir, file.name);
+  for (const file of getFileTemplates()) {
+    const filePath = getFilePath(file.fileName);
 
     if (!existsSync(filePath)) {
       writeFileSync(filePath, file.template);
@@ -44,6 +36,6 @@ export async function initializeWorkspace(): Promise<void> {
 
   // Commit any untracked changes
   if (await hasUntrackedFiles()) {
-    await commitChanges('Changes since last startup');
+    await commitChanges('Changes since last startup', { undoable: false });
   }
 }
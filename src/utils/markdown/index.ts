@@ -2,5 +2,17 @@
 export type { TaskSection } from './parsing';
 export { parseMarkdownSections, getTaskDescriptionLines } from './parsing';
 export { addTaskToSection } from './addTask';
-export { updateTaskStatus, updateTaskText, updateTaskDescription } from './updateTask';
+export { updateTaskStatus, updateTaskText, updateTaskDescription, updateTaskMetadata } from './updateTask';
 export { removeTask } from './removeTask';
+export { reorderTask } from './reorderTask';
+export {
+  sortTasksByPriority,
+  filterTasks,
+  filterSectionTasks,
+  partitionTasks,
+  annotateSubtaskProgress,
+  type TaskLinePredicate,
+} from './taskBlocks';
+export type { SubtaskProgress } from './subtasks';
+export { getSubtaskProgress, formatSubtaskProgress, removeFinishedSubtasks, addSubtask } from './subtasks';
+export { validateTaskFile } from './validate';
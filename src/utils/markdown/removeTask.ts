@@ -1,4 +1,5 @@
 import { getTaskDescriptionLines } from './parsing';
+import { TASK_LINE_PATTERN } from '../taskStatus';
 
 export function removeTask(content: string, lineNumber: number): string {
   const lines = content.split('\n');
@@ -9,7 +10,7 @@ export function removeTask(content: string, lineNumber: number): string {
   }
 
   // Verify it's actually a task line
-  if (!taskLine.match(/^- \[[ x-]\] /)) {
+  if (!TASK_LINE_PATTERN.test(taskLine)) {
     throw new Error(`No task found at line ${lineNumber}`);
   }
 
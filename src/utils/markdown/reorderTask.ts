@@ -0,0 +1,51 @@
+import { parseMarkdownSections, getTaskDescriptionLines } from './parsing';
+import { TASK_LINE_PATTERN } from '../taskStatus';
+
+function findSectionEnd(content: string, lineNumber: number): number {
+  const lines = content.split('\n');
+  const section = parseMarkdownSections(content)
+    .find(candidate => candidate.startLine < lineNumber - 1 && lineNumber - 1 <= candidate.endLine);
+
+  if (!section) {
+    throw new Error(`Line ${lineNumber} is not inside a section`);
+  }
+
+  // Insert after the last non-empty line so trailing blank lines stay at the end
+  let end = section.endLine + 1;
+
+  while (end > section.startLine + 1 && lines[end - 1].trim() === '') {
+    end--;
+  }
+
+  return end;
+}
+
+/**
+ * Moves a task and its description lines within its section, either in front of the
+ * task at `beforeLineNumber` or to the end of the section when it is null
+ */
+export function reorderTask(content: string, lineNumber: number, beforeLineNumber: number | null): string {
+  const lines = content.split('\n');
+  const taskLine = lines[lineNumber - 1]; // Convert to 0-based index
+
+  if (!taskLine) {
+    throw new Error(`Line ${lineNumber} not found in content`);
+  }
+
+  if (!TASK_LINE_PATTERN.test(taskLine)) {
+    throw new Error(`No task found at line ${lineNumber}`);
+  }
+
+  if (beforeLineNumber !== null && !TASK_LINE_PATTERN.test(lines[beforeLineNumber - 1] ?? '')) {
+    throw new Error(`No task found at line ${beforeLineNumber}`);
+  }
+
+  const blockLength = 1 + getTaskDescriptionLines(lines, lineNumber).length;
+  const insertAt = beforeLineNumber !== null ? beforeLineNumber - 1 : findSectionEnd(content, lineNumber);
+  const block = lines.splice(lineNumber - 1, blockLength);
+
+  // Removing the block shifts everything after it up
+  lines.splice(insertAt > lineNumber - 1 ? insertAt - blockLength : insertAt, 0, ...block);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,91 @@
+import { getTaskDescriptionLines } from './parsing';
+import {
+  getTaskCheckbox,
+  isFinishedStatus,
+  parseStatusChar,
+  SUBTASK_LINE_PATTERN,
+  TASK_LINE_PATTERN,
+  type TaskStatus,
+} from '../taskStatus';
+
+export interface SubtaskProgress {
+  finished: number;
+  total: number;
+}
+
+/**
+ * Counts the subtasks among a task's description lines and how many of them are finished
+ *
+ * @returns Undefined when the task has no subtasks
+ */
+export function getSubtaskProgress(descriptionLines: string[]): SubtaskProgress | undefined {
+  const statuses = descriptionLines
+    .map(line => line.match(SUBTASK_LINE_PATTERN))
+    .filter(subtaskMatch => subtaskMatch !== null)
+    .map(subtaskMatch => parseStatusChar(subtaskMatch[1]));
+
+  if (statuses.length === 0) {
+    return undefined;
+  }
+
+  return { finished: statuses.filter(isFinishedStatus).length, total: statuses.length };
+}
+
+/**
+ * Formats subtask progress as finished/total, e.g. "2/5"
+ */
+export function formatSubtaskProgress({ finished, total }: SubtaskProgress): string {
+  return `${finished}/${total}`;
+}
+
+/**
+ * Drops finished subtasks, together with the lines indented under them, from a task's description lines
+ */
+export function removeFinishedSubtasks(descriptionLines: string[]): string[] {
+  let isDropping = false;
+
+  return descriptionLines.filter((line) => {
+    const subtaskMatch = line.match(SUBTASK_LINE_PATTERN);
+
+    if (subtaskMatch) {
+      isDropping = isFinishedStatus(parseStatusChar(subtaskMatch[1]));
+    } else if (!line.startsWith('    ')) {
+      // Lines indented like the subtasks belong to the parent task again
+      isDropping = false;
+    }
+
+    return !isDropping;
+  });
+}
+
+/**
+ * Adds a subtask after the existing description lines and subtasks of a task
+ */
+export function addSubtask(
+  content: string,
+  parentLineNumber: number,
+  subtaskText: string,
+  description?: string,
+  status: TaskStatus = 'new',
+): string {
+  const lines = content.split('\n');
+  const parentLine = lines[parentLineNumber - 1]; // Convert to 0-based index
+
+  if (!parentLine) {
+    throw new Error(`Line ${parentLineNumber} not found in content`);
+  }
+
+  if (!TASK_LINE_PATTERN.test(parentLine)) {
+    throw new Error(`No task found at line ${parentLineNumber}`);
+  }
+
+  const subtaskLines = [`  ${getTaskCheckbox(status)} ${subtaskText}`];
+
+  if (description !== undefined && description !== '') {
+    subtaskLines.push(...description.split('\n').map(line => `    ${line}`));
+  }
+
+  lines.splice(parentLineNumber + getTaskDescriptionLines(lines, parentLineNumber).length, 0, ...subtaskLines);
+
+  return lines.join('\n');
+}
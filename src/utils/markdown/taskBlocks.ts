@@ -0,0 +1,123 @@
+import { parseMarkdownSections, getTaskDescriptionLines } from './parsing';
+import { getSubtaskProgress, formatSubtaskProgress } from './subtasks';
+import { TASK_LINE_PATTERN } from '../taskStatus';
+import { splitTaskMetadata, formatTaskMetadata } from '../taskMetadata';
+import { comparePriority, parsePriority, type TaskPriority } from '../taskPriority';
+
+// A task line followed by its description and any other lines up to the next task
+type TaskBlock = string[];
+
+// eslint-disable-next-line no-unused-vars
+export type TaskLinePredicate = (taskLine: string) => boolean;
+
+// eslint-disable-next-line no-unused-vars
+type TaskBlockTransform = (blocks: TaskBlock[]) => TaskBlock[];
+
+function getLinePriority(line: string): TaskPriority | undefined {
+  const taskMatch = line.match(TASK_LINE_PATTERN);
+
+  return taskMatch ? parsePriority(splitTaskMetadata(taskMatch[2]).metadata.priority) : undefined;
+}
+
+function transformSectionContent(sectionContent: string[], transform: TaskBlockTransform): string[] {
+  const content = [...sectionContent];
+  const trailing: string[] = [];
+
+  // Trailing blank lines stay at the end of the section
+  while (content.length > 0 && content[content.length - 1].trim() === '') {
+    trailing.unshift(content.pop() ?? '');
+  }
+
+  const leading: string[] = [];
+  const blocks: TaskBlock[] = [];
+
+  for (const line of content) {
+    if (TASK_LINE_PATTERN.test(line)) {
+      blocks.push([line]);
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].push(line);
+    } else {
+      leading.push(line);
+    }
+  }
+
+  return [...leading, ...transform(blocks).flat(), ...trailing];
+}
+
+/**
+ * Rewrites the tasks of every section, keeping headings, text before the first task
+ * and trailing blank lines in place
+ */
+function transformTaskBlocks(content: string, transform: TaskBlockTransform): string {
+  const lines = content.split('\n');
+  const sections = parseMarkdownSections(content);
+
+  // Work from the last section backwards so earlier line numbers stay valid
+  for (const section of [...sections].reverse()) {
+    lines.splice(section.startLine + 1, section.content.length, ...transformSectionContent(section.content, transform));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Orders the tasks of every section by priority, moving descriptions along with their tasks
+ */
+export function sortTasksByPriority(content: string): string {
+  // Array sort is stable, so tasks with the same priority keep their order
+  return transformTaskBlocks(content, blocks =>
+    [...blocks].sort((a, b) => comparePriority(getLinePriority(a[0]), getLinePriority(b[0]))));
+}
+
+/**
+ * Keeps only the tasks of a single section whose task line passes the predicate
+ */
+export function filterSectionTasks(sectionContent: string[], predicate: TaskLinePredicate): string[] {
+  return transformSectionContent(sectionContent, blocks => blocks.filter(block => predicate(block[0])));
+}
+
+/**
+ * Keeps only the tasks whose task line passes the predicate, together with their descriptions
+ */
+export function filterTasks(content: string, predicate: TaskLinePredicate): string {
+  return transformTaskBlocks(content, blocks => blocks.filter(block => predicate(block[0])));
+}
+
+/**
+ * Splits the tasks into those whose task line passes the predicate, returned as blocks in file order,
+ * and the content that remains once those tasks are taken out
+ */
+export function partitionTasks(content: string, predicate: TaskLinePredicate): { matched: TaskBlock[]; remaining: string } {
+  const matched: TaskBlock[] = [];
+  const remaining = transformTaskBlocks(content, (blocks) => {
+    // Sections are visited last to first, so each section's tasks go before those found so far
+    matched.unshift(...blocks.filter(block => predicate(block[0])));
+
+    return blocks.filter(block => !predicate(block[0]));
+  });
+
+  return { matched, remaining };
+}
+
+function addProgressToTaskLine(taskLine: string, progress: string): string {
+  const taskMatch = taskLine.match(TASK_LINE_PATTERN);
+
+  if (!taskMatch) {
+    return taskLine;
+  }
+
+  const { text, metadata } = splitTaskMetadata(taskMatch[2]);
+
+  return `- [${taskMatch[1]}] ${formatTaskMetadata(`${text.trimEnd()} (${progress})`, metadata)}`;
+}
+
+/**
+ * Shows how many subtasks are finished after the text of every task with subtasks, e.g. "Launch (2/5)"
+ */
+export function annotateSubtaskProgress(content: string): string {
+  return transformTaskBlocks(content, blocks => blocks.map((block) => {
+    const progress = getSubtaskProgress(getTaskDescriptionLines(block, 1));
+
+    return progress ? [addProgressToTaskLine(block[0], formatSubtaskProgress(progress)), ...block.slice(1)] : block;
+  }));
+}
@@ -1,10 +1,17 @@
 import { getTaskDescriptionLines } from './parsing';
-import { getStatusChar } from '../taskStatus';
+import {
+  getTaskCheckbox,
+  SUBTASK_CHECKBOX_PATTERN,
+  TASK_CHECKBOX_PATTERN,
+  TASK_LINE_PATTERN,
+  type TaskStatus,
+} from '../taskStatus';
+import { splitTaskMetadata, formatTaskMetadata, type TaskMetadata } from '../taskMetadata';
 
 export function updateTaskStatus(
   content: string,
   lineNumber: number,
-  newStatus: 'completed' | 'closed',
+  newStatus: TaskStatus,
 ): string {
   const lines = content.split('\n');
   const targetLine = lines[lineNumber - 1]; // Convert to 0-based index
@@ -13,15 +20,19 @@ export function updateTaskStatus(
     throw new Error(`Line ${lineNumber} not found in content`);
   }
 
-  // Replace the status in the checkbox
-  const statusChar = getStatusChar(newStatus);
-  const updatedLine = targetLine.replace(/^- \[[ x-]\]/, `- [${statusChar}]`);
+  // Subtasks keep their indentation
+  if (SUBTASK_CHECKBOX_PATTERN.test(targetLine)) {
+    lines[lineNumber - 1] = targetLine.replace(SUBTASK_CHECKBOX_PATTERN, `  ${getTaskCheckbox(newStatus)}`);
+
+    return lines.join('\n');
+  }
 
-  if (updatedLine === targetLine) {
+  if (!TASK_CHECKBOX_PATTERN.test(targetLine)) {
     throw new Error(`No task found at line ${lineNumber}`);
   }
 
-  lines[lineNumber - 1] = updatedLine;
+  // Replace the status in the checkbox
+  lines[lineNumber - 1] = targetLine.replace(TASK_CHECKBOX_PATTERN, getTaskCheckbox(newStatus));
 
   return lines.join('\n');
 }
@@ -39,20 +50,53 @@ export function updateTaskText(
   }
 
   // Extract the current status and replace the text
-  const taskMatch = targetLine.match(/^- \[([ x-])\] (.+)$/);
+  const taskMatch = targetLine.match(TASK_LINE_PATTERN);
 
   if (!taskMatch) {
     throw new Error(`No task found at line ${lineNumber}`);
   }
 
-  const [, status] = taskMatch;
-  const updatedLine = `- [${status}] ${newText}`;
+  const [, status, currentText] = taskMatch;
+  // Keep the existing metadata (e.g. the task ID) unless the new text brings its own
+  const { metadata } = splitTaskMetadata(currentText);
+  const newParts = splitTaskMetadata(newText);
+  const finalText = formatTaskMetadata(newParts.text, { ...metadata, ...newParts.metadata });
+  const updatedLine = `- [${status}] ${finalText}`;
 
   lines[lineNumber - 1] = updatedLine;
 
   return lines.join('\n');
 }
 
+/**
+ * Merges metadata into a task line; keys set to an empty string are removed
+ */
+export function updateTaskMetadata(
+  content: string,
+  lineNumber: number,
+  changes: TaskMetadata,
+): string {
+  const lines = content.split('\n');
+  const targetLine = lines[lineNumber - 1]; // Convert to 0-based index
+
+  if (!targetLine) {
+    throw new Error(`Line ${lineNumber} not found in content`);
+  }
+
+  const taskMatch = targetLine.match(TASK_LINE_PATTERN);
+
+  if (!taskMatch) {
+    throw new Error(`No task found at line ${lineNumber}`);
+  }
+
+  const [, status, currentText] = taskMatch;
+  const { text, metadata } = splitTaskMetadata(currentText);
+
+  lines[lineNumber - 1] = `- [${status}] ${formatTaskMetadata(text, { ...metadata, ...changes })}`;
+
+  return lines.join('\n');
+}
+
 export function updateTaskDescription(
   content: string,
   taskLineNumber: number,
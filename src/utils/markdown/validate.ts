@@ -0,0 +1,66 @@
+import { parseMarkdownSections } from './parsing';
+import { isStatusChar, parseStatusChar, TASK_STATUSES, type TaskStatus } from '../taskStatus';
+
+// Any checkbox at any indentation, so that unknown statuses can be reported
+const ANY_CHECKBOX_PATTERN = /^\s*- \[(.)\](.*)$/;
+
+function validateTaskLine(line: string, lineNumber: number, allowedStatuses: readonly TaskStatus[]): string | null {
+  const taskMatch = line.match(ANY_CHECKBOX_PATTERN);
+
+  if (!taskMatch) {
+    return null;
+  }
+
+  const [, statusChar, rest] = taskMatch;
+
+  if (!isStatusChar(statusChar)) {
+    return `Line ${lineNumber}: unknown task status "[${statusChar}]"`;
+  }
+
+  if (!allowedStatuses.includes(parseStatusChar(statusChar))) {
+    return `Line ${lineNumber}: task status "[${statusChar}]" is not enabled in this workspace`;
+  }
+
+  if (rest.trim() === '') {
+    return `Line ${lineNumber}: task has no text`;
+  }
+
+  return null;
+}
+
+/**
+ * Checks a task file for problems the tools cannot work with: missing sections,
+ * content outside any section and malformed task lines or statuses outside the allowed set
+ *
+ * @returns A list of human readable problems, empty when the file is valid
+ */
+export function validateTaskFile(
+  content: string,
+  requiredSections: string[],
+  allowedStatuses: readonly TaskStatus[] = TASK_STATUSES,
+): string[] {
+  const problems: string[] = [];
+  const titles = parseMarkdownSections(content).map(section => section.title);
+  const lines = content.split('\n');
+  const firstHeading = lines.findIndex(line => line.startsWith('# '));
+
+  for (const section of requiredSections) {
+    if (!titles.includes(section)) {
+      problems.push(`Missing section "# ${section}"`);
+    }
+  }
+
+  lines.forEach((line, index) => {
+    if ((firstHeading === -1 || index < firstHeading) && line.trim() !== '') {
+      problems.push(`Line ${index + 1}: content outside of any section`);
+    }
+
+    const taskProblem = validateTaskLine(line, index + 1, allowedStatuses);
+
+    if (taskProblem !== null) {
+      problems.push(taskProblem);
+    }
+  });
+
+  return problems;
+}
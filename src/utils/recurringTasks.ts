@@ -0,0 +1,186 @@
+/**
+ * Recurring task utilities
+ * Recurring task definitions are kept in the workspace's .mcp-tasks-recurring.json file.
+ * start_week adds an instance of each definition to the weeks it falls in, marking
+ * instances with the definition's ID in their metadata, e.g. `<!-- recurring:4be1d0 -->`.
+ */
+
+import { randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { getWorkingDirectory, formatConfigErrors, RECURRING_TASKS_FILE_NAME } from '../config';
+import { addDays, getDaysBetween, getWeekStartDate } from './dates';
+import { writeFileAtomic } from './fileOperations';
+import { getTaskCheckbox, TASK_LINE_PATTERN } from './taskStatus';
+import { splitTaskMetadata, formatTaskMetadata } from './taskMetadata';
+import { TASK_PRIORITIES } from './taskPriority';
+import { taskDateSchema } from './taskDates';
+
+const recurringTaskBaseSchema = z.object({
+  id: z.string().regex(/^[0-9a-f]+$/),
+  text: z.string().trim().min(1),
+  description: z.string().optional(),
+  priority: z.enum(TASK_PRIORITIES).optional(),
+});
+
+const weeklyRecurringTaskSchema = recurringTaskBaseSchema.extend({
+  frequency: z.literal('weekly'),
+  // Weeks between instances, counted from the week of the start date
+  interval: z.number().int().min(1),
+  startDate: taskDateSchema,
+}).strict();
+
+const monthlyRecurringTaskSchema = recurringTaskBaseSchema.extend({
+  frequency: z.literal('monthly'),
+  // Shorter months use their last day instead
+  dayOfMonth: z.number().int().min(1).max(31),
+}).strict();
+
+const recurringTaskSchema = z.discriminatedUnion('frequency', [weeklyRecurringTaskSchema, monthlyRecurringTaskSchema]);
+
+export type RecurringTask = z.infer<typeof recurringTaskSchema>;
+
+export type NewRecurringTask =
+  | Omit<z.infer<typeof weeklyRecurringTaskSchema>, 'id'>
+  | Omit<z.infer<typeof monthlyRecurringTaskSchema>, 'id'>;
+
+function getRecurringTasksPath(): string {
+  return join(getWorkingDirectory(), RECURRING_TASKS_FILE_NAME);
+}
+
+/**
+ * Reads and validates the workspace's recurring task definitions; none when the file is absent
+ */
+export function readRecurringTasks(): RecurringTask[] {
+  const filePath = getRecurringTasksPath();
+
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  let rawTasks: unknown;
+
+  try {
+    rawTasks = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid ${RECURRING_TASKS_FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = z.array(recurringTaskSchema).safeParse(rawTasks);
+
+  if (!result.success) {
+    throw new Error(`Invalid ${RECURRING_TASKS_FILE_NAME}: ${formatConfigErrors(result.error)}`);
+  }
+
+  return result.data;
+}
+
+function writeRecurringTasks(tasks: RecurringTask[]): void {
+  writeFileAtomic(getRecurringTasksPath(), `${JSON.stringify(tasks, null, 2)}\n`);
+}
+
+/**
+ * Stores a new recurring task definition under a fresh ID
+ */
+export function createRecurringTask(task: NewRecurringTask): RecurringTask {
+  const tasks = readRecurringTasks();
+  const existingIds = new Set(tasks.map(existing => existing.id));
+  let id: string;
+
+  do {
+    id = randomBytes(3).toString('hex');
+  } while (existingIds.has(id));
+
+  const recurringTask: RecurringTask = { id, ...task };
+
+  writeRecurringTasks([...tasks, recurringTask]);
+
+  return recurringTask;
+}
+
+/**
+ * Finds a recurring task by exact ID or, failing that, by a unique case-insensitive text match
+ */
+export function findRecurringTask(identifier: string): RecurringTask {
+  const tasks = readRecurringTasks();
+  const idMatch = tasks.find(task => task.id === identifier.trim());
+
+  if (idMatch) {
+    return idMatch;
+  }
+
+  const matches = tasks.filter(task => task.text.toLowerCase().includes(identifier.toLowerCase()));
+
+  if (matches.length === 0) {
+    throw new Error(`No recurring task found for "${identifier}"`);
+  }
+
+  if (matches.length > 1) {
+    const matchList = matches.map(task => `"${task.text}" (${task.id})`).join(', ');
+
+    throw new Error(`Multiple recurring tasks found for "${identifier}": ${matchList}. Please be more specific.`);
+  }
+
+  return matches[0];
+}
+
+export function deleteRecurringTask(id: string): void {
+  writeRecurringTasks(readRecurringTasks().filter(task => task.id !== id));
+}
+
+/**
+ * Describes how often a recurring task repeats, e.g. "every 2 weeks" or "monthly on day 15"
+ */
+export function describeRecurrence(task: RecurringTask): string {
+  if (task.frequency === 'monthly') {
+    return `monthly on day ${task.dayOfMonth}`;
+  }
+
+  return task.interval === 1 ? 'weekly' : `every ${task.interval} weeks`;
+}
+
+function getDaysInMonth(date: string): number {
+  const [year, month] = date.split('-').map(Number);
+
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Checks whether a recurring task has an instance in the week starting on the given date
+ */
+export function recursInWeek(task: RecurringTask, weekStart: string): boolean {
+  if (task.frequency === 'weekly') {
+    const weeks = getDaysBetween(getWeekStartDate(task.startDate), weekStart) / 7;
+
+    return weeks >= 0 && weeks % task.interval === 0;
+  }
+
+  return Array.from({ length: 7 }, (_, day) => addDays(weekStart, day)).some(date =>
+    Number(date.split('-')[2]) === Math.min(task.dayOfMonth, getDaysInMonth(date)));
+}
+
+/**
+ * Reads the ID of the recurring task a task line is an instance of, if any
+ */
+export function getRecurringTaskId(taskLine: string): string | undefined {
+  const taskMatch = taskLine.match(TASK_LINE_PATTERN);
+
+  return taskMatch ? splitTaskMetadata(taskMatch[2]).metadata.recurring : undefined;
+}
+
+/**
+ * Formats a new instance of a recurring task, with its own task ID, as a task line followed by its description
+ */
+export function formatRecurringInstance(task: RecurringTask, taskId: string): string[] {
+  const taskLine = `${getTaskCheckbox('new')} ${formatTaskMetadata(task.text, {
+    id: taskId,
+    priority: task.priority ?? '',
+    recurring: task.id,
+  })}`;
+  const descriptionLines = task.description !== undefined && task.description !== ''
+    ? task.description.split('\n').map(line => `  ${line}`)
+    : [];
+
+  return [taskLine, ...descriptionLines];
+}
@@ -5,6 +5,7 @@
 
 export interface MCPResponse {
   content: { type: 'text'; text: string }[];
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -20,6 +21,32 @@ export function createSuccessResponse(message: string): MCPResponse {
   };
 }
 
+/**
+ * Creates a success response carrying structured data
+ * The same data is serialized as JSON text for clients without structured content support
+ */
+export function createStructuredResponse(data: Record<string, unknown>): MCPResponse {
+  return {
+    content: [{
+      type: 'text' as const,
+      text: JSON.stringify(data, null, 2),
+    }],
+    structuredContent: data,
+  };
+}
+
+/**
+ * Creates a success response followed by the workspace revision it was read at
+ */
+export function createRevisionResponse(message: string, revision: string): MCPResponse {
+  return {
+    content: [
+      { type: 'text' as const, text: message },
+      { type: 'text' as const, text: `Revision: ${revision}` },
+    ],
+  };
+}
+
 /**
  * Creates a standardized error response
  */
@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { readFile } from './fileOperations';
+
+const TASK_FILES = ['current', 'backlog', 'archive'] as const;
+
+export const expectedRevisionParameter = z.string().optional()
+  .describe('Revision returned by a read tool; the change is rejected if the tasks were modified since');
+
+/**
+ * Computes a short revision token from file contents
+ */
+export function computeRevision(contents: string[]): string {
+  return createHash('sha256').update(contents.join('\0')).digest('hex').substring(0, 12);
+}
+
+/**
+ * Returns the revision of the active workspace, covering all three task files
+ */
+export function getWorkspaceRevision(): string {
+  return computeRevision(TASK_FILES.map((fileName) => {
+    try {
+      return readFile(fileName);
+    } catch {
+      // A missing file has no content to conflict with
+      return '';
+    }
+  }));
+}
+
+/**
+ * Rejects a change when the workspace no longer matches the revision the caller read
+ */
+export function checkRevision(expectedRevision?: string): void {
+  if (expectedRevision === undefined) {
+    return;
+  }
+
+  const currentRevision = getWorkspaceRevision();
+
+  if (currentRevision !== expectedRevision) {
+    throw new Error(
+      `Revision conflict: the tasks changed since revision ${expectedRevision} (now ${currentRevision}). ` +
+      'Re-read the tasks and retry.',
+    );
+  }
+}
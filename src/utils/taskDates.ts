@@ -0,0 +1,32 @@
+/**
+ * Task date utilities
+ * Tasks can carry a due date, by which they should be finished, and a scheduled date,
+ * from which they are planned to be worked on. Both are kept in a task's metadata,
+ * e.g. `- [ ] File taxes <!-- due:2024-04-15 scheduled:2024-04-08 -->`.
+ */
+
+import { z } from 'zod';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks that a value is a calendar date in YYYY-MM-DD format
+ */
+export function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+export const taskDateSchema = z.string().refine(isValidDate, 'Expected a valid date in YYYY-MM-DD format');
+
+/**
+ * Reads a date from a metadata value, ignoring values that are not a valid date
+ */
+export function parseTaskDate(value: string | undefined): string | undefined {
+  return value !== undefined && isValidDate(value) ? value : undefined;
+}
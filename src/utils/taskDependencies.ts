@@ -0,0 +1,97 @@
+/**
+ * Task dependency utilities
+ * A task that cannot start before other tasks are done lists their IDs in its metadata,
+ * e.g. `- [ ] Deploy release <!-- id:d4e5f6 blocked_by:a1b2c3,0a0b0c -->`. Prerequisites
+ * that are finished, or no longer in the current or backlog file, no longer block it.
+ */
+
+import { isFinishedStatus, type TaskStatus } from './taskStatus';
+
+export interface DependentTask {
+  taskText: string;
+  status: TaskStatus;
+  id?: string;
+  blockedBy?: string[];
+}
+
+/**
+ * Reads the prerequisite IDs from a blocked_by metadata value
+ */
+export function parseBlockedBy(value: string | undefined): string[] {
+  return value !== undefined ? value.split(',').filter(id => id !== '') : [];
+}
+
+export function formatBlockedBy(ids: string[]): string {
+  return ids.join(',');
+}
+
+/**
+ * Formats a task for messages, e.g. `"Write report" (a1b2c3)`
+ */
+export function formatTaskReference(task: DependentTask): string {
+  return task.id !== undefined ? `"${task.taskText}" (${task.id})` : `"${task.taskText}"`;
+}
+
+/**
+ * Finds the unfinished prerequisites a task is still waiting for
+ */
+export function getOpenPrerequisites<T extends DependentTask>(task: DependentTask, tasks: T[]): T[] {
+  const blockedBy = task.blockedBy ?? [];
+
+  return tasks.filter(other =>
+    other.id !== undefined && blockedBy.includes(other.id) && !isFinishedStatus(other.status));
+}
+
+/**
+ * Finds the unfinished tasks for which the given task is the last open prerequisite
+ */
+export function findTasksUnblockedBy<T extends DependentTask>(taskId: string, tasks: T[]): T[] {
+  return tasks.filter(task =>
+    !isFinishedStatus(task.status) &&
+    (task.blockedBy?.includes(taskId) ?? false) &&
+    getOpenPrerequisites(task, tasks).every(prerequisite => prerequisite.id === taskId));
+}
+
+/**
+ * Checks whether a task depends on another one, directly or through its prerequisites' prerequisites
+ */
+export function dependsOn(task: DependentTask, prerequisiteId: string, tasks: DependentTask[]): boolean {
+  const tasksById = new Map(tasks.map(other => [other.id, other]));
+  const pending = [...(task.blockedBy ?? [])];
+  const visited = new Set(pending);
+
+  for (const id of pending) {
+    if (id === prerequisiteId) {
+      return true;
+    }
+
+    for (const nextId of tasksById.get(id)?.blockedBy ?? []) {
+      if (!visited.has(nextId)) {
+        visited.add(nextId);
+        pending.push(nextId);
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Describes what finishing a task means for its dependencies: a warning when it is completed
+ * before its prerequisites, and the tasks it was the last open prerequisite of
+ */
+export function getFinishingNotes(task: DependentTask, status: TaskStatus, tasks: DependentTask[]): string[] {
+  const notes: string[] = [];
+  const openPrerequisites = getOpenPrerequisites(task, tasks);
+  const unblockedTasks = task.id !== undefined ? findTasksUnblockedBy(task.id, tasks) : [];
+
+  if (status === 'completed' && openPrerequisites.length > 0) {
+    notes.push(`Warning: "${task.taskText}" still has open prerequisites: ${openPrerequisites.map(formatTaskReference).join(', ')}`);
+  }
+
+  if (unblockedTasks.length > 0) {
+    notes.push(`Now unblocked: ${unblockedTasks.map(formatTaskReference).join(', ')}`);
+  }
+
+  return notes;
+}
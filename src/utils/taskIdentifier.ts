@@ -1,6 +1,15 @@
-import { parseMarkdownSections } from './markdown';
+import { randomBytes } from 'crypto';
+import { existsSync } from 'fs';
+import { getFilePath } from '../config';
+import { parseMarkdownSections, type TaskSection } from './markdown';
 import { readFile } from './fileOperations';
-import { parseStatusChar, type TaskStatus } from './taskStatus';
+import { parseStatusChar, SUBTASK_LINE_PATTERN, TASK_LINE_PATTERN, type TaskStatus } from './taskStatus';
+import { splitTaskMetadata } from './taskMetadata';
+import { parsePriority, type TaskPriority } from './taskPriority';
+import { parseTags } from './taskTags';
+import { parseTaskDate } from './taskDates';
+import { parseBlockedBy } from './taskDependencies';
+import { collectTaskRecords } from './taskSearch';
 
 export interface TaskMatch {
   file: 'current' | 'backlog';
@@ -8,64 +17,118 @@ export interface TaskMatch {
   taskText: string;
   lineNumber: number;
   status: TaskStatus;
+  id?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  dueDate?: string;
+  scheduledDate?: string;
+  blockedBy?: string[];
+  // Text of the parent task, set for subtasks only
+  parent?: string;
 }
 
-function parseTaskLine(line: string): { taskText: string; status: TaskStatus } | null {
-  const taskMatch = line.match(/^- \[([ x-])\] (.+)$/);
+export interface TaskMatchOptions {
+  // Subtasks are only matched by tools that can work on them
+  includeSubtasks?: boolean;
+}
 
-  if (!taskMatch) {
-    return null;
-  }
+export interface ParsedTaskLine {
+  taskText: string;
+  status: TaskStatus;
+  id?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  dueDate?: string;
+  scheduledDate?: string;
+  blockedBy?: string[];
+}
 
-  const [, statusChar, taskText] = taskMatch;
+function parseTaskParts(statusChar: string, taskText: string): ParsedTaskLine {
   const status = parseStatusChar(statusChar);
+  const { text, metadata } = splitTaskMetadata(taskText);
+  const priority = parsePriority(metadata.priority);
+  const tags = parseTags(text);
+  const dueDate = parseTaskDate(metadata.due);
+  const scheduledDate = parseTaskDate(metadata.scheduled);
+  const blockedBy = parseBlockedBy(metadata.blocked_by);
 
   return {
-    taskText: taskText.trim(),
+    taskText: text.trim(),
     status,
+    ...(metadata.id !== undefined && { id: metadata.id }),
+    ...(priority !== undefined && { priority }),
+    ...(tags.length > 0 && { tags }),
+    ...(dueDate !== undefined && { dueDate }),
+    ...(scheduledDate !== undefined && { scheduledDate }),
+    ...(blockedBy.length > 0 && { blockedBy }),
   };
 }
 
-function findTasksInFile(fileName: 'current' | 'backlog'): TaskMatch[] {
-  const content = readFile(fileName);
-  const sections = parseMarkdownSections(content);
-  const tasks: TaskMatch[] = [];
+export function parseTaskLine(line: string): ParsedTaskLine | null {
+  const taskMatch = line.match(TASK_LINE_PATTERN);
+
+  return taskMatch ? parseTaskParts(taskMatch[1], taskMatch[2]) : null;
+}
+
+/**
+ * Parses a subtask line, a task line indented under its parent task
+ */
+export function parseSubtaskLine(line: string): ParsedTaskLine | null {
+  const subtaskMatch = line.match(SUBTASK_LINE_PATTERN);
+
+  return subtaskMatch ? parseTaskParts(subtaskMatch[1], subtaskMatch[2]) : null;
+}
 
-  for (const section of sections) {
-    let lineNumber = section.startLine + 1; // +1 to skip section header
-
-    for (const line of section.content) {
-      lineNumber++;
-      const taskInfo = parseTaskLine(line);
-
-      if (taskInfo) {
-        tasks.push({
-          file: fileName,
-          section: section.title,
-          taskText: taskInfo.taskText,
-          lineNumber,
-          status: taskInfo.status,
-        });
-      }
+function findTasksInSection(fileName: 'current' | 'backlog', section: TaskSection, includeSubtasks: boolean): TaskMatch[] {
+  const tasks: TaskMatch[] = [];
+  let lineNumber = section.startLine + 1; // +1 to skip section header
+  let parent: TaskMatch | null = null;
+
+  for (const line of section.content) {
+    lineNumber++;
+    const taskInfo = parseTaskLine(line);
+    const subtaskInfo = includeSubtasks && parent !== null ? parseSubtaskLine(line) : null;
+
+    if (taskInfo) {
+      parent = { file: fileName, section: section.title, lineNumber, ...taskInfo };
+      tasks.push(parent);
+    } else if (subtaskInfo && parent !== null) {
+      tasks.push({ file: fileName, section: section.title, lineNumber, ...subtaskInfo, parent: parent.taskText });
+    } else if (!line.startsWith('  ') || line.trim() === '') {
+      // Subtasks sit in the indented lines right below their parent
+      parent = null;
     }
   }
 
   return tasks;
 }
 
-export function findAllTasks(): TaskMatch[] {
-  const currentTasks = findTasksInFile('current');
-  const backlogTasks = findTasksInFile('backlog');
+function findTasksInFile(fileName: 'current' | 'backlog', { includeSubtasks = false }: TaskMatchOptions): TaskMatch[] {
+  return parseMarkdownSections(readFile(fileName))
+    .flatMap(section => findTasksInSection(fileName, section, includeSubtasks));
+}
+
+export function findAllTasks(options: TaskMatchOptions = {}): TaskMatch[] {
+  const currentTasks = findTasksInFile('current', options);
+  const backlogTasks = findTasksInFile('backlog', options);
 
   return [...currentTasks, ...backlogTasks];
 }
 
-export function findMatchingTasks(identifier: string): TaskMatch[] {
+export function findMatchingTasks(identifier: string, options: TaskMatchOptions = {}): TaskMatch[] {
   if (!identifier.trim()) {
     throw new Error('Task identifier cannot be empty');
   }
 
-  const allTasks = findAllTasks();
+  const allTasks = findAllTasks(options);
+
+  // An exact ID match always wins over text matching
+  const idMatch = allTasks.find(task => task.id === identifier.trim());
+
+  if (idMatch) {
+    return [idMatch];
+  }
+
   const lowerIdentifier = identifier.toLowerCase();
 
   // Case-insensitive substring matching
@@ -76,12 +139,37 @@ export function findMatchingTasks(identifier: string): TaskMatch[] {
   return matches;
 }
 
-export function validateTaskMatch(identifier: string): TaskMatch {
-  const matches = findMatchingTasks(identifier);
+function findArchivedTaskIds(): (string | undefined)[] {
+  // The archive file is optional until a week is archived
+  return existsSync(getFilePath('archive')) ? collectTaskRecords('archive').map(record => record.id) : [];
+}
+
+/**
+ * Generates a short task ID that is not used by any current, backlog or archived task,
+ * nor by the reserved IDs an operation has handed out but not yet written
+ */
+export function generateTaskId(reservedIds: ReadonlySet<string> = new Set()): string {
+  // Archived tasks keep their IDs, which reopen_task, task_history and blocked_by still refer to
+  const existingIds = new Set([
+    ...findAllTasks({ includeSubtasks: true }).map(task => task.id),
+    ...findArchivedTaskIds(),
+    ...reservedIds,
+  ]);
+  let id: string;
+
+  do {
+    id = randomBytes(3).toString('hex');
+  } while (existingIds.has(id));
+
+  return id;
+}
+
+export function validateTaskMatch(identifier: string, options: TaskMatchOptions = {}): TaskMatch {
+  const matches = findMatchingTasks(identifier, options);
 
   if (matches.length === 0) {
     // Get similar tasks for suggestions
-    const allTasks = findAllTasks();
+    const allTasks = findAllTasks(options);
     const suggestions = allTasks
       .map(task => task.taskText)
       .slice(0, 3) // Show max 3 suggestions
@@ -107,3 +195,22 @@ export function validateTaskMatch(identifier: string): TaskMatch {
 
   return matches[0];
 }
+
+/**
+ * Guards a read-modify-write against edits made since the task was matched:
+ * the line recorded in the match must still hold the same task
+ */
+export function assertTaskAtLine(content: string, task: TaskMatch): void {
+  const parseLine = task.parent !== undefined ? parseSubtaskLine : parseTaskLine;
+  const taskInfo = parseLine(content.split('\n')[task.lineNumber - 1] ?? '');
+  const isSameTask = taskInfo !== null && (task.id !== undefined
+    ? taskInfo.id === task.id
+    : taskInfo.taskText === task.taskText);
+
+  if (!isSameTask) {
+    throw new Error(
+      `Revision conflict: "${task.taskText}" is no longer at line ${task.lineNumber} of the ${task.file} file. ` +
+      'Re-read the tasks and retry.',
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Task metadata utilities
+ * Task lines can end with an HTML comment holding `key:value` pairs, e.g.
+ * `- [ ] Write report <!-- id:3fa9c1 -->`. The comment stays invisible when the
+ * markdown is rendered while keeping machine-readable data attached to the task.
+ */
+
+export type TaskMetadata = Record<string, string>;
+
+export interface TaskTextParts {
+  text: string;
+  metadata: TaskMetadata;
+}
+
+const METADATA_PATTERN = /\s*<!--((?:\s*[\w-]+:\S+)*)\s*-->\s*$/;
+
+/**
+ * Splits a task's text into its visible part and its trailing metadata
+ */
+export function splitTaskMetadata(taskText: string): TaskTextParts {
+  const metadataMatch = taskText.match(METADATA_PATTERN);
+
+  if (metadataMatch?.index === undefined) {
+    return { text: taskText, metadata: {} };
+  }
+
+  const metadata: TaskMetadata = {};
+
+  for (const pair of metadataMatch[1].trim().split(/\s+/)) {
+    const separatorIndex = pair.indexOf(':');
+
+    if (separatorIndex > 0) {
+      metadata[pair.substring(0, separatorIndex)] = pair.substring(separatorIndex + 1);
+    }
+  }
+
+  return {
+    text: taskText.substring(0, metadataMatch.index),
+    metadata,
+  };
+}
+
+/**
+ * Appends metadata to a task's visible text, omitting the comment when empty
+ */
+export function formatTaskMetadata(text: string, metadata: TaskMetadata): string {
+  const pairs = Object.entries(metadata)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `${key}:${value}`);
+
+  if (pairs.length === 0) {
+    return text;
+  }
+
+  return `${text} <!-- ${pairs.join(' ')} -->`;
+}
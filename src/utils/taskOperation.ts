@@ -0,0 +1,41 @@
+import { commitChanges } from './git';
+import { createSuccessResponse, createErrorResponse, type MCPResponse } from './responses';
+import { checkRevision } from './revision';
+import { withWorkspaceLock } from './workspaceLock';
+
+/**
+ * Outcome of a task change applied to the task files but not yet committed,
+ * so that several changes can share one commit
+ */
+export interface TaskOperationResult {
+  message: string;
+  // Omitted when the operation found nothing to change
+  commitMessage?: string;
+}
+
+/**
+ * Runs a task change as a tool call: under the workspace lock, after checking the expected
+ * revision, committing whatever the operation changed. Errors become error responses
+ * prefixed with the action, e.g. "Error adding task: ..."
+ */
+export async function runTaskOperation(
+  action: string,
+  expectedRevision: string | undefined,
+  operation: () => TaskOperationResult,
+): Promise<MCPResponse> {
+  try {
+    return await withWorkspaceLock(async() => {
+      checkRevision(expectedRevision);
+
+      const { message, commitMessage } = operation();
+
+      if (commitMessage !== undefined) {
+        await commitChanges(commitMessage);
+      }
+
+      return createSuccessResponse(message);
+    });
+  } catch (error) {
+    return createErrorResponse(action, error);
+  }
+}
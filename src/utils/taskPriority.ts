@@ -0,0 +1,27 @@
+/**
+ * Task priority utilities
+ * Priorities are kept in a task's metadata as `priority:P1` to `priority:P3`,
+ * P1 being the most important. Tasks without a priority rank below all others.
+ */
+
+export const TASK_PRIORITIES = ['P1', 'P2', 'P3'] as const;
+
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+
+/**
+ * Reads a priority from a metadata value, ignoring values that are not a known priority
+ */
+export function parsePriority(value: string | undefined): TaskPriority | undefined {
+  return TASK_PRIORITIES.find(priority => priority === value);
+}
+
+function getPriorityRank(priority: TaskPriority | undefined): number {
+  return priority === undefined ? TASK_PRIORITIES.length : TASK_PRIORITIES.indexOf(priority);
+}
+
+/**
+ * Orders priorities from most to least important, with unprioritized tasks last
+ */
+export function comparePriority(a: TaskPriority | undefined, b: TaskPriority | undefined): number {
+  return getPriorityRank(a) - getPriorityRank(b);
+}
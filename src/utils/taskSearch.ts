@@ -0,0 +1,181 @@
+import {
+  parseMarkdownSections,
+  getTaskDescriptionLines,
+  getSubtaskProgress,
+  formatSubtaskProgress,
+  type TaskSection,
+} from './markdown';
+import { readFile } from './fileOperations';
+import { parseTaskLine, type ParsedTaskLine } from './taskIdentifier';
+import { parseArchiveWeekTitle } from './archive';
+import { splitAddedDate } from './dates';
+import type { TaskStatus } from './taskStatus';
+import type { TaskPriority } from './taskPriority';
+import { hasAllTags } from './taskTags';
+
+export interface TaskRecord {
+  file: 'current' | 'backlog' | 'archive';
+  section: string;
+  week?: string;
+  taskText: string;
+  status: TaskStatus;
+  id?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  dueDate?: string;
+  scheduledDate?: string;
+  blockedBy?: string[];
+  description?: string;
+  // Finished and total subtasks, e.g. "2/5"
+  progress?: string;
+  addedOn?: string;
+}
+
+export interface SearchCriteria {
+  query?: string;
+  status?: TaskStatus;
+  section?: string;
+  fromDate?: string;
+  toDate?: string;
+  tags?: string[];
+}
+
+function getTaskLineFields(taskInfo: ParsedTaskLine): Pick<TaskRecord, 'id' | 'priority' | 'tags' | 'dueDate' | 'scheduledDate' | 'blockedBy'> {
+  return {
+    ...(taskInfo.id !== undefined && { id: taskInfo.id }),
+    ...(taskInfo.priority !== undefined && { priority: taskInfo.priority }),
+    ...(taskInfo.tags !== undefined && { tags: taskInfo.tags }),
+    ...(taskInfo.dueDate !== undefined && { dueDate: taskInfo.dueDate }),
+    ...(taskInfo.scheduledDate !== undefined && { scheduledDate: taskInfo.scheduledDate }),
+    ...(taskInfo.blockedBy !== undefined && { blockedBy: taskInfo.blockedBy }),
+  };
+}
+
+function collectSectionRecords(
+  fileName: 'current' | 'backlog' | 'archive',
+  section: TaskSection,
+): TaskRecord[] {
+  const records: TaskRecord[] = [];
+  const week = fileName === 'archive' ? parseArchiveWeekTitle(section.title) : undefined;
+
+  for (let i = 0; i < section.content.length; i++) {
+    const taskInfo = parseTaskLine(section.content[i]);
+
+    if (!taskInfo) {
+      continue;
+    }
+
+    const descriptionLines = getTaskDescriptionLines(section.content, i + 1);
+    const addedOn = fileName === 'backlog' ? splitAddedDate(taskInfo.taskText).addedOn : undefined;
+    const progress = getSubtaskProgress(descriptionLines);
+
+    records.push({
+      file: fileName,
+      section: section.title,
+      ...(week !== undefined && { week }),
+      taskText: taskInfo.taskText,
+      status: taskInfo.status,
+      ...getTaskLineFields(taskInfo),
+      ...(descriptionLines.length > 0 && {
+        description: descriptionLines.map(line => line.substring(2)).join('\n'),
+      }),
+      ...(progress !== undefined && { progress: formatSubtaskProgress(progress) }),
+      ...(addedOn !== undefined && { addedOn }),
+    });
+
+    i += descriptionLines.length;
+  }
+
+  return records;
+}
+
+/**
+ * Collects every task in a file together with its description and dates
+ */
+export function collectTaskRecords(fileName: 'current' | 'backlog' | 'archive'): TaskRecord[] {
+  const sections = parseMarkdownSections(readFile(fileName));
+
+  return sections.flatMap(section => collectSectionRecords(fileName, section));
+}
+
+function matchesQuery(record: TaskRecord, query: string): boolean {
+  const lowerQuery = query.toLowerCase();
+
+  return record.taskText.toLowerCase().includes(lowerQuery) ||
+    (record.description?.toLowerCase().includes(lowerQuery) ?? false);
+}
+
+function matchesDateRange(record: TaskRecord, fromDate?: string, toDate?: string): boolean {
+  if (fromDate === undefined && toDate === undefined) {
+    return true;
+  }
+
+  // Only backlog and archive tasks carry dates; undated tasks never match a date range
+  const date = record.addedOn ?? record.week;
+
+  if (date === undefined) {
+    return false;
+  }
+
+  return (fromDate === undefined || date >= fromDate) && (toDate === undefined || date <= toDate);
+}
+
+function matchesTags(record: TaskRecord, tags?: string[]): boolean {
+  return tags === undefined || hasAllTags(record.taskText, tags);
+}
+
+function matchesCriteria(record: TaskRecord, criteria: SearchCriteria): boolean {
+  if (criteria.query !== undefined && criteria.query.trim() !== '' && !matchesQuery(record, criteria.query.trim())) {
+    return false;
+  }
+
+  if (criteria.status !== undefined && record.status !== criteria.status) {
+    return false;
+  }
+
+  if (criteria.section !== undefined && record.section.toLowerCase() !== criteria.section.toLowerCase()) {
+    return false;
+  }
+
+  if (!matchesTags(record, criteria.tags)) {
+    return false;
+  }
+
+  return matchesDateRange(record, criteria.fromDate, criteria.toDate);
+}
+
+/**
+ * Searches tasks in the current, backlog and archive files
+ */
+export function searchTasks(criteria: SearchCriteria): TaskRecord[] {
+  const records = [
+    ...collectTaskRecords('current'),
+    ...collectTaskRecords('backlog'),
+    ...collectTaskRecords('archive'),
+  ];
+
+  return records.filter(record => matchesCriteria(record, criteria));
+}
+
+/**
+ * Finds a single archived task by ID or text. A task archived in several weeks,
+ * e.g. after being carried over unfinished, yields its most recent record.
+ */
+export function findArchivedTask(identifier: string): TaskRecord {
+  const lowerIdentifier = identifier.trim().toLowerCase();
+  const matches = new Map<string, TaskRecord>();
+
+  for (const record of collectTaskRecords('archive')) {
+    if (record.id === identifier.trim() || record.taskText.toLowerCase().includes(lowerIdentifier)) {
+      matches.set(record.id ?? record.taskText, record);
+    }
+  }
+
+  if (matches.size !== 1) {
+    throw new Error(matches.size === 0
+      ? `No matching tasks found for "${identifier}" in current, backlog or archive`
+      : `Multiple archived tasks match "${identifier}". Please be more specific.`);
+  }
+
+  return [...matches.values()][0];
+}
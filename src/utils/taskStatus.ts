@@ -3,36 +3,66 @@
  * Provides consistent status-to-checkbox mapping, parsing, and validation
  */
 
-export type TaskStatus = 'new' | 'completed' | 'closed';
+export const TASK_STATUSES = ['new', 'in_progress', 'blocked', 'deferred', 'completed', 'closed'] as const;
+
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+// Statuses a workspace can switch off; new, completed and closed are always available
+export const OPTIONAL_TASK_STATUSES = ['in_progress', 'blocked', 'deferred'] as const;
+
+export type OptionalTaskStatus = typeof OPTIONAL_TASK_STATUSES[number];
+
+const STATUS_CHARS: Record<TaskStatus, string> = {
+  new: ' ',
+  in_progress: '/',
+  blocked: '!',
+  deferred: '>',
+  completed: 'x',
+  closed: '-',
+};
+
+// Only characters with a meaning inside a character class are escaped
+const STATUS_CHAR_CLASS = `[${Object.values(STATUS_CHARS).join('').replace(/[\\\]^-]/g, '\\$&')}]`;
+
+/**
+ * Matches a task line, capturing the status character and the task text
+ */
+export const TASK_LINE_PATTERN = new RegExp(`^- \\[(${STATUS_CHAR_CLASS})\\] (.+)$`);
+
+/**
+ * Matches the checkbox at the start of a task line
+ */
+export const TASK_CHECKBOX_PATTERN = new RegExp(`^- \\[${STATUS_CHAR_CLASS}\\]`);
+
+/**
+ * Matches a subtask line, indented one level under its parent task, capturing the status character and the text
+ */
+export const SUBTASK_LINE_PATTERN = new RegExp(`^  - \\[(${STATUS_CHAR_CLASS})\\] (.+)$`);
+
+/**
+ * Matches the checkbox at the start of a subtask line
+ */
+export const SUBTASK_CHECKBOX_PATTERN = new RegExp(`^  - \\[${STATUS_CHAR_CLASS}\\]`);
 
 /**
  * Maps task status to checkbox character
  */
 export function getStatusChar(status: TaskStatus): string {
-  switch (status) {
-    case 'completed':
-      return 'x';
-    case 'closed':
-      return '-';
-    case 'new':
-    default:
-      return ' ';
-  }
+  return STATUS_CHARS[status];
 }
 
 /**
  * Parses checkbox character to task status
  */
 export function parseStatusChar(char: string): TaskStatus {
-  switch (char) {
-    case 'x':
-      return 'completed';
-    case '-':
-      return 'closed';
-    case ' ':
-    default:
-      return 'new';
-  }
+  return TASK_STATUSES.find(status => STATUS_CHARS[status] === char) ?? 'new';
+}
+
+/**
+ * Checks if a checkbox character stands for a known status
+ */
+export function isStatusChar(char: string): boolean {
+  return Object.values(STATUS_CHARS).includes(char);
 }
 
 /**
@@ -53,20 +83,21 @@ export function isFinishedStatus(status: TaskStatus): boolean {
  * Gets display string for status with icon
  */
 export function getStatusDisplay(status: TaskStatus): string {
-  switch (status) {
-    case 'completed':
-      return 'completed [x]';
-    case 'closed':
-      return 'closed [-]';
-    case 'new':
-    default:
-      return 'new [ ]';
-  }
+  return `${status.replace('_', ' ')} [${getStatusChar(status)}]`;
 }
 
 /**
  * Validates that a string is a valid task status
  */
 export function isValidStatus(status: string): status is TaskStatus {
-  return status === 'new' || status === 'completed' || status === 'closed';
+  return (TASK_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Lists the statuses available in a workspace with the given optional statuses enabled
+ */
+export function getEnabledStatuses(extraStatuses: readonly OptionalTaskStatus[]): TaskStatus[] {
+  return TASK_STATUSES.filter(status =>
+    !(OPTIONAL_TASK_STATUSES as readonly string[]).includes(status) ||
+    (extraStatuses as readonly string[]).includes(status));
 }
@@ -0,0 +1,72 @@
+/**
+ * Task tag utilities
+ * Tags are words in a task's visible text starting with `#` for projects or
+ * `@` for contexts, e.g. `- [ ] Renew certificates #infra @office`.
+ */
+
+import { z } from 'zod';
+
+const TAG_BODY = '[A-Za-z][\\w-]*';
+
+/**
+ * Regular expression source for a run of tags, each preceded by whitespace
+ */
+export const TAG_RUN_SOURCE = `(?:\\s+[#@]${TAG_BODY})*`;
+
+export const tagFilterParameter = z.array(z.string()).optional()
+  .describe('Only include tasks carrying all of these tags, e.g. ["#infra", "@home"]');
+
+const TAG_PATTERN = new RegExp(`(^|\\s)([#@]${TAG_BODY})(?=\\s|$)`, 'g');
+
+/**
+ * Lists the tags in a task text in order of appearance, without duplicates
+ */
+export function parseTags(text: string): string[] {
+  const tags = [...text.matchAll(TAG_PATTERN)].map(match => match[2]);
+
+  return tags.filter((tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+}
+
+/**
+ * Adds the `#` prefix to bare tag names and checks the result is a valid tag
+ */
+export function normalizeTag(tag: string): string {
+  const trimmed = tag.trim();
+  const normalized = /^[#@]/.test(trimmed) ? trimmed : `#${trimmed}`;
+
+  if (!new RegExp(`^[#@]${TAG_BODY}$`).test(normalized)) {
+    throw new Error(`Invalid tag "${tag}": tags start with a letter and contain only letters, digits, "-" and "_"`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Replaces the tags in a task text, appending the new ones at the end
+ */
+export function setTags(text: string, tags: string[]): string {
+  const untagged = text.replace(TAG_PATTERN, '$1').replace(/\s+/g, ' ').trim();
+  const newTags = parseTags(tags.map(normalizeTag).join(' '));
+
+  return [untagged, ...newTags].join(' ');
+}
+
+/**
+ * Appends the given tags to a task text, skipping tags it already carries
+ */
+export function addTags(text: string, tags: string[]): string {
+  const existing = parseTags(text).map(tag => tag.toLowerCase());
+  const newTags = parseTags(tags.map(normalizeTag).join(' '))
+    .filter(tag => !existing.includes(tag.toLowerCase()));
+
+  return [text, ...newTags].join(' ');
+}
+
+/**
+ * Checks that a task text carries every one of the given tags, ignoring case
+ */
+export function hasAllTags(text: string, tags: string[]): boolean {
+  const taskTags = parseTags(text).map(tag => tag.toLowerCase());
+
+  return tags.every(tag => taskTags.includes(normalizeTag(tag).toLowerCase()));
+}
@@ -0,0 +1,92 @@
+/* global process setTimeout NodeJS */
+import { closeSync, openSync, readFileSync, unlinkSync, writeSync } from 'fs';
+import { join } from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { getWorkingDirectory, LOCK_FILE_NAME } from '../config';
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 25;
+
+// Workspace directories locked by the operation currently running, so nested operations do not wait on themselves
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+
+    return true;
+  } catch (error) {
+    // The process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// A lock left behind by a process that crashed would otherwise block the workspace forever
+function removeStaleLock(lockPath: string): void {
+  try {
+    const pid = Number(readFileSync(lockPath, 'utf-8'));
+
+    if (Number.isInteger(pid) && pid > 0 && !isProcessAlive(pid)) {
+      unlinkSync(lockPath);
+    }
+  } catch {
+    // Released or removed by another process in the meantime
+  }
+}
+
+function tryAcquireLock(lockPath: string): boolean {
+  try {
+    const fd = openSync(lockPath, 'wx');
+
+    writeSync(fd, String(process.pid));
+    closeSync(fd);
+
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+
+    removeStaleLock(lockPath);
+
+    return false;
+  }
+}
+
+async function acquireLock(lockPath: string, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!tryAcquireLock(lockPath)) {
+    if (Date.now() >= deadline) {
+      throw new Error(`The workspace is locked by another operation (${lockPath}). Try again later.`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Runs an operation while holding the active workspace's lock file, waiting for
+ * other processes and sessions to finish their changes first
+ */
+export async function withWorkspaceLock<T>(
+  operation: () => Promise<T>,
+  timeoutMs = LOCK_TIMEOUT_MS,
+): Promise<T> {
+  const directory = getWorkingDirectory();
+  const held = heldLocks.getStore() ?? new Set<string>();
+
+  if (held.has(directory)) {
+    return operation();
+  }
+
+  const lockPath = join(directory, LOCK_FILE_NAME);
+
+  await acquireLock(lockPath, timeoutMs);
+
+  try {
+    return await heldLocks.run(new Set([...held, directory]), operation);
+  } finally {
+    unlinkSync(lockPath);
+  }
+}
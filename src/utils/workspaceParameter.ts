@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { runInWorkspace } from '../config';
+import { createErrorResponse, type MCPResponse } from './responses';
+
+export interface ToolModule<Args> {
+  name: string;
+  config: {
+    title: string;
+    description: string;
+    inputSchema: z.ZodRawShape;
+  };
+  // eslint-disable-next-line no-unused-vars
+  handler(args: Args): MCPResponse | Promise<MCPResponse>;
+}
+
+export const workspaceParameter = z.string().optional()
+  .describe('Name of the workspace to use (see list_workspaces); defaults to the default workspace');
+
+/**
+ * Adds an optional `workspace` parameter to a tool and runs its handler inside that workspace
+ */
+export function withWorkspaceParameter<Args extends object>(
+  tool: ToolModule<Args>,
+): ToolModule<Args & { workspace?: string }> {
+  return {
+    name: tool.name,
+    config: {
+      ...tool.config,
+      inputSchema: { ...tool.config.inputSchema, workspace: workspaceParameter },
+    },
+    handler: async({ workspace, ...args }) => {
+      try {
+        return await runInWorkspace(workspace, () => tool.handler(args as Args));
+      } catch (error) {
+        return createErrorResponse('selecting workspace', error);
+      }
+    },
+  };
+}
@@ -1,5 +1,17 @@
-import { describe, it, expect, beforeEach } from 'bun:test';
-import { setWorkingDirectory, getFilePath } from 'src/config';
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import {
+  setWorkingDirectory,
+  getFilePath,
+  loadWorkspaceConfig,
+  getWorkspaceConfig,
+  addWorkspace,
+  getWorkspaces,
+  getWorkspaceName,
+  getWorkingDirectory,
+  runInWorkspace,
+} from 'src/config';
 
 describe('getFilePath', () => {
   beforeEach(() => {
@@ -40,3 +52,159 @@ describe('getFilePath', () => {
     expect(getFilePath('current')).toBe('workspace/current.md');
   });
 });
+
+describe('workspace configuration', () => {
+  const testDir = '/tmp/mcp-tasks-test-config';
+  const configPath = join(testDir, '.mcp-tasks.json');
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should use defaults when no configuration file exists', () => {
+    expect(loadWorkspaceConfig()).toEqual({
+      week: { startDay: 'monday', cutoverDay: 'thursday', timezone: 'UTC' },
+      files: { current: 'current.md', backlog: 'backlog.md', archive: 'archive.md' },
+      sections: { thisWeek: 'This Week', nextWeek: 'Next Week', backlog: 'Backlog', archive: 'Archive' },
+      backlogDateLabel: 'added on',
+      git: { name: 'MCP Tasks Server', email: 'mcp-tasks@example.com' },
+      extraStatuses: ['in_progress', 'blocked', 'deferred'],
+    });
+  });
+
+  it('should reject unknown extra statuses', () => {
+    writeFileSync(configPath, JSON.stringify({ extraStatuses: ['new'] }));
+
+    expect(() => loadWorkspaceConfig()).toThrow('extraStatuses.0');
+  });
+
+  it('should merge configured values with defaults', () => {
+    writeFileSync(configPath, JSON.stringify({ week: { startDay: 'sunday', timezone: 'Europe/Berlin' } }));
+
+    expect(loadWorkspaceConfig().week).toEqual({
+      startDay: 'sunday',
+      cutoverDay: 'thursday',
+      timezone: 'Europe/Berlin',
+    });
+  });
+
+  it('should reject invalid JSON', () => {
+    writeFileSync(configPath, '{ week: ');
+
+    expect(() => loadWorkspaceConfig()).toThrow('Invalid .mcp-tasks.json:');
+  });
+
+  it('should report invalid week days with their path', () => {
+    writeFileSync(configPath, JSON.stringify({ week: { startDay: 'funday' } }));
+
+    expect(() => loadWorkspaceConfig()).toThrow('Invalid .mcp-tasks.json: week.startDay:');
+  });
+
+  it('should reject unknown timezones', () => {
+    writeFileSync(configPath, JSON.stringify({ week: { timezone: 'Mars/Olympus' } }));
+
+    expect(() => loadWorkspaceConfig()).toThrow('week.timezone: Unknown timezone');
+  });
+
+  it('should reject unknown keys', () => {
+    writeFileSync(configPath, JSON.stringify({ weeks: {} }));
+
+    expect(() => loadWorkspaceConfig()).toThrow('Invalid .mcp-tasks.json:');
+  });
+
+  it('should use configured file names for file paths', () => {
+    writeFileSync(configPath, JSON.stringify({ files: { current: 'now.md' } }));
+
+    expect(getFilePath('current')).toBe(join(testDir, 'now.md'));
+    expect(getFilePath('backlog')).toBe(join(testDir, 'backlog.md'));
+  });
+
+  it('should reject file names containing directories', () => {
+    writeFileSync(configPath, JSON.stringify({ files: { archive: '../archive.md' } }));
+
+    expect(() => loadWorkspaceConfig()).toThrow('files.archive: Must be a file name without directories');
+  });
+
+  it('should reject duplicate file names', () => {
+    writeFileSync(configPath, JSON.stringify({ files: { backlog: 'current.md' } }));
+
+    expect(() => loadWorkspaceConfig()).toThrow('files: File names must be distinct');
+  });
+
+  it('should reject empty section titles', () => {
+    writeFileSync(configPath, JSON.stringify({ sections: { backlog: '  ' } }));
+
+    expect(() => loadWorkspaceConfig()).toThrow('sections.backlog:');
+  });
+
+  it('should reject identical week section titles', () => {
+    writeFileSync(configPath, JSON.stringify({ sections: { thisWeek: 'Now', nextWeek: 'Now' } }));
+
+    expect(() => loadWorkspaceConfig()).toThrow('This week and next week sections must have different titles');
+  });
+
+  it('should cache the configuration until the working directory changes', () => {
+    expect(getWorkspaceConfig().week.startDay).toBe('monday');
+
+    writeFileSync(configPath, JSON.stringify({ week: { startDay: 'sunday' } }));
+    expect(getWorkspaceConfig().week.startDay).toBe('monday');
+
+    setWorkingDirectory(testDir);
+    expect(getWorkspaceConfig().week.startDay).toBe('sunday');
+  });
+});
+
+describe('named workspaces', () => {
+  beforeEach(() => {
+    setWorkingDirectory('/tmp/workspaces-default');
+    addWorkspace('team', '/tmp/workspaces-team');
+  });
+
+  it('should use the default workspace outside runInWorkspace', () => {
+    expect(getWorkspaceName()).toBe('default');
+    expect(getWorkingDirectory()).toBe('/tmp/workspaces-default');
+  });
+
+  it('should switch workspaces for the duration of an operation', () => {
+    const directory = runInWorkspace('team', () => getWorkingDirectory());
+
+    expect(directory).toBe('/tmp/workspaces-team');
+    expect(getWorkingDirectory()).toBe('/tmp/workspaces-default');
+  });
+
+  it('should keep the workspace across awaits', async() => {
+    const directory = await runInWorkspace('team', async() => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+
+      return getFilePath('current');
+    });
+
+    expect(directory).toBe('/tmp/workspaces-team/current.md');
+  });
+
+  it('should use the default workspace when no name is given', () => {
+    expect(runInWorkspace(undefined, () => getWorkspaceName())).toBe('default');
+  });
+
+  it('should reject unknown workspaces', () => {
+    expect(() => runInWorkspace('missing', () => null)).toThrow('Unknown workspace "missing". Available workspaces:');
+  });
+
+  it('should reject invalid workspace names', () => {
+    expect(() => addWorkspace('my team', '/tmp/x')).toThrow('Invalid workspace name "my team"');
+  });
+
+  it('should list registered workspaces', () => {
+    expect(getWorkspaces()).toContainEqual({ name: 'team', directory: '/tmp/workspaces-team' });
+  });
+});
@@ -0,0 +1,224 @@
+/* global fetch */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { setWorkingDirectory } from 'src/config';
+import { startHttpServer, MAX_BODY_BYTES, type HttpServerHandle } from 'src/httpServer';
+
+describe('startHttpServer', () => {
+  const testDir = '/tmp/mcp-tasks-test-httpserver';
+  let httpServer: HttpServerHandle;
+  const clients: Client[] = [];
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } },
+  };
+
+  async function connectClient(): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+
+    await client.connect(new StreamableHTTPClientTransport(new URL(httpServer.url)));
+    clients.push(client);
+
+    return client;
+  }
+
+  beforeEach(async() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Shared task\n\n# Next Week\n');
+
+    httpServer = await startHttpServer({ host: '127.0.0.1', port: 0 });
+  });
+
+  afterEach(async() => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    await httpServer.close();
+
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should listen on the requested host with an ephemeral port', () => {
+    expect(httpServer.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+  });
+
+  it('should serve tools to a client', async() => {
+    const client = await connectClient();
+    const result = await client.callTool({ name: 'get_current_tasks', arguments: {} });
+
+    expect(result.content).toContainEqual({ type: 'text', text: expect.stringContaining('Shared task') });
+  });
+
+  it('should give concurrent clients separate sessions on the same task list', async() => {
+    const [first, second] = await Promise.all([connectClient(), connectClient()]);
+    const [firstResult, secondResult] = await Promise.all([
+      first.callTool({ name: 'get_current_tasks', arguments: {} }),
+      second.callTool({ name: 'get_current_tasks', arguments: {} }),
+    ]);
+
+    expect(firstResult.content).toEqual(secondResult.content);
+  });
+
+  it('should reject requests without a session that are not initialize requests', async() => {
+    const response = await fetch(httpServer.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain('No valid session ID');
+  });
+
+  it('should reject requests with a foreign Host header', async() => {
+    const response = await fetch(httpServer.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Host: 'attacker.example:80',
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error.message).toBe('Invalid Host header: attacker.example:80');
+  });
+
+  it('should reject requests from foreign origins', async() => {
+    const response = await fetch(httpServer.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Origin: 'http://attacker.example',
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error.message).toBe('Invalid Origin header: http://attacker.example');
+  });
+
+  it('should accept the loopback names of a loopback server', async() => {
+    const response = await fetch(httpServer.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Host: `localhost:${new URL(httpServer.url).port}`,
+        Origin: `http://localhost:${new URL(httpServer.url).port}`,
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should accept the local names of a server bound to all interfaces', async() => {
+    const wildcardServer = await startHttpServer({ host: '0.0.0.0', port: 0 });
+    const { port } = new URL(wildcardServer.url);
+
+    try {
+      const responses = await Promise.all([`127.0.0.1:${port}`, `localhost:${port}`, 'attacker.example:80'].map(host =>
+        fetch(`http://127.0.0.1:${port}/mcp`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', Host: host },
+          body: JSON.stringify(initializeRequest),
+        })));
+
+      expect(responses.map(response => response.status)).toEqual([200, 200, 403]);
+    } finally {
+      await wildcardServer.close();
+    }
+  });
+
+  it('should reject unknown session IDs', async() => {
+    const response = await fetch(httpServer.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': 'unknown-session',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject malformed JSON', async() => {
+    const response = await fetch(httpServer.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{ not json',
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('should refuse request bodies above the size limit', async() => {
+    const response = await fetch(httpServer.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { padding: 'x'.repeat(MAX_BODY_BYTES) } }),
+    });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toBe(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  });
+
+  it('should refuse streamed request bodies once they pass the size limit', async() => {
+    const chunk = new TextEncoder().encode('x'.repeat(1024 * 1024));
+    let sentChunks = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sentChunks++ < 5) {
+          controller.enqueue(chunk);
+        } else {
+          controller.close();
+        }
+      },
+    });
+
+    const response = await fetch(httpServer.url, { method: 'POST', body });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should return 404 for other paths', async() => {
+    const response = await fetch(httpServer.url.replace('/mcp', '/other'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should end the session when the client terminates it', async() => {
+    const client = await connectClient();
+    const transport = client.transport as StreamableHTTPClientTransport;
+    const sessionId = transport.sessionId;
+
+    await transport.terminateSession();
+
+    const response = await fetch(httpServer.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': sessionId ?? '',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceUpdatedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { setWorkingDirectory, addWorkspace } from 'src/config';
+import { createServer } from 'src/server';
+import { enableResourceSubscriptions } from 'src/resourceSubscriptions';
+import * as fileOperations from 'src/utils/fileOperations';
+import * as gitUtils from 'src/utils/git';
+
+describe('resource subscriptions', () => {
+  const testDir = '/tmp/mcp-tasks-test-subscriptions';
+  const teamDir = '/tmp/mcp-tasks-test-subscriptions-team';
+  let client: Client;
+  let updates: string[];
+  let listChanges: number;
+
+  function writeWorkspace(dir: string): void {
+    if (existsSync(dir)) {
+      rmSync(dir, { recursive: true });
+    }
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'current.md'), '# This Week\n- [ ] Existing task\n\n# Next Week\n');
+    writeFileSync(join(dir, 'backlog.md'), '# Backlog\n');
+    writeFileSync(join(dir, 'archive.md'), '# Archive\n');
+  }
+
+  async function settle(): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  beforeEach(async() => {
+    writeWorkspace(testDir);
+    writeWorkspace(teamDir);
+    setWorkingDirectory(testDir);
+    addWorkspace('team', teamDir);
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+
+    updates = [];
+    listChanges = 0;
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updates.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanges++;
+    });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async() => {
+    await client.close();
+    mock.restore();
+
+    for (const dir of [testDir, teamDir]) {
+      if (existsSync(dir)) {
+        rmSync(dir, { recursive: true });
+      }
+    }
+  });
+
+  it('should advertise subscription support', () => {
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true });
+  });
+
+  it('should notify subscribers when a tool changes a file', async() => {
+    await client.subscribeResource({ uri: 'file:///current.md' });
+    await client.subscribeResource({ uri: 'file:///backlog.md' });
+
+    await client.callTool({ name: 'add_task', arguments: { task_text: 'New task', target: 'current_week' } });
+    await settle();
+
+    expect(updates).toEqual(['file:///current.md']);
+  });
+
+  it('should not notify after unsubscribing', async() => {
+    await client.subscribeResource({ uri: 'file:///current.md' });
+    await client.unsubscribeResource({ uri: 'file:///current.md' });
+
+    await client.callTool({ name: 'add_task', arguments: { task_text: 'New task', target: 'current_week' } });
+    await settle();
+
+    expect(updates).toEqual([]);
+  });
+
+  it('should notify per-workspace resources of the workspace that changed', async() => {
+    await client.subscribeResource({ uri: 'file:///current.md' });
+    await client.subscribeResource({ uri: 'tasks://workspaces/team/current' });
+
+    await client.callTool({
+      name: 'add_task',
+      arguments: { task_text: 'Team task', target: 'current_week', workspace: 'team' },
+    });
+    await settle();
+
+    expect(updates).toEqual(['tasks://workspaces/team/current']);
+  });
+
+  it('should announce list changes and archive updates when a week is archived', async() => {
+    await client.subscribeResource({ uri: 'tasks://workspaces/default/archive' });
+
+    await client.callTool({ name: 'start_week', arguments: {} });
+    await settle();
+
+    expect(updates).toContain('tasks://workspaces/default/archive');
+    expect(listChanges).toBeGreaterThan(0);
+  });
+
+  it('should stop listening for file changes on close while keeping an existing close handler', async() => {
+    const removeListener = mock(() => {});
+    const previousOnClose = mock(() => {});
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    const [, serverTransport] = InMemoryTransport.createLinkedPair();
+
+    spyOn(fileOperations, 'onFileChange').mockReturnValue(removeListener);
+    server.server.onclose = previousOnClose;
+    enableResourceSubscriptions(server);
+    await server.connect(serverTransport);
+    await server.close();
+
+    expect(removeListener).toHaveBeenCalled();
+    expect(previousOnClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { setWorkingDirectory } from 'src/config';
+import { createServer } from 'src/server';
+
+describe('createServer', () => {
+  const testDir = '/tmp/mcp-tasks-test-server';
+  let client: Client;
+
+  beforeEach(async() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Existing task\n\n# Next Week\n');
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async() => {
+    await client.close();
+
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should register every tool with a workspace parameter except list_workspaces', async() => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toContain('add_task');
+    expect(tools.map(tool => tool.name)).toContain('list_workspaces');
+
+    for (const tool of tools) {
+      const hasWorkspace = Object.keys(tool.inputSchema.properties ?? {}).includes('workspace');
+
+      expect(hasWorkspace).toBe(tool.name !== 'list_workspaces');
+    }
+  });
+
+  it('should match the tool spec', async() => {
+    const spec = JSON.parse(readFileSync(join(import.meta.dir, '..', 'tools-spec.json'), 'utf-8'));
+    const { tools } = await client.listTools();
+    const describeTool = (tool: { name: string; inputSchema: { properties?: object; required?: string[] } }) => ({
+      name: tool.name,
+      parameters: Object.keys(tool.inputSchema.properties ?? {}),
+      required: tool.inputSchema.required ?? [],
+    });
+
+    expect(tools.map(describeTool)).toEqual(spec.tools.map(describeTool));
+  });
+
+  it('should call tools against the working directory', async() => {
+    const result = await client.callTool({ name: 'get_current_tasks', arguments: {} });
+
+    expect(result.content).toContainEqual({ type: 'text', text: expect.stringContaining('Existing task') });
+  });
+
+  it('should serve the current tasks resource', async() => {
+    const result = await client.readResource({ uri: 'file:///current.md' });
+
+    expect(result.contents[0].text).toContain('Existing task');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, existsSync } from 'fs';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/addRecurringTask';
+import { readRecurringTasks } from 'src/utils/recurringTasks';
+import * as gitUtils from 'src/utils/git';
+import * as dateUtils from 'src/utils/dates';
+
+describe('addRecurringTask tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-addrecurringtask';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+    spyOn(dateUtils, 'getCurrentDate').mockReturnValue('2024-01-15');
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('add_recurring_task');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Add Recurring Task',
+        description: expect.stringContaining('Define a task that repeats weekly, every N weeks or monthly'),
+        inputSchema: {
+          task_text: expect.any(Object),
+          frequency: expect.any(Object),
+          interval: expect.any(Object),
+          start_date: expect.any(Object),
+          day_of_month: expect.any(Object),
+          description: expect.any(Object),
+          priority: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should store a weekly task starting this week and commit', async() => {
+      const result = await handler({ task_text: 'Prepare 1:1', frequency: 'weekly' });
+      const [recurringTask] = readRecurringTasks();
+
+      expect(recurringTask).toEqual({
+        id: expect.stringMatching(/^[0-9a-f]{6}$/),
+        text: 'Prepare 1:1',
+        frequency: 'weekly',
+        interval: 1,
+        startDate: '2024-01-15',
+      });
+      expect(result.content[0].text).toBe(`Successfully added recurring task "Prepare 1:1" (weekly) with ID ${recurringTask.id}`);
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Added recurring task: Prepare 1:1 (weekly)');
+    });
+
+    it('should store a monthly task with its details', async() => {
+      await handler({ task_text: 'Pay rent', frequency: 'monthly', day_of_month: 1, description: 'Transfer', priority: 'P1' });
+
+      expect(readRecurringTasks()).toEqual([{
+        id: expect.any(String),
+        text: 'Pay rent',
+        description: 'Transfer',
+        priority: 'P1',
+        frequency: 'monthly',
+        dayOfMonth: 1,
+      }]);
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Added recurring task: Pay rent (monthly on day 1)');
+    });
+
+    it('should reject parameters that do not fit the frequency', async() => {
+      const missingDay = await handler({ task_text: 'Pay rent', frequency: 'monthly' });
+      const weeklyDay = await handler({ task_text: 'Timesheet', frequency: 'weekly', day_of_month: 5 });
+      const monthlyInterval = await handler({ task_text: 'Pay rent', frequency: 'monthly', day_of_month: 1, interval: 2 });
+
+      expect(missingDay.content[0].text).toBe('Error adding recurring task: day_of_month is required for monthly recurring tasks');
+      expect(weeklyDay.content[0].text).toContain('day_of_month only applies to monthly recurring tasks');
+      expect(monthlyInterval.content[0].text).toContain('interval and start_date only apply to weekly recurring tasks');
+      expect(readRecurringTasks()).toEqual([]);
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+  });
+});
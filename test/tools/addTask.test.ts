@@ -5,6 +5,7 @@ import { setWorkingDirectory } from 'src/config';
 import { name, config, handler } from 'src/tools/addTask';
 import * as gitUtils from 'src/utils/git';
 import * as dateUtils from 'src/utils/dates';
+import { getWorkspaceRevision } from 'src/utils/revision';
 
 describe('addTask tool', () => {
   const testDir = '/tmp/mcp-tasks-test-addtask';
@@ -53,17 +54,24 @@ describe('addTask tool', () => {
     it('should export correct config structure', () => {
       expect(config).toEqual({
         title: 'Add Task',
-        description: 'Add a new task to the system',
+        description: 'Add a new task to the system, or a subtask under an existing task. ' +
+          'Returns the task\'s stable ID, which other tools accept as an identifier',
         inputSchema: {
           task_text: expect.any(Object),
           target: expect.any(Object),
+          parent: expect.any(Object),
           description: expect.any(Object),
+          priority: expect.any(Object),
+          tags: expect.any(Object),
+          due_date: expect.any(Object),
+          scheduled_date: expect.any(Object),
+          expected_revision: expect.any(Object),
         },
       });
     });
 
     it('should have proper Zod schema for target enum', () => {
-      expect(config.inputSchema.target._def.values).toEqual(['backlog', 'current_week', 'next_week']);
+      expect(config.inputSchema.target.unwrap()._def.values).toEqual(['backlog', 'current_week', 'next_week']);
     });
 
     it('should have optional description parameter', () => {
@@ -90,12 +98,7 @@ describe('addTask tool', () => {
         expect(gitUtils.commitChanges).toHaveBeenCalledWith('Added task: New current task');
 
         // Verify response
-        expect(result).toEqual({
-          content: [{
-            type: 'text',
-            text: 'Successfully added task "New current task" to This Week',
-          }],
-        });
+        expect(result.content[0].text).toMatch(/^Successfully added task "New current task" to This Week with ID [0-9a-f]{6}$/);
       });
 
       it('should add task to next week', async() => {
@@ -113,12 +116,7 @@ describe('addTask tool', () => {
 
         expect(gitUtils.commitChanges).toHaveBeenCalledWith('Added task: New future task');
 
-        expect(result).toEqual({
-          content: [{
-            type: 'text',
-            text: 'Successfully added task "New future task" to Next Week',
-          }],
-        });
+        expect(result.content[0].text).toMatch(/^Successfully added task "New future task" to Next Week with ID [0-9a-f]{6}$/);
       });
 
       it('should add task to backlog with date', async() => {
@@ -141,12 +139,7 @@ describe('addTask tool', () => {
 
         expect(gitUtils.commitChanges).toHaveBeenCalledWith('Added task: New backlog task');
 
-        expect(result).toEqual({
-          content: [{
-            type: 'text',
-            text: 'Successfully added task "New backlog task" to Backlog',
-          }],
-        });
+        expect(result.content[0].text).toMatch(/^Successfully added task "New backlog task" to Backlog with ID [0-9a-f]{6}$/);
       });
     });
 
@@ -237,6 +230,129 @@ describe('addTask tool', () => {
       });
     });
 
+    describe('task IDs', () => {
+      it('should write the returned ID into the task line', async() => {
+        const result = await handler({
+          task_text: 'Task with ID',
+          target: 'current_week',
+        });
+
+        const taskId = result.content[0].text.match(/with ID ([0-9a-f]{6})$/)?.[1];
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        expect(taskId).toBeDefined();
+        expect(currentContent).toContain(`- [ ] Task with ID <!-- id:${taskId} -->`);
+      });
+
+      it('should place the ID after the backlog date', async() => {
+        await handler({
+          task_text: 'Backlog task with ID',
+          target: 'backlog',
+        });
+
+        const backlogContent = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        expect(backlogContent).toMatch(/- \[ \] Backlog task with ID added on 2024-01-15 <!-- id:[0-9a-f]{6} -->/);
+      });
+
+      it('should generate a different ID for each task', async() => {
+        const first = await handler({ task_text: 'First task', target: 'current_week' });
+        const second = await handler({ task_text: 'Second task', target: 'current_week' });
+
+        expect(first.content[0].text.slice(-6)).not.toBe(second.content[0].text.slice(-6));
+      });
+    });
+
+    describe('tags', () => {
+      it('should add tags before the backlog date', async() => {
+        const result = await handler({ task_text: 'Renew certificates #infra', target: 'backlog', tags: ['infra', '@office'] });
+
+        const backlogContent = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        expect(backlogContent).toMatch(/- \[ \] Renew certificates #infra @office added on 2024-01-15 <!-- id:[0-9a-f]{6} -->/);
+        expect(result.content[0].text).toContain('Successfully added task "Renew certificates #infra @office"');
+      });
+
+      it('should reject invalid tags', async() => {
+        const result = await handler({ task_text: 'Task', target: 'current_week', tags: ['two words'] });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Invalid tag "two words"');
+      });
+    });
+
+    describe('priorities', () => {
+      it('should store the priority after the ID', async() => {
+        await handler({ task_text: 'Urgent task', target: 'current_week', priority: 'P1' });
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        expect(currentContent).toMatch(/- \[ \] Urgent task <!-- id:[0-9a-f]{6} priority:P1 -->/);
+      });
+    });
+
+    describe('due and scheduled dates', () => {
+      it('should store the dates in the task metadata', async() => {
+        await handler({ task_text: 'File taxes', target: 'backlog', due_date: '2024-04-15', scheduled_date: '2024-04-08' });
+
+        const backlogContent = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        expect(backlogContent).toMatch(
+          /- \[ \] File taxes added on 2024-01-15 <!-- id:[0-9a-f]{6} due:2024-04-15 scheduled:2024-04-08 -->/,
+        );
+      });
+
+      it('should only accept calendar dates', () => {
+        expect(config.inputSchema.due_date.safeParse('2024-04-15').success).toBe(true);
+        expect(config.inputSchema.due_date.safeParse('2024-02-30').success).toBe(false);
+        expect(config.inputSchema.due_date.safeParse('next friday').success).toBe(false);
+      });
+    });
+
+    describe('subtasks', () => {
+      it('should add a subtask after the parent\'s description and existing subtasks', async() => {
+        writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Launch site added on 2024-01-01 <!-- id:a1b2c3 -->
+  Marketing site for the spring release
+  - [x] Write copy
+- [ ] Existing backlog task added on 2024-01-01`);
+
+        const result = await handler({ task_text: 'Set up DNS', parent: 'a1b2c3', description: 'Ask ops for access' });
+
+        const backlogContent = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        expect(backlogContent).toMatch(new RegExp(`  - \\[x\\] Write copy
+  - \\[ \\] Set up DNS <!-- id:[0-9a-f]{6} -->
+    Ask ops for access
+- \\[ \\] Existing backlog task`));
+        expect(result.content[0].text).toMatch(
+          /^Successfully added subtask "Set up DNS" to "Launch site added on 2024-01-01" with ID [0-9a-f]{6}$/,
+        );
+        expect(gitUtils.commitChanges).toHaveBeenCalledWith('Added subtask: Set up DNS to Launch site added on 2024-01-01');
+      });
+
+      it('should require exactly one of target or parent', async() => {
+        const neither = await handler({ task_text: 'Orphan' });
+        const both = await handler({ task_text: 'Confused', target: 'current_week', parent: 'Existing current task' });
+
+        expect(neither.content[0].text).toBe('Error adding task: Exactly one of target or parent must be provided');
+        expect(both.content[0].text).toBe('Error adding task: Exactly one of target or parent must be provided');
+        expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+      });
+
+      it('should reject due and scheduled dates on subtasks', async() => {
+        const currentBefore = readFileSync(join(testDir, 'current.md'), 'utf-8');
+        const due = await handler({ task_text: 'Dated step', parent: 'Existing current task', due_date: '2020-01-01' });
+        const scheduled = await handler({ task_text: 'Dated step', parent: 'Existing current task', scheduled_date: '2020-01-01' });
+
+        expect(due.content[0].text)
+          .toBe('Error adding task: Subtasks cannot have a due_date or scheduled_date; date the parent task instead');
+        expect(scheduled.isError).toBe(true);
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe(currentBefore);
+        expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+      });
+    });
+
     describe('error scenarios', () => {
       it('should handle git commit failure', async() => {
         gitUtils.commitChanges.mockRejectedValueOnce(new Error('Git commit failed'));
@@ -417,4 +533,49 @@ describe('addTask tool', () => {
       });
     });
   });
+
+  describe('expected revision', () => {
+    it('should add the task when the revision is current', async() => {
+      const result = await handler({
+        task_text: 'Checked task',
+        target: 'backlog',
+        expected_revision: getWorkspaceRevision(),
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toContain('Checked task');
+    });
+
+    it('should reject the change when the tasks changed since the revision', async() => {
+      const revision = getWorkspaceRevision();
+
+      writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n- [ ] Added elsewhere');
+
+      const result = await handler({ task_text: 'Stale task', target: 'backlog', expected_revision: revision });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Revision conflict');
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).not.toContain('Stale task');
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('workspace configuration', () => {
+    it('should use configured section titles and date label', async() => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), JSON.stringify({
+        sections: { thisWeek: 'Now', backlog: 'Someday' },
+        backlogDateLabel: 'created',
+      }));
+      writeFileSync(join(testDir, 'current.md'), '# Now\n\n# Next Week\n');
+      writeFileSync(join(testDir, 'backlog.md'), '# Someday\n');
+      setWorkingDirectory(testDir);
+
+      await handler({ task_text: 'Current task', target: 'current_week' });
+      const result = await handler({ task_text: 'Later task', target: 'backlog' });
+
+      expect(result.content[0].text).toContain('to Someday with ID');
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toMatch(/^# Now\n- \[ \] Current task <!-- id:/);
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toContain('- [ ] Later task created 2024-01-15');
+    });
+  });
 });
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/addTaskDependency';
+import * as gitUtils from 'src/utils/git';
+
+describe('addTaskDependency tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-addtaskdependency';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Write migration <!-- id:bbb222 -->
+- [ ] Deploy release <!-- id:ccc333 blocked_by:bbb222 -->
+  Friday afternoon
+
+# Next Week
+- [ ] Announce release`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Review migration added on 2024-01-05`);
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('add_task_dependency');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Add Task Dependency',
+        description: expect.stringContaining('Declare that a task is blocked by another task'),
+        inputSchema: {
+          task_identifier: expect.any(Object),
+          blocked_by: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should add the prerequisite to the task and commit', async() => {
+      const result = await handler({ task_identifier: 'Announce', blocked_by: 'ccc333' });
+
+      expect(result.content[0].text).toBe('Successfully marked task "Announce release" as blocked by "Deploy release" (ccc333)');
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [ ] Announce release <!-- blocked_by:ccc333 -->');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Added dependency: Announce release blocked by Deploy release');
+    });
+
+    it('should keep existing prerequisites and give a prerequisite without an ID one', async() => {
+      await handler({ task_identifier: 'Deploy', blocked_by: 'Review migration' });
+
+      const backlogContent = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+      const newId = backlogContent.match(/<!-- id:([0-9a-f]{6}) -->/)?.[1];
+
+      expect(newId).toBeDefined();
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8'))
+        .toContain(`- [ ] Deploy release <!-- id:ccc333 blocked_by:bbb222,${newId} -->\n  Friday afternoon`);
+    });
+
+    it('should not change anything when the dependency already exists', async() => {
+      const result = await handler({ task_identifier: 'Deploy', blocked_by: 'Write migration' });
+
+      expect(result.content[0].text).toBe('Task "Deploy release" is already blocked by "Write migration"');
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+
+    it('should reject dependencies that would create a cycle', async() => {
+      const result = await handler({ task_identifier: 'Write migration', blocked_by: 'Deploy' });
+
+      expect(result).toEqual({
+        content: [{
+          type: 'text',
+          text: 'Error adding task dependency: Task "Deploy release" already depends on "Write migration", so it cannot block it',
+        }],
+        isError: true,
+      });
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+
+    it('should reject a task blocking itself', async() => {
+      const result = await handler({ task_identifier: 'Announce', blocked_by: 'Announce' });
+
+      expect(result.content[0].text).toBe('Error adding task dependency: Task "Announce release" cannot be blocked by itself');
+    });
+
+    it('should reject a stale revision', async() => {
+      const result = await handler({ task_identifier: 'Announce', blocked_by: 'ccc333', expected_revision: 'stale' });
+
+      expect(result.isError).toBe(true);
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import * as fs from 'fs';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/batch';
+import * as gitUtils from 'src/utils/git';
+import * as dateUtils from 'src/utils/dates';
+import { getWorkspaceRevision } from 'src/utils/revision';
+
+describe('batch tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-batch';
+  const initialCurrent = `# This Week
+- [ ] Write report <!-- id:aaa111 -->
+- [ ] Review budget <!-- id:bbb222 -->
+  Check the travel costs
+
+# Next Week
+- [ ] Plan offsite <!-- id:ccc333 -->`;
+  const initialBacklog = `# Backlog
+- [ ] Upgrade database added on 2024-01-05 <!-- id:ddd444 -->`;
+
+  const readCurrent = () => readFileSync(join(testDir, 'current.md'), 'utf-8');
+  const readBacklog = () => readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), initialCurrent);
+    writeFileSync(join(testDir, 'backlog.md'), initialBacklog);
+    writeFileSync(join(testDir, 'archive.md'), '# Archive\n');
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+    spyOn(dateUtils, 'getCurrentDate').mockReturnValue('2024-01-15');
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('batch');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Batch',
+        description: expect.stringContaining('as one transaction with a single commit'),
+        inputSchema: {
+          operations: expect.any(Object),
+          stop_on_error: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
+      });
+    });
+
+    it('should accept set_status operations', () => {
+      const result = config.inputSchema.operations.safeParse([
+        { type: 'set_status', task_identifier: 'aaa111', status: 'in_progress' },
+      ]);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown operation types', () => {
+      const result = config.inputSchema.operations.safeParse([{ type: 'rename', task_identifier: 'aaa111' }]);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('handler function', () => {
+    it('should apply every operation with a single commit', async() => {
+      const result = await handler({
+        operations: [
+          { type: 'finish', task_identifier: 'aaa111', status: 'completed' },
+          { type: 'move', task_identifier: 'ccc333', destination: 'current_week' },
+          { type: 'edit', task_identifier: 'bbb222', new_description: 'Check hotel costs' },
+          { type: 'add', task_text: 'Book venue', target: 'next_week' },
+          { type: 'delete', task_identifier: 'ddd444' },
+        ],
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.structuredContent).toEqual({
+        committed: true,
+        revision: getWorkspaceRevision(),
+        results: [
+          { index: 0, type: 'finish', status: 'applied', message: 'Successfully marked task "Write report" as completed [x]' },
+          { index: 1, type: 'move', status: 'applied', message: 'Successfully moved task "Plan offsite" from next week to current week' },
+          { index: 2, type: 'edit', status: 'applied', message: 'Successfully updated task "Review budget" - Updated description' },
+          { index: 3, type: 'add', status: 'applied', message: expect.stringContaining('Successfully added task "Book venue"') },
+          { index: 4, type: 'delete', status: 'applied', message: 'Successfully deleted task "Upgrade database added on 2024-01-05" from Backlog' },
+        ],
+      });
+
+      expect(readCurrent()).toContain('- [x] Write report <!-- id:aaa111 -->');
+      expect(readCurrent()).toContain('  Check hotel costs');
+      expect(readCurrent()).toMatch(/# This Week[^#]*Plan offsite/);
+      expect(readCurrent()).toMatch(/# Next Week\n- \[ \] Book venue <!-- id:/);
+      expect(readBacklog()).not.toContain('Upgrade database');
+
+      expect(gitUtils.commitChanges).toHaveBeenCalledTimes(1);
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith(expect.stringMatching(/^Batch of 5 operations\n\n- Completed task: Write report\n/));
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith(expect.stringContaining(
+        '- Deleted task: Upgrade database added on 2024-01-05\n  Removed from Backlog in backlog.md:\n  - [ ] Upgrade database',
+      ));
+    });
+
+    it('should let later operations see the changes of earlier ones', async() => {
+      const result = await handler({
+        operations: [
+          { type: 'add', task_text: 'Draft agenda', target: 'backlog' },
+          { type: 'move', task_identifier: 'Draft agenda', destination: 'current_week' },
+        ],
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(readBacklog()).not.toContain('Draft agenda');
+      expect(readCurrent()).toMatch(/# This Week[^#]*- \[ \] Draft agenda <!-- id:/);
+    });
+
+    it('should use the operation commit message when only one operation changes anything', async() => {
+      await handler({
+        operations: [
+          { type: 'finish', task_identifier: 'aaa111', status: 'completed' },
+          { type: 'move', task_identifier: 'ccc333', destination: 'next_week' },
+        ],
+      });
+
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Completed task: Write report');
+    });
+
+    it('should not commit when no operation changes anything', async() => {
+      const result = await handler({
+        operations: [{ type: 'move', task_identifier: 'ccc333', destination: 'next_week' }],
+      });
+
+      expect(result.structuredContent).toMatchObject({ committed: false });
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failures', () => {
+    const operations = [
+      { type: 'finish' as const, task_identifier: 'aaa111', status: 'completed' as const },
+      { type: 'move' as const, task_identifier: 'missing task', destination: 'backlog' as const },
+      { type: 'delete' as const, task_identifier: 'ccc333' },
+    ];
+
+    it('should abort the whole batch on the first failure by default', async() => {
+      const result = await handler({ operations });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toEqual({
+        committed: false,
+        results: [
+          { index: 0, type: 'finish', status: 'applied', message: 'Successfully marked task "Write report" as completed [x]' },
+          { index: 1, type: 'move', status: 'failed', message: expect.stringContaining('No matching tasks found for "missing task"') },
+          { index: 2, type: 'delete', status: 'skipped', message: 'Not applied because an earlier operation failed' },
+        ],
+      });
+      expect(readCurrent()).toBe(initialCurrent);
+      expect(readBacklog()).toBe(initialBacklog);
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+
+    it('should skip failed operations and commit the rest when stop_on_error is false', async() => {
+      const result = await handler({ operations, stop_on_error: false });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.structuredContent).toMatchObject({
+        committed: true,
+        results: [
+          { index: 0, status: 'applied' },
+          { index: 1, status: 'failed' },
+          { index: 2, status: 'applied' },
+        ],
+      });
+      expect(readCurrent()).toContain('- [x] Write report');
+      expect(readCurrent()).not.toContain('Plan offsite');
+      expect(gitUtils.commitChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should discard the partial changes of a failed operation', async() => {
+      writeFileSync(join(testDir, 'backlog.md'), '# Someday\n');
+
+      const result = await handler({
+        operations: [{ type: 'move', task_identifier: 'aaa111', destination: 'backlog' }],
+        stop_on_error: false,
+      });
+
+      expect(result.structuredContent).toMatchObject({ committed: false, results: [{ status: 'failed' }] });
+      expect(readCurrent()).toBe(initialCurrent);
+    });
+
+    it('should report a failure to write the files instead of the operation results', async() => {
+      spyOn(fs, 'renameSync').mockImplementation(() => {
+        throw new Error('Disk full');
+      });
+
+      const result = await handler({ operations, stop_on_error: false });
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Error applying batch: Disk full' }],
+        isError: true,
+      });
+      expect(readCurrent()).toBe(initialCurrent);
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+
+    it('should reject a stale revision', async() => {
+      const result = await handler({ operations, expected_revision: 'stale1234567' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error applying batch: Revision conflict');
+      expect(readCurrent()).toBe(initialCurrent);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/deleteTask';
+import * as gitUtils from 'src/utils/git';
+
+describe('deleteTask tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-deletetask';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Typo task <!-- id:a1b2c3 -->
+- [ ] Task with description
+  First description line
+  Second description line
+- [ ] Last task
+
+# Next Week
+- [ ] Future task`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Backlog task added on 2024-01-01`);
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('delete_task');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Delete Task',
+        description: expect.stringContaining('Permanently remove a task'),
+        inputSchema: {
+          task_identifier: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should remove the task by ID and commit', async() => {
+      const result = await handler({ task_identifier: 'a1b2c3' });
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Successfully deleted task "Typo task" from This Week' }],
+      });
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).not.toContain('Typo task');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith(
+        'Deleted task: Typo task\n\nRemoved from This Week in current.md:\n- [ ] Typo task <!-- id:a1b2c3 -->',
+      );
+    });
+
+    it('should remove the description and record it in the commit message', async() => {
+      await handler({ task_identifier: 'Task with description' });
+
+      const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+      expect(currentContent).not.toContain('description line');
+      expect(currentContent).toContain('- [ ] Typo task <!-- id:a1b2c3 -->\n- [ ] Last task');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith(
+        'Deleted task: Task with description\n\nRemoved from This Week in current.md:\n' +
+        '- [ ] Task with description\n  First description line\n  Second description line',
+      );
+    });
+
+    it('should remove backlog tasks', async() => {
+      await handler({ task_identifier: 'Backlog task' });
+
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe('# Backlog');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith(expect.stringContaining('Removed from Backlog in backlog.md'));
+    });
+
+    it('should handle task not found', async() => {
+      const result = await handler({ task_identifier: 'Nonexistent task' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error deleting task: No matching tasks found');
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+
+    it('should handle ambiguous task identifier', async() => {
+      const result = await handler({ task_identifier: 'task' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Multiple matches found');
+    });
+
+    it('should reject a stale revision', async() => {
+      const result = await handler({ task_identifier: 'a1b2c3', expected_revision: 'stale1234567' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Revision conflict');
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('Typo task');
+    });
+  });
+});
@@ -58,11 +58,16 @@ describe('editTask tool', () => {
     it('should export correct config structure', () => {
       expect(config).toEqual({
         title: 'Edit Task',
-        description: 'Modify an existing task\'s text or description',
+        description: 'Modify an existing task\'s text, description, priority, tags, due date or scheduled date',
         inputSchema: {
           task_identifier: expect.any(Object),
           new_text: expect.any(Object),
           new_description: expect.any(Object),
+          new_priority: expect.any(Object),
+          new_tags: expect.any(Object),
+          new_due_date: expect.any(Object),
+          new_scheduled_date: expect.any(Object),
+          expected_revision: expect.any(Object),
         },
       });
     });
@@ -81,7 +86,9 @@ describe('editTask tool', () => {
         });
 
         expect(result.isError).toBe(true);
-        expect(result.content[0].text).toContain('At least one of new_text or new_description must be provided');
+        expect(result.content[0].text).toContain(
+          'At least one of new_text, new_description, new_priority, new_tags, new_due_date or new_scheduled_date must be provided',
+        );
       });
 
       it('should reject empty new_text when no new_description provided', async() => {
@@ -91,7 +98,9 @@ describe('editTask tool', () => {
         });
 
         expect(result.isError).toBe(true);
-        expect(result.content[0].text).toContain('At least one of new_text or new_description must be provided');
+        expect(result.content[0].text).toContain(
+          'At least one of new_text, new_description, new_priority, new_tags, new_due_date or new_scheduled_date must be provided',
+        );
       });
 
       it('should accept empty new_text when new_description is provided', async() => {
@@ -197,6 +206,90 @@ describe('editTask tool', () => {
       });
     });
 
+    describe('task IDs', () => {
+      it('should find a task by ID and keep the ID when its text changes', async() => {
+        writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Identified task added on 2024-01-01 <!-- id:a1b2c3 -->`);
+
+        await handler({
+          task_identifier: 'a1b2c3',
+          new_text: 'Renamed task',
+        });
+
+        const backlogContent = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        expect(backlogContent).toContain('- [ ] Renamed task added on 2024-01-01 <!-- id:a1b2c3 -->');
+        expect(gitUtils.commitChanges).toHaveBeenCalledWith('Edited task: Identified task added on 2024-01-01 - Updated text');
+      });
+    });
+
+    describe('tags', () => {
+      it('should replace the tags of a backlog task while keeping its date', async() => {
+        writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n- [ ] Tagged task #old added on 2024-01-01 <!-- id:a1b2c3 -->');
+
+        const result = await handler({ task_identifier: 'a1b2c3', new_tags: ['#infra', '@home'] });
+
+        expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toContain(
+          '- [ ] Tagged task #infra @home added on 2024-01-01 <!-- id:a1b2c3 -->',
+        );
+        expect(result.content[0].text).toBe('Successfully updated task "Tagged task #old added on 2024-01-01" - Updated tags');
+      });
+
+      it('should apply new tags to new text', async() => {
+        await handler({ task_identifier: 'Simple task', new_text: 'Renamed task', new_tags: [] });
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [ ] Renamed task\n');
+        expect(gitUtils.commitChanges).toHaveBeenCalledWith('Edited task: Simple task - Updated text and tags (cleared)');
+      });
+    });
+
+    describe('priorities', () => {
+      it('should set the priority while keeping the ID', async() => {
+        writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Identified task <!-- id:a1b2c3 -->\n\n# Next Week\n');
+
+        const result = await handler({ task_identifier: 'a1b2c3', new_priority: 'P2' });
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [ ] Identified task <!-- id:a1b2c3 priority:P2 -->');
+        expect(result.content[0].text).toBe('Successfully updated task "Identified task" - Updated priority (P2)');
+      });
+
+      it('should clear the priority', async() => {
+        writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Urgent task <!-- priority:P1 -->\n\n# Next Week\n');
+
+        const result = await handler({ task_identifier: 'Urgent task', new_priority: 'none' });
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [ ] Urgent task\n');
+        expect(gitUtils.commitChanges).toHaveBeenCalledWith('Edited task: Urgent task - Updated priority (cleared)');
+        expect(result.isError).toBeUndefined();
+      });
+    });
+
+    describe('due and scheduled dates', () => {
+      it('should set both dates alongside the existing metadata', async() => {
+        writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Dated task <!-- id:a1b2c3 -->\n\n# Next Week\n');
+
+        const result = await handler({ task_identifier: 'a1b2c3', new_due_date: '2024-01-19', new_scheduled_date: '2024-01-17' });
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain(
+          '- [ ] Dated task <!-- id:a1b2c3 due:2024-01-19 scheduled:2024-01-17 -->',
+        );
+        expect(result.content[0].text).toBe(
+          'Successfully updated task "Dated task" - Updated due date (2024-01-19) and scheduled date (2024-01-17)',
+        );
+      });
+
+      it('should clear the due date of a backlog task', async() => {
+        writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n- [ ] Dated task added on 2024-01-01 <!-- due:2024-02-01 priority:P2 -->');
+
+        await handler({ task_identifier: 'Dated task', new_due_date: 'none' });
+
+        expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toContain(
+          '- [ ] Dated task added on 2024-01-01 <!-- priority:P2 -->',
+        );
+        expect(gitUtils.commitChanges).toHaveBeenCalledWith('Edited task: Dated task added on 2024-01-01 - Updated due date (cleared)');
+      });
+    });
+
     describe('description updates', () => {
       it('should add description to task without one', async() => {
         const result = await handler({
@@ -55,10 +55,12 @@ describe('finishTask tool', () => {
     it('should export correct config structure', () => {
       expect(config).toEqual({
         title: 'Finish Task',
-        description: 'Mark a task as completed or closed',
+        description: 'Mark a task or subtask as completed or closed. Warns when completing a task with open prerequisites ' +
+          'and lists the tasks that finishing it unblocks',
         inputSchema: {
           task_identifier: expect.any(Object),
           status: expect.any(Object),
+          expected_revision: expect.any(Object),
         },
       });
     });
@@ -157,6 +159,85 @@ describe('finishTask tool', () => {
       });
     });
 
+    describe('subtasks', () => {
+      beforeEach(() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Plan trip <!-- id:a1b2c3 -->
+  Summer holiday
+  - [ ] Book flights
+  - [ ] Book hotel
+    Near the beach`);
+      });
+
+      it('should mark a subtask as completed', async() => {
+        const result = await handler({
+          task_identifier: 'Book hotel',
+          status: 'completed',
+        });
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        expect(currentContent).toBe(`# This Week
+- [ ] Plan trip <!-- id:a1b2c3 -->
+  Summer holiday
+  - [ ] Book flights
+  - [x] Book hotel
+    Near the beach`);
+        expect(gitUtils.commitChanges).toHaveBeenCalledWith('Completed subtask: Book hotel of Plan trip');
+        expect(result).toEqual({
+          content: [{
+            type: 'text',
+            text: 'Successfully marked subtask "Book hotel" of "Plan trip" as completed [x]',
+          }],
+        });
+      });
+
+      it('should leave the parent task unchanged when closing a subtask', async() => {
+        await handler({
+          task_identifier: 'Book flights',
+          status: 'closed',
+        });
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        expect(currentContent).toContain('- [ ] Plan trip <!-- id:a1b2c3 -->');
+        expect(currentContent).toContain('  - [-] Book flights');
+      });
+    });
+
+    describe('dependencies', () => {
+      beforeEach(() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Write migration <!-- id:bbb222 -->
+- [ ] Review migration <!-- id:ccc333 -->
+- [ ] Deploy release <!-- id:ddd444 blocked_by:bbb222,ccc333 -->
+- [ ] Update docs <!-- blocked_by:bbb222 -->`);
+      });
+
+      it('should list the tasks that finishing a prerequisite unblocks', async() => {
+        const result = await handler({
+          task_identifier: 'Write migration',
+          status: 'completed',
+        });
+
+        expect(result.content[0].text).toBe(
+          'Successfully marked task "Write migration" as completed [x]\nNow unblocked: "Update docs"',
+        );
+        expect(gitUtils.commitChanges).toHaveBeenCalledWith('Completed task: Write migration');
+      });
+
+      it('should warn when completing a task with open prerequisites', async() => {
+        const result = await handler({
+          task_identifier: 'Deploy release',
+          status: 'completed',
+        });
+
+        expect(result.content[0].text).toBe('Successfully marked task "Deploy release" as completed [x]\n' +
+          'Warning: "Deploy release" still has open prerequisites: "Write migration" (bbb222), "Review migration" (ccc333)');
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [x] Deploy release');
+      });
+    });
+
     describe('already in requested state', () => {
       it('should handle task already completed', async() => {
         const result = await handler({
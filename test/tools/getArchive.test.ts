@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/getArchive';
+
+describe('getArchive tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-getarchive';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'archive.md'), `# Archive
+
+# Week of 2024-01-01
+- [x] January first task
+
+# Week of 2024-01-08
+- [x] January second task
+  With description
+
+# Week of 2024-01-15
+- [-] January third task
+`);
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('get_archive');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Get Archive',
+        description: 'Retrieve archived weeks: a specific week, a range of weeks, the last N weeks or the weeks with tagged tasks ' +
+          '(defaults to the most recent week)',
+        inputSchema: {
+          week: expect.any(Object),
+          from_week: expect.any(Object),
+          to_week: expect.any(Object),
+          last: expect.any(Object),
+          tags: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should return the most recent week by default', () => {
+      const result = handler({});
+
+      expect(result).toEqual({
+        content: [
+          { type: 'text', text: '# Week of 2024-01-15\n- [-] January third task' },
+          { type: 'text', text: expect.stringMatching(/^Revision: [0-9a-f]{12}$/) },
+        ],
+      });
+    });
+
+    it('should return a specific week', () => {
+      const result = handler({ week: '2024-01-08' });
+
+      expect(result.content[0].text).toBe('# Week of 2024-01-08\n- [x] January second task\n  With description');
+    });
+
+    it('should return the weeks with tasks carrying the tags', () => {
+      writeFileSync(join(testDir, 'archive.md'), `# Archive
+
+# Week of 2024-01-01
+- [x] Patch servers #infra
+- [x] Paint fence @home
+
+# Week of 2024-01-08
+- [x] Read a book
+
+# Week of 2024-01-15
+- [x] Migrate DNS #infra
+`);
+
+      const result = handler({ tags: ['#infra'] });
+
+      expect(result.content[0].text).toBe('# Week of 2024-01-01\n- [x] Patch servers #infra\n\n# Week of 2024-01-15\n- [x] Migrate DNS #infra');
+    });
+
+    it('should return a range of weeks', () => {
+      const result = handler({ from_week: '2024-01-01', to_week: '2024-01-08' });
+
+      expect(result.content[0].text).toContain('# Week of 2024-01-01');
+      expect(result.content[0].text).toContain('# Week of 2024-01-08');
+      expect(result.content[0].text).not.toContain('# Week of 2024-01-15');
+    });
+
+    it('should return the last N weeks', () => {
+      const result = handler({ last: 2 });
+
+      expect(result.content[0].text).not.toContain('# Week of 2024-01-01');
+      expect(result.content[0].text).toContain('# Week of 2024-01-08');
+      expect(result.content[0].text).toContain('# Week of 2024-01-15');
+    });
+
+    it('should report when no weeks match', () => {
+      const result = handler({ week: '2023-06-05' });
+
+      expect(result.content[0].text).toBe('No archived weeks found matching the request.');
+      expect(result).not.toHaveProperty('isError');
+    });
+
+    it('should handle a missing archive file', () => {
+      rmSync(join(testDir, 'archive.md'));
+
+      const result = handler({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error reading archive:');
+    });
+  });
+});
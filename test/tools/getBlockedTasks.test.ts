@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/getBlockedTasks';
+
+describe('getBlockedTasks tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-getblockedtasks';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [x] Design schema <!-- id:aaa111 -->
+- [/] Write migration <!-- id:bbb222 blocked_by:aaa111 -->
+- [ ] Deploy release <!-- id:ccc333 blocked_by:bbb222,ddd444 -->
+- [x] Update docs <!-- blocked_by:bbb222 -->
+
+# Next Week`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Review migration added on 2024-01-05 <!-- id:ddd444 -->
+- [ ] Clean up old tables added on 2024-01-06 <!-- blocked_by:archived -->`);
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('get_blocked_tasks');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Get Blocked Tasks',
+        description: expect.stringContaining('List unfinished current and backlog tasks that have prerequisites'),
+        inputSchema: {},
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should split unfinished dependent tasks into blocked and unblocked ones', () => {
+      const result = handler();
+
+      expect(result.structuredContent).toEqual({
+        blocked: [
+          {
+            file: 'current',
+            section: 'This Week',
+            taskText: 'Deploy release',
+            status: 'new',
+            id: 'ccc333',
+            blockedBy: ['bbb222', 'ddd444'],
+            openPrerequisites: [
+              { id: 'bbb222', taskText: 'Write migration' },
+              { id: 'ddd444', taskText: 'Review migration added on 2024-01-05' },
+            ],
+          },
+        ],
+        unblocked: [
+          expect.objectContaining({ taskText: 'Write migration', blockedBy: ['aaa111'] }),
+          expect.objectContaining({ taskText: 'Clean up old tables added on 2024-01-06', blockedBy: ['archived'] }),
+        ],
+        revision: expect.any(String),
+      });
+    });
+
+    it('should return empty lists without dependencies', () => {
+      writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Plain task\n\n# Next Week');
+      writeFileSync(join(testDir, 'backlog.md'), '# Backlog');
+
+      expect(handler().structuredContent).toEqual({ blocked: [], unblocked: [], revision: expect.any(String) });
+    });
+
+    it('should handle read errors', () => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), '{ invalid');
+
+      const result = handler();
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toStartWith('Error listing blocked tasks:');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/getConfig';
+
+describe('getConfig tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-getconfig';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('get_config');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Get Config',
+        description: 'Show the workspace conventions in effect: file names, section titles, backlog date label, week boundaries, git identity and extra task statuses',
+        inputSchema: {},
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should return the default conventions', () => {
+      const result = handler();
+
+      expect(result.structuredContent).toEqual(expect.objectContaining({
+        files: { current: 'current.md', backlog: 'backlog.md', archive: 'archive.md' },
+        backlogDateLabel: 'added on',
+      }));
+    });
+
+    it('should return configured values', () => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), JSON.stringify({ sections: { thisWeek: 'Now' } }));
+      setWorkingDirectory(testDir);
+
+      const result = handler();
+
+      expect(result.structuredContent?.sections).toEqual({
+        thisWeek: 'Now',
+        nextWeek: 'Next Week',
+        backlog: 'Backlog',
+        archive: 'Archive',
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    });
+
+    it('should report invalid configuration', () => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), '{ not json');
+      setWorkingDirectory(testDir);
+
+      const result = handler();
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error reading configuration: Invalid .mcp-tasks.json:');
+    });
+  });
+});
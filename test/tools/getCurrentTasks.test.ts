@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
 import { name, config, handler } from 'src/tools/getCurrentTasks';
 import * as fileOperations from 'src/utils/fileOperations';
+import { computeRevision } from 'src/utils/revision';
 
 describe('getCurrentTasks tool', () => {
   beforeEach(() => {
@@ -21,8 +22,11 @@ describe('getCurrentTasks tool', () => {
     it('should export correct config structure', () => {
       expect(config).toEqual({
         title: 'Get Current Tasks',
-        description: 'Retrieve all current, recent, and upcoming tasks',
-        inputSchema: {},
+        description: 'Retrieve all current, recent, and upcoming tasks. Tasks with subtasks show how many are finished, e.g. (2/5)',
+        inputSchema: {
+          sort_by_priority: expect.any(Object),
+          tags: expect.any(Object),
+        },
       });
     });
   });
@@ -38,14 +42,84 @@ describe('getCurrentTasks tool', () => {
 
         expect(fileOperations.readFile).toHaveBeenCalledWith('current');
         expect(result).toEqual({
-          content: [{
-            type: 'text',
-            text: mockContent,
-          }],
+          content: [
+            { type: 'text', text: mockContent },
+            { type: 'text', text: `Revision: ${computeRevision([mockContent, mockContent, mockContent])}` },
+          ],
         });
       });
     });
 
+    describe('priority sorting', () => {
+      it('should order the tasks of each section by priority when asked to', () => {
+        fileOperations.readFile.mockReturnValue(`# This Week
+- [ ] Low task <!-- priority:P3 -->
+- [ ] Plain task
+- [ ] Urgent task <!-- id:a1b2c3 priority:P1 -->
+  Urgent description
+
+# Next Week
+- [ ] Later task
+- [ ] Important task <!-- priority:P2 -->
+`);
+
+        const result = handler({ sort_by_priority: true });
+
+        expect(result.content[0].text).toBe(`# This Week
+- [ ] Urgent task <!-- id:a1b2c3 priority:P1 -->
+  Urgent description
+- [ ] Low task <!-- priority:P3 -->
+- [ ] Plain task
+
+# Next Week
+- [ ] Important task <!-- priority:P2 -->
+- [ ] Later task
+`);
+      });
+
+      it('should keep the file order by default', () => {
+        fileOperations.readFile.mockReturnValue('# This Week\n- [ ] Plain task\n- [ ] Urgent task <!-- priority:P1 -->');
+
+        expect(handler().content[0].text).toBe('# This Week\n- [ ] Plain task\n- [ ] Urgent task <!-- priority:P1 -->');
+      });
+    });
+
+    describe('tag filters', () => {
+      it('should combine tag filters with priority sorting', () => {
+        fileOperations.readFile.mockReturnValue(`# This Week
+- [ ] Plain task @home
+- [ ] Work task @office
+- [ ] Urgent chore @home <!-- priority:P1 -->
+
+# Next Week
+- [ ] Later task`);
+
+        const result = handler({ tags: ['@home'], sort_by_priority: true });
+
+        expect(result.content[0].text).toBe(`# This Week
+- [ ] Urgent chore @home <!-- priority:P1 -->
+- [ ] Plain task @home
+
+# Next Week`);
+      });
+    });
+
+    describe('subtask progress', () => {
+      it('should show how many subtasks of each task are finished', () => {
+        fileOperations.readFile.mockReturnValue(`# This Week
+- [ ] Plan trip <!-- id:a1b2c3 -->
+  - [x] Book flights
+  - [ ] Book hotel
+- [ ] Plain task`);
+
+        expect(handler().content[0].text).toBe(`# This Week
+- [ ] Plan trip (1/2) <!-- id:a1b2c3 -->
+  - [x] Book flights
+  - [ ] Book hotel
+- [ ] Plain task`);
+      });
+    });
+
     describe('error handling', () => {
       it('should handle Error objects', () => {
         const error = new Error('File not found');
@@ -90,7 +164,7 @@ describe('getCurrentTasks tool', () => {
         const result = handler();
 
         expect(Array.isArray(result.content)).toBe(true);
-        expect(result.content).toHaveLength(1);
+        expect(result.content).toHaveLength(2);
       });
 
       it('should always use type "text" for content items', () => {
@@ -152,7 +226,8 @@ describe('getCurrentTasks tool', () => {
         handler();
 
         expect(fileOperations.readFile).toHaveBeenCalledWith('current');
-        expect(fileOperations.readFile).toHaveBeenCalledTimes(1);
+        // Once for the content and once per task file for the revision
+        expect(fileOperations.readFile).toHaveBeenCalledTimes(4);
       });
     });
   });
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/getDueTasks';
+import * as dateUtils from 'src/utils/dates';
+
+describe('getDueTasks tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-getduetasks';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Send invoice <!-- id:a1b2c3 due:2024-01-19 -->
+- [x] Pay rent <!-- due:2024-01-10 -->
+- [!] Renew passport <!-- due:2024-01-12 -->
+
+# Next Week
+- [ ] Book flights <!-- due:2024-01-30 -->`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] File taxes added on 2024-01-01 <!-- due:2024-01-15 scheduled:2024-01-08 -->
+- [ ] Read a book added on 2024-01-02`);
+
+    spyOn(dateUtils, 'getCurrentDate').mockReturnValue('2024-01-15');
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('get_due_tasks');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Get Due Tasks',
+        description: expect.stringContaining('List unfinished current and backlog tasks that are overdue or due'),
+        inputSchema: {
+          days_ahead: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should list overdue and upcoming unfinished tasks by due date', () => {
+      const result = handler();
+
+      expect(result.structuredContent).toEqual({
+        today: '2024-01-15',
+        overdue: [
+          {
+            file: 'current',
+            section: 'This Week',
+            taskText: 'Renew passport',
+            status: 'blocked',
+            dueDate: '2024-01-12',
+          },
+        ],
+        upcoming: [
+          {
+            file: 'backlog',
+            section: 'Backlog',
+            taskText: 'File taxes added on 2024-01-01',
+            status: 'new',
+            dueDate: '2024-01-15',
+            scheduledDate: '2024-01-08',
+            addedOn: '2024-01-01',
+          },
+          {
+            file: 'current',
+            section: 'This Week',
+            taskText: 'Send invoice',
+            status: 'new',
+            id: 'a1b2c3',
+            dueDate: '2024-01-19',
+          },
+        ],
+        revision: expect.stringMatching(/^[0-9a-f]{12}$/),
+      });
+    });
+
+    it('should look further ahead when asked to', () => {
+      const result = handler({ days_ahead: 30 });
+
+      expect(result.structuredContent?.upcoming).toHaveLength(3);
+    });
+
+    it('should only list tasks due today with no days ahead', () => {
+      const result = handler({ days_ahead: 0 });
+
+      expect(result.structuredContent?.upcoming).toEqual([
+        expect.objectContaining({ taskText: 'File taxes added on 2024-01-01' }),
+      ]);
+    });
+  });
+});
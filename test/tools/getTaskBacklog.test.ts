@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
 import { name, config, handler } from 'src/tools/getTaskBacklog';
 import * as fileOperations from 'src/utils/fileOperations';
+import { computeRevision } from 'src/utils/revision';
 
 describe('getTaskBacklog tool', () => {
   beforeEach(() => {
@@ -21,14 +22,12 @@ describe('getTaskBacklog tool', () => {
     it('should export correct config structure', () => {
       expect(config).toEqual({
         title: 'Get Task Backlog',
-        description: 'Retrieve the backlog of as-yet unscheduled tasks',
-        inputSchema: {},
+        description: 'Retrieve the backlog of as-yet unscheduled tasks. Tasks with subtasks show how many are finished, e.g. (2/5)',
+        inputSchema: {
+          tags: expect.any(Object),
+        },
       });
     });
-
-    it('should have empty input schema', () => {
-      expect(config.inputSchema).toEqual({});
-    });
   });
 
   describe('handler function', () => {
@@ -42,14 +41,32 @@ describe('getTaskBacklog tool', () => {
 
         expect(fileOperations.readFile).toHaveBeenCalledWith('backlog');
         expect(result).toEqual({
-          content: [{
-            type: 'text',
-            text: mockContent,
-          }],
+          content: [
+            { type: 'text', text: mockContent },
+            { type: 'text', text: `Revision: ${computeRevision([mockContent, mockContent, mockContent])}` },
+          ],
         });
       });
     });
 
+    describe('tag filters', () => {
+      it('should only return tasks carrying every requested tag', () => {
+        fileOperations.readFile.mockReturnValue(`# Backlog
+- [ ] Migrate DNS #infra @office added on 2024-01-01
+  Move the zones first
+- [ ] Patch servers #infra added on 2024-01-02
+- [ ] Read a book added on 2024-01-03
+`);
+
+        const result = handler({ tags: ['infra', '@office'] });
+
+        expect(result.content[0].text).toBe(`# Backlog
+- [ ] Migrate DNS #infra @office added on 2024-01-01
+  Move the zones first
+`);
+      });
+    });
+
     describe('error handling', () => {
       it('should handle Error objects', () => {
         const error = new Error('Backlog file not found');
@@ -94,7 +111,7 @@ describe('getTaskBacklog tool', () => {
         const result = handler();
 
         expect(Array.isArray(result.content)).toBe(true);
-        expect(result.content).toHaveLength(1);
+        expect(result.content).toHaveLength(2);
       });
 
       it('should always use type "text" for content items', () => {
@@ -156,7 +173,8 @@ describe('getTaskBacklog tool', () => {
         handler();
 
         expect(fileOperations.readFile).toHaveBeenCalledWith('backlog');
-        expect(fileOperations.readFile).toHaveBeenCalledTimes(1);
+        // Once for the content and once per task file for the revision
+        expect(fileOperations.readFile).toHaveBeenCalledTimes(4);
       });
     });
   });
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/listRecurringTasks';
+
+describe('listRecurringTasks tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-listrecurringtasks';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('list_recurring_tasks');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'List Recurring Tasks',
+        description: 'List the recurring task definitions of the workspace with how often each repeats',
+        inputSchema: {},
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should list definitions with their recurrence', () => {
+      writeFileSync(join(testDir, '.mcp-tasks-recurring.json'), JSON.stringify([
+        { id: 'aaa111', text: 'Submit timesheet', frequency: 'weekly', interval: 2, startDate: '2024-01-10' },
+      ]));
+
+      expect(handler().structuredContent).toEqual({
+        count: 1,
+        recurringTasks: [{
+          id: 'aaa111',
+          text: 'Submit timesheet',
+          frequency: 'weekly',
+          interval: 2,
+          startDate: '2024-01-10',
+          recurrence: 'every 2 weeks',
+        }],
+      });
+    });
+
+    it('should report invalid definitions files', () => {
+      writeFileSync(join(testDir, '.mcp-tasks-recurring.json'), '{ not json');
+
+      const result = handler();
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toStartWith('Error listing recurring tasks: Invalid .mcp-tasks-recurring.json:');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/listTags';
+
+describe('listTags tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-listtags';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Renew certificates #infra @office <!-- id:a1b2c3 -->
+- [x] Patch servers #Infra
+
+# Next Week
+- [ ] Buy groceries @home`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Migrate DNS #infra added on 2024-01-01
+- [ ] Read a book`);
+
+    writeFileSync(join(testDir, 'archive.md'), `# Archive
+
+# Week of 2024-01-01
+- [x] Paint fence @home #garden`);
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('list_tags');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'List Tags',
+        description: expect.stringContaining('List the #project and @context tags'),
+        inputSchema: {
+          include_archive: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should count tags on current and backlog tasks, most used first', () => {
+      const result = handler();
+
+      expect(result.structuredContent).toEqual({
+        tags: [
+          { tag: '#infra', count: 3 },
+          { tag: '@home', count: 1 },
+          { tag: '@office', count: 1 },
+        ],
+        revision: expect.stringMatching(/^[0-9a-f]{12}$/),
+      });
+    });
+
+    it('should include archived tasks when asked to', () => {
+      const result = handler({ include_archive: true });
+
+      expect(result.structuredContent?.tags).toEqual([
+        { tag: '#infra', count: 3 },
+        { tag: '@home', count: 2 },
+        { tag: '@office', count: 1 },
+        { tag: '#garden', count: 1 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { setWorkingDirectory, addWorkspace } from 'src/config';
+import { name, config, handler } from 'src/tools/listWorkspaces';
+
+describe('listWorkspaces tool', () => {
+  beforeEach(() => {
+    setWorkingDirectory('/tmp/mcp-tasks-test-listworkspaces-default');
+    addWorkspace('side-project', '/tmp/mcp-tasks-test-listworkspaces-side');
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('list_workspaces');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'List Workspaces',
+        description: 'List the named task workspaces managed by this server. Pass a name as the "workspace" parameter of other tools',
+        inputSchema: {},
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should list workspaces and mark the default one', () => {
+      const result = handler();
+      const workspaces = result.structuredContent?.workspaces;
+
+      expect(workspaces).toContainEqual({
+        name: 'default',
+        directory: '/tmp/mcp-tasks-test-listworkspaces-default',
+        isDefault: true,
+      });
+      expect(workspaces).toContainEqual({
+        name: 'side-project',
+        directory: '/tmp/mcp-tasks-test-listworkspaces-side',
+        isDefault: false,
+      });
+    });
+  });
+});
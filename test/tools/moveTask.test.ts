@@ -64,6 +64,7 @@ describe('moveTask tool', () => {
         inputSchema: {
           task_identifier: expect.any(Object),
           destination: expect.any(Object),
+          expected_revision: expect.any(Object),
         },
       });
     });
@@ -258,6 +259,58 @@ describe('moveTask tool', () => {
       });
     });
 
+    describe('task IDs', () => {
+      it('should keep the ID when moving from backlog to current week', async() => {
+        writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Identified task added on 2024-01-01 <!-- id:a1b2c3 -->
+  Identified description`);
+
+        await handler({
+          task_identifier: 'a1b2c3',
+          destination: 'current_week',
+        });
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        expect(currentContent).toContain('- [ ] Identified task <!-- id:a1b2c3 -->\n  Identified description');
+      });
+
+      it('should keep the ID after the added date when moving to backlog', async() => {
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        writeFileSync(join(testDir, 'current.md'), currentContent.replace(
+          '- [ ] Simple next task',
+          '- [ ] Simple next task <!-- id:d4e5f6 -->',
+        ));
+
+        await handler({
+          task_identifier: 'd4e5f6',
+          destination: 'backlog',
+        });
+
+        const backlogContent = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        expect(backlogContent).toContain('- [ ] Simple next task added on 2024-01-15 <!-- id:d4e5f6 -->');
+      });
+    });
+
+    describe('tags', () => {
+      it('should keep tags when moving to and from the backlog', async() => {
+        writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Tagged task added on 2024-01-01 #infra @office`);
+
+        await handler({ task_identifier: 'Tagged task', destination: 'current_week' });
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [ ] Tagged task #infra @office\n');
+
+        await handler({ task_identifier: 'Tagged task', destination: 'backlog' });
+
+        expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toContain(
+          '- [ ] Tagged task #infra @office added on 2024-01-15',
+        );
+      });
+    });
+
     describe('already at destination scenarios', () => {
       it('should handle task already in current week', async() => {
         const result = await handler({
@@ -362,6 +415,21 @@ describe('moveTask tool', () => {
         expect(result.isError).toBe(true);
         expect(result.content[0].text).toContain('Error moving task: Git commit failed');
       });
+
+      it('should leave the source untouched when the destination cannot be written', async() => {
+        const originalCurrent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        writeFileSync(join(testDir, 'backlog.md'), '# Someday\n');
+
+        const result = await handler({
+          task_identifier: 'Simple current task',
+          destination: 'backlog',
+        });
+
+        expect(result.isError).toBe(true);
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe(originalCurrent);
+        expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+      });
     });
 
     describe('cross-file operations', () => {
@@ -564,4 +632,22 @@ describe('moveTask tool', () => {
       });
     });
   });
+
+  describe('workspace configuration', () => {
+    it('should use configured section titles and date label', async() => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), JSON.stringify({
+        sections: { thisWeek: 'Now', nextWeek: 'Soon' },
+        backlogDateLabel: 'created',
+      }));
+      writeFileSync(join(testDir, 'current.md'), '# Now\n- [ ] Current task\n\n# Soon\n');
+      writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n- [ ] Later task created 2024-01-01\n');
+      setWorkingDirectory(testDir);
+
+      await handler({ task_identifier: 'Current task', destination: 'backlog' });
+      await handler({ task_identifier: 'Later task', destination: 'next_week' });
+
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('# Soon\n- [ ] Later task');
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toContain('- [ ] Current task created 2024-01-15');
+    });
+  });
 });
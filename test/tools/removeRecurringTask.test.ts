@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/removeRecurringTask';
+import { readRecurringTasks } from 'src/utils/recurringTasks';
+import * as gitUtils from 'src/utils/git';
+
+describe('removeRecurringTask tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-removerecurringtask';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, '.mcp-tasks-recurring.json'), JSON.stringify([
+      { id: 'aaa111', text: 'Submit timesheet', frequency: 'weekly', interval: 1, startDate: '2024-01-10' },
+      { id: 'bbb222', text: 'Pay rent', frequency: 'monthly', dayOfMonth: 1 },
+    ]));
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('remove_recurring_task');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Remove Recurring Task',
+        description: expect.stringContaining('Stop a task from recurring'),
+        inputSchema: {
+          recurring_task_identifier: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should remove the matching definition and commit', async() => {
+      const result = await handler({ recurring_task_identifier: 'timesheet' });
+
+      expect(result.content[0].text).toBe('Successfully removed recurring task "Submit timesheet"');
+      expect(readRecurringTasks().map(task => task.id)).toEqual(['bbb222']);
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Removed recurring task: Submit timesheet');
+    });
+
+    it('should report unknown recurring tasks', async() => {
+      const result = await handler({ recurring_task_identifier: 'groceries' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('Error removing recurring task: No recurring task found for "groceries"');
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/removeTaskDependency';
+import * as gitUtils from 'src/utils/git';
+
+describe('removeTaskDependency tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-removetaskdependency';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Write migration <!-- id:bbb222 -->
+- [ ] Deploy release <!-- id:ccc333 blocked_by:bbb222,archived -->
+- [ ] Announce release
+
+# Next Week`);
+
+    writeFileSync(join(testDir, 'backlog.md'), '# Backlog');
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('remove_task_dependency');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Remove Task Dependency',
+        description: expect.stringContaining('Remove a prerequisite from a task'),
+        inputSchema: {
+          task_identifier: expect.any(Object),
+          blocked_by: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should remove a prerequisite matched by text and commit', async() => {
+      const result = await handler({ task_identifier: 'Deploy', blocked_by: 'Write migration' });
+
+      expect(result.content[0].text)
+        .toBe('Successfully removed "Write migration" from the prerequisites of task "Deploy release"');
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [ ] Deploy release <!-- id:ccc333 blocked_by:archived -->');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Removed dependency: Deploy release blocked by Write migration');
+    });
+
+    it('should remove a prerequisite that left the task lists by its ID', async() => {
+      await handler({ task_identifier: 'ccc333', blocked_by: 'archived' });
+
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [ ] Deploy release <!-- id:ccc333 blocked_by:bbb222 -->');
+    });
+
+    it('should drop the metadata key with the last prerequisite', async() => {
+      await handler({ task_identifier: 'ccc333', blocked_by: 'archived' });
+      await handler({ task_identifier: 'ccc333', blocked_by: 'bbb222' });
+
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toContain('- [ ] Deploy release <!-- id:ccc333 -->');
+    });
+
+    it('should report tasks that are not a prerequisite', async() => {
+      const result = await handler({ task_identifier: 'Deploy', blocked_by: 'Announce' });
+
+      expect(result).toEqual({
+        content: [{
+          type: 'text',
+          text: 'Error removing task dependency: Task "Deploy release" is not blocked by "Announce release"',
+        }],
+        isError: true,
+      });
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+  });
+});
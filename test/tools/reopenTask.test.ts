@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/reopenTask';
+import * as gitUtils from 'src/utils/git';
+
+describe('reopenTask tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-reopentask';
+  const readCurrent = () => readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [x] Finished report <!-- id:a1b2c3 -->
+- [-] Dropped idea
+- [ ] Open task
+
+# Next Week
+- [ ] Future task`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [x] Done backlog task added on 2024-01-01`);
+
+    writeFileSync(join(testDir, 'archive.md'), `# Archive
+
+# Week of 2024-01-01
+- [ ] Migrate server <!-- id:d4e5f6 rollovers:1 -->
+
+# Week of 2024-01-08
+- [x] Migrate server <!-- id:d4e5f6 rollovers:2 -->
+  Move the database too
+- [x] Old report`);
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('reopen_task');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Reopen Task',
+        description: expect.stringContaining('Mark a completed or closed task as new again'),
+        inputSchema: {
+          task_identifier: expect.any(Object),
+          from_archive: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('current and backlog tasks', () => {
+    it('should reopen a completed task', async() => {
+      const result = await handler({ task_identifier: 'a1b2c3' });
+
+      expect(result.content[0].text).toBe('Successfully reopened task "Finished report" in This Week');
+      expect(readCurrent()).toContain('- [ ] Finished report <!-- id:a1b2c3 -->');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Reopened task: Finished report');
+    });
+
+    it('should reopen a closed task', async() => {
+      await handler({ task_identifier: 'Dropped idea' });
+
+      expect(readCurrent()).toContain('- [ ] Dropped idea');
+    });
+
+    it('should reopen a backlog task', async() => {
+      await handler({ task_identifier: 'Done backlog task' });
+
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toContain('- [ ] Done backlog task added on 2024-01-01');
+    });
+
+    it('should report tasks that are already open without committing', async() => {
+      const result = await handler({ task_identifier: 'Open task' });
+
+      expect(result.content[0].text).toBe('Task "Open task" is already open');
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+
+    it('should not look in the archive unless asked to', async() => {
+      const result = await handler({ task_identifier: 'Migrate server' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error reopening task: No matching tasks found');
+    });
+  });
+
+  describe('archived tasks', () => {
+    it('should copy the most recent archived record into this week', async() => {
+      const result = await handler({ task_identifier: 'Migrate server', from_archive: true });
+
+      expect(result.content[0].text).toBe(
+        'Successfully reopened archived task "Migrate server" from the week of 2024-01-08 in This Week',
+      );
+      expect(readCurrent()).toContain('- [ ] Migrate server <!-- id:d4e5f6 -->\n  Move the database too');
+      expect(readFileSync(join(testDir, 'archive.md'), 'utf-8')).toContain('- [x] Migrate server');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith(
+        'Reopened archived task: Migrate server from the week of 2024-01-08',
+      );
+    });
+
+    it('should keep the priority, dates and prerequisites of archived tasks', async() => {
+      writeFileSync(join(testDir, 'archive.md'), `# Week of 2024-01-08
+- [x] Old #x <!-- id:abcdef priority:P1 due:2024-02-01 scheduled:2024-01-20 blocked_by:123456 rollovers:3 -->`);
+
+      await handler({ task_identifier: 'abcdef', from_archive: true });
+
+      expect(readCurrent()).toContain(
+        '- [ ] Old #x <!-- id:abcdef priority:P1 due:2024-02-01 scheduled:2024-01-20 blocked_by:123456 -->',
+      );
+    });
+
+    it('should prefer a matching current task over the archive', async() => {
+      await handler({ task_identifier: 'report', from_archive: true });
+
+      expect(readCurrent()).toContain('- [ ] Finished report');
+      expect(readCurrent()).not.toContain('Old report');
+    });
+
+    it('should handle archived tasks that do not match', async() => {
+      const result = await handler({ task_identifier: 'Nonexistent', from_archive: true });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('No matching tasks found for "Nonexistent" in current, backlog or archive');
+    });
+  });
+});
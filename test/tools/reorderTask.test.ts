@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/reorderTask';
+import * as gitUtils from 'src/utils/git';
+
+describe('reorderTask tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-reordertask';
+  const readCurrent = () => readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] First task <!-- id:aaa111 -->
+- [ ] Second task
+  Second description
+- [ ] Third task <!-- id:ccc333 -->
+
+# Next Week
+- [ ] Future task`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Backlog task added on 2024-01-01`);
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('reorder_task');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Reorder Task',
+        description: expect.stringContaining('Move a task to another position within its section'),
+        inputSchema: {
+          task_identifier: expect.any(Object),
+          position: expect.any(Object),
+          above: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should move a task to a position and commit', async() => {
+      const result = await handler({ task_identifier: 'ccc333', position: 1 });
+
+      expect(result.content[0].text).toBe('Successfully moved task "Third task" to position 1 in This Week');
+      expect(readCurrent()).toStartWith(`# This Week
+- [ ] Third task <!-- id:ccc333 -->
+- [ ] First task <!-- id:aaa111 -->
+- [ ] Second task
+  Second description
+`);
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Reordered task: Third task to position 1 in This Week');
+    });
+
+    it('should move a task with its description further down', async() => {
+      await handler({ task_identifier: 'Second task', position: 3 });
+
+      expect(readCurrent()).toStartWith(`# This Week
+- [ ] First task <!-- id:aaa111 -->
+- [ ] Third task <!-- id:ccc333 -->
+- [ ] Second task
+  Second description
+
+# Next Week`);
+    });
+
+    it('should move a task to the end for positions past the end', async() => {
+      const result = await handler({ task_identifier: 'aaa111', position: 10 });
+
+      expect(result.content[0].text).toBe('Successfully moved task "First task" to position 3 in This Week');
+      expect(readCurrent()).toContain('- [ ] Third task <!-- id:ccc333 -->\n- [ ] First task <!-- id:aaa111 -->\n\n# Next Week');
+    });
+
+    it('should move a task above another task', async() => {
+      await handler({ task_identifier: 'ccc333', above: 'Second task' });
+
+      expect(readCurrent()).toStartWith(`# This Week
+- [ ] First task <!-- id:aaa111 -->
+- [ ] Third task <!-- id:ccc333 -->
+- [ ] Second task
+`);
+    });
+
+    it('should report tasks that are already in place without committing', async() => {
+      const result = await handler({ task_identifier: 'aaa111', above: 'Second task' });
+
+      expect(result.content[0].text).toBe('Task "First task" is already at position 1 in This Week');
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+
+    it('should reject anchors in another section', async() => {
+      const result = await handler({ task_identifier: 'aaa111', above: 'Future task' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(
+        'Error reordering task: Task "Future task" is in Next Week, not This Week. Use move_task to move tasks between sections',
+      );
+    });
+
+    it('should reject placing a task above itself', async() => {
+      const result = await handler({ task_identifier: 'aaa111', above: 'First task' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('A task cannot be placed above itself');
+    });
+
+    it('should require exactly one of position or above', async() => {
+      const missing = await handler({ task_identifier: 'aaa111' });
+      const both = await handler({ task_identifier: 'aaa111', position: 2, above: 'Third task' });
+
+      expect(missing.content[0].text).toContain('Exactly one of position or above must be provided');
+      expect(both.content[0].text).toContain('Exactly one of position or above must be provided');
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/searchTasks';
+
+describe('searchTasks tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-searchtasks';
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Review deployment pipeline <!-- id:a1b2c3 -->
+  Check the staging deployment first
+- [x] Write report
+
+# Next Week
+- [ ] Plan offsite`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Upgrade database added on 2024-01-05
+- [ ] Refactor deployment scripts added on 2024-02-10`);
+
+    writeFileSync(join(testDir, 'archive.md'), `# Archive
+
+# Week of 2024-01-01
+- [x] Fix deployment bug
+- [-] Drop legacy API
+
+# Week of 2024-01-08
+- [x] Write report`);
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('search_tasks');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Search Tasks',
+        description: 'Search task text and descriptions across the current week, backlog and archive',
+        inputSchema: {
+          query: expect.any(Object),
+          status: expect.any(Object),
+          section: expect.any(Object),
+          from_date: expect.any(Object),
+          to_date: expect.any(Object),
+          tags: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should search text across all three files', () => {
+      const result = handler({ query: 'deployment' });
+
+      expect(result.structuredContent).toEqual({
+        revision: expect.stringMatching(/^[0-9a-f]{12}$/),
+        count: 3,
+        results: [
+          {
+            file: 'current',
+            section: 'This Week',
+            taskText: 'Review deployment pipeline',
+            status: 'new',
+            id: 'a1b2c3',
+            description: 'Check the staging deployment first',
+          },
+          {
+            file: 'backlog',
+            section: 'Backlog',
+            taskText: 'Refactor deployment scripts added on 2024-02-10',
+            status: 'new',
+            addedOn: '2024-02-10',
+          },
+          {
+            file: 'archive',
+            section: 'Week of 2024-01-01',
+            week: '2024-01-01',
+            taskText: 'Fix deployment bug',
+            status: 'completed',
+          },
+        ],
+      });
+    });
+
+    it('should return the results as JSON text', () => {
+      const result = handler({ query: 'offsite' });
+
+      expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    });
+
+    it('should search descriptions', () => {
+      const result = handler({ query: 'STAGING' });
+
+      expect(result.structuredContent?.count).toBe(1);
+    });
+
+    it('should filter by status', () => {
+      const result = handler({ query: 'report', status: 'completed' });
+
+      expect(result.structuredContent?.results).toEqual([
+        expect.objectContaining({ file: 'current', section: 'This Week' }),
+        expect.objectContaining({ file: 'archive', week: '2024-01-08' }),
+      ]);
+    });
+
+    it('should filter by section', () => {
+      const result = handler({ section: 'week of 2024-01-01' });
+
+      expect(result.structuredContent?.count).toBe(2);
+    });
+
+    it('should filter by date range using backlog and archive dates', () => {
+      const result = handler({ from_date: '2024-01-05', to_date: '2024-01-31' });
+
+      expect(result.structuredContent?.results).toEqual([
+        expect.objectContaining({ taskText: 'Upgrade database added on 2024-01-05' }),
+        expect.objectContaining({ taskText: 'Write report', week: '2024-01-08' }),
+      ]);
+    });
+
+    it('should filter by tags and report the tags of each result', () => {
+      writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Upgrade database #infra added on 2024-01-05
+- [ ] Refactor deployment scripts added on 2024-02-10`);
+
+      const result = handler({ tags: ['infra'] });
+
+      expect(result.structuredContent?.results).toEqual([
+        {
+          file: 'backlog',
+          section: 'Backlog',
+          taskText: 'Upgrade database #infra added on 2024-01-05',
+          status: 'new',
+          tags: ['#infra'],
+          addedOn: '2024-01-05',
+        },
+      ]);
+    });
+
+    it('should report the subtask progress of each result', () => {
+      writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Upgrade database added on 2024-01-05
+  - [x] Take backup
+  - [ ] Run migration`);
+
+      const result = handler({ query: 'upgrade' });
+
+      expect(result.structuredContent?.results).toEqual([
+        expect.objectContaining({
+          description: '- [x] Take backup\n- [ ] Run migration',
+          progress: '1/2',
+        }),
+      ]);
+    });
+
+    it('should return all tasks when no criteria are given', () => {
+      const result = handler({});
+
+      expect(result.structuredContent?.count).toBe(8);
+    });
+
+    it('should return an empty result set when nothing matches', () => {
+      const result = handler({ query: 'nonexistent' });
+
+      expect(result.structuredContent).toEqual({ revision: expect.any(String), count: 0, results: [] });
+    });
+
+    it('should handle missing files', () => {
+      rmSync(join(testDir, 'archive.md'));
+
+      const result = handler({ query: 'report' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error searching tasks:');
+    });
+  });
+});
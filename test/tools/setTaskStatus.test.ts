@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/setTaskStatus';
+import * as gitUtils from 'src/utils/git';
+
+describe('setTaskStatus tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-settaskstatus';
+  const readCurrent = () => readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+  beforeEach(() => {
+    // Create fresh test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Write report <!-- id:a1b2c3 -->
+- [/] Started task
+- [!] Waiting on review
+
+# Next Week
+- [ ] Future task`);
+
+    writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Someday task added on 2024-01-01`);
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    // Clear all spies
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('set_task_status');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Set Task Status',
+        description: expect.stringContaining('Change the status of a task'),
+        inputSchema: {
+          task_identifier: expect.any(Object),
+          status: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should mark a task as in progress and commit', async() => {
+      const result = await handler({ task_identifier: 'a1b2c3', status: 'in_progress' });
+
+      expect(result.content[0].text).toBe('Successfully marked task "Write report" as in progress [/]');
+      expect(readCurrent()).toContain('- [/] Write report <!-- id:a1b2c3 -->');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Marked task as in progress: Write report');
+    });
+
+    it('should mark a task as blocked', async() => {
+      await handler({ task_identifier: 'Started task', status: 'blocked' });
+
+      expect(readCurrent()).toContain('- [!] Started task');
+    });
+
+    it('should mark a backlog task as deferred', async() => {
+      await handler({ task_identifier: 'Someday task', status: 'deferred' });
+
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toContain('- [>] Someday task');
+    });
+
+    it('should set a blocked task back to new', async() => {
+      await handler({ task_identifier: 'Waiting on review', status: 'new' });
+
+      expect(readCurrent()).toContain('- [ ] Waiting on review');
+    });
+
+    it('should list the tasks unblocked by finishing a prerequisite', async() => {
+      writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Write report <!-- id:a1b2c3 -->
+- [!] Waiting on review <!-- blocked_by:a1b2c3 -->`);
+
+      const result = await handler({ task_identifier: 'a1b2c3', status: 'closed' });
+
+      expect(result.content[0].text).toBe('Successfully marked task "Write report" as closed [-]\nNow unblocked: "Waiting on review"');
+    });
+
+    it('should report tasks that already have the status without committing', async() => {
+      const result = await handler({ task_identifier: 'Started task', status: 'in_progress' });
+
+      expect(result.content[0].text).toBe('Task "Started task" is already marked as in progress');
+      expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+    });
+
+    it('should reject statuses that are not enabled in the workspace', async() => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), JSON.stringify({ extraStatuses: ['in_progress'] }));
+      setWorkingDirectory(testDir);
+
+      const result = await handler({ task_identifier: 'a1b2c3', status: 'blocked' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('Error setting task status: Status "blocked" is not enabled in this workspace');
+      expect(readCurrent()).toContain('- [ ] Write report');
+    });
+
+    it('should handle task not found', async() => {
+      const result = await handler({ task_identifier: 'Nonexistent task', status: 'blocked' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('No matching tasks found');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
 import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import * as crypto from 'crypto';
 import { setWorkingDirectory } from 'src/config';
 import { name, config, handler } from 'src/tools/startWeek';
 import * as gitUtils from 'src/utils/git';
@@ -70,13 +71,23 @@ describe('startWeek tool', () => {
     it('should export correct config structure', () => {
       expect(config).toEqual({
         title: 'Start Week',
-        description: 'Execute the weekly transition: archive current week, move incomplete tasks and next week to current week',
-        inputSchema: {},
+        description: 'Execute the weekly transition: archive current week, move incomplete tasks (with their unfinished subtasks) ' +
+          'and next week to current week. Deferred tasks move to next week and backlog tasks scheduled for the new week ' +
+          'or earlier move to current week. ' +
+          'Recurring tasks are added to the weeks they fall in',
+        inputSchema: {
+          stale_threshold: expect.any(Object),
+          move_stale_to_backlog: expect.any(Object),
+          dry_run: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
       });
     });
 
-    it('should have empty input schema', () => {
-      expect(config.inputSchema).toEqual({});
+    it('should have only optional parameters', () => {
+      expect(config.inputSchema.stale_threshold._def.typeName).toBe('ZodOptional');
+      expect(config.inputSchema.move_stale_to_backlog._def.typeName).toBe('ZodOptional');
+      expect(config.inputSchema.dry_run._def.typeName).toBe('ZodOptional');
     });
   });
 
@@ -89,13 +100,13 @@ describe('startWeek tool', () => {
         expect(result).toEqual({
           content: [{
             type: 'text',
-            text: 'Successfully completed week transition. Archived week of 2024-01-08.\n\n# This Week\n- [ ] Unfinished this week task\n- [ ] Another unfinished task\n- [ ] Next week task 1\n- [ ] Next week task 2\n- [ ] Next week task with description\n  Next week description\n',
+            text: 'Successfully completed week transition. Archived week of 2024-01-08.\n\n# This Week\n- [ ] Unfinished this week task <!-- rollovers:1 -->\n- [ ] Another unfinished task <!-- rollovers:1 -->\n- [ ] Next week task 1\n- [ ] Next week task 2\n- [ ] Next week task with description\n  Next week description\n',
           }],
         });
 
         // Verify git commits were made
         expect(gitUtils.commitChanges).toHaveBeenCalledTimes(2);
-        expect(gitUtils.commitChanges).toHaveBeenNthCalledWith(1, 'Pre-start-week backup');
+        expect(gitUtils.commitChanges).toHaveBeenNthCalledWith(1, 'Pre-start-week backup', { undoable: false });
         expect(gitUtils.commitChanges).toHaveBeenNthCalledWith(2, 'Completed week transition to 2024-01-15');
       });
 
@@ -179,6 +190,293 @@ describe('startWeek tool', () => {
 
         expect(nonEmptyLines).toHaveLength(0);
       });
+
+      it('should carry over in-progress and blocked tasks with their status', async() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [/] Started task
+- [!] Blocked task
+
+# Next Week
+`);
+
+        await handler();
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        expect(currentContent).toStartWith(
+          '# This Week\n- [/] Started task <!-- rollovers:1 -->\n- [!] Blocked task <!-- rollovers:1 -->\n',
+        );
+      });
+
+      it('should move deferred tasks to Next Week as new tasks', async() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [>] Deferred task <!-- rollovers:1 -->
+  Deferred description
+- [ ] Open task
+
+# Next Week
+- [ ] Planned task`);
+
+        const result = await handler({ dry_run: true });
+
+        expect(result.content[0].text).toContain(
+          'Tasks deferred to Next Week:\n- [ ] Deferred task <!-- rollovers:1 -->',
+        );
+
+        await handler();
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe(`# This Week
+- [ ] Open task <!-- rollovers:1 -->
+- [ ] Planned task
+
+# Next Week
+- [ ] Deferred task <!-- rollovers:1 -->
+  Deferred description
+`);
+        expect(readFileSync(join(testDir, 'archive.md'), 'utf-8')).toContain('- [>] Deferred task');
+      });
+    });
+
+    describe('scheduled backlog tasks', () => {
+      beforeEach(() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Open task
+
+# Next Week
+- [ ] Planned task`);
+
+        writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Overdue task added on 2024-01-01 <!-- scheduled:2024-01-10 -->
+- [ ] Unscheduled task added on 2024-01-02
+- [ ] Sunday task #home added on 2024-01-03 <!-- id:a1b2c3 scheduled:2024-01-21 -->
+  Sunday description
+- [ ] Later task added on 2024-01-04 <!-- scheduled:2024-01-22 -->
+- [x] Finished task added on 2024-01-05 <!-- scheduled:2024-01-15 -->`);
+      });
+
+      it('should pull tasks scheduled up to the end of the new week into This Week', async() => {
+        await handler();
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe(`# This Week
+- [ ] Open task <!-- rollovers:1 -->
+- [ ] Overdue task <!-- scheduled:2024-01-10 -->
+- [ ] Sunday task #home <!-- id:a1b2c3 scheduled:2024-01-21 -->
+  Sunday description
+- [ ] Planned task
+
+# Next Week
+`);
+        expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe(`# Backlog
+- [ ] Unscheduled task added on 2024-01-02
+- [ ] Later task added on 2024-01-04 <!-- scheduled:2024-01-22 -->
+- [x] Finished task added on 2024-01-05 <!-- scheduled:2024-01-15 -->`);
+      });
+
+      it('should move notes that follow a scheduled task along with it', async() => {
+        writeFileSync(join(testDir, 'backlog.md'), `# Backlog
+- [ ] Sunday task added on 2024-01-03 <!-- scheduled:2024-01-21 -->
+Unindented note
+
+- [ ] Unscheduled task added on 2024-01-02
+Another note`);
+
+        await handler();
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe(`# This Week
+- [ ] Open task <!-- rollovers:1 -->
+- [ ] Sunday task <!-- scheduled:2024-01-21 -->
+Unindented note
+- [ ] Planned task
+
+# Next Week
+`);
+        expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe(`# Backlog
+- [ ] Unscheduled task added on 2024-01-02
+Another note`);
+      });
+
+      it('should preview the scheduled tasks without changing the backlog', async() => {
+        const originalBacklog = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        const result = await handler({ dry_run: true });
+
+        expect(result.content[0].text).toContain(`Scheduled tasks pulled from Backlog:
+- [ ] Overdue task <!-- scheduled:2024-01-10 -->
+- [ ] Sunday task #home <!-- id:a1b2c3 scheduled:2024-01-21 -->`);
+        expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe(originalBacklog);
+      });
+    });
+
+    describe('recurring tasks', () => {
+      beforeEach(() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Open task
+
+# Next Week
+- [ ] Prepare 1:1 <!-- recurring:aaa111 -->`);
+
+        writeFileSync(join(testDir, '.mcp-tasks-recurring.json'), JSON.stringify([
+          { id: 'aaa111', text: 'Prepare 1:1', frequency: 'weekly', interval: 1, startDate: '2024-01-01' },
+          { id: 'bbb222', text: 'Submit timesheet', frequency: 'weekly', interval: 2, startDate: '2024-01-10', priority: 'P2' },
+          { id: 'ccc333', text: 'Pay rent', description: 'Transfer to landlord', frequency: 'monthly', dayOfMonth: 17 },
+          { id: 'ddd444', text: 'Review budget', frequency: 'monthly', dayOfMonth: 31 },
+        ]));
+
+        // Task IDs for the instances; the repeated one proves that IDs handed out earlier in the transition are skipped
+        spyOn(crypto, 'randomBytes')
+          .mockReturnValueOnce(Buffer.from('000001', 'hex'))
+          .mockReturnValueOnce(Buffer.from('000002', 'hex'))
+          .mockReturnValueOnce(Buffer.from('000002', 'hex'))
+          .mockReturnValueOnce(Buffer.from('000003', 'hex'));
+      });
+
+      it('should add the recurring tasks falling in each new week without duplicating instances', async() => {
+        await handler();
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe(`# This Week
+- [ ] Open task <!-- rollovers:1 -->
+- [ ] Pay rent <!-- id:000001 recurring:ccc333 -->
+  Transfer to landlord
+- [ ] Prepare 1:1 <!-- recurring:aaa111 -->
+
+# Next Week
+- [ ] Prepare 1:1 <!-- id:000002 recurring:aaa111 -->
+- [ ] Submit timesheet <!-- id:000003 priority:P2 recurring:bbb222 -->
+`);
+      });
+
+      it('should list the recurring tasks in the preview', async() => {
+        const result = await handler({ dry_run: true });
+
+        expect(result.content[0].text).toContain(`Recurring tasks added:
+- [ ] Pay rent <!-- id:000001 recurring:ccc333 -->
+- [ ] Prepare 1:1 <!-- id:000002 recurring:aaa111 -->
+- [ ] Submit timesheet <!-- id:000003 priority:P2 recurring:bbb222 -->`);
+      });
+    });
+
+    describe('task IDs', () => {
+      it('should keep IDs on carried-over and archived tasks', async() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [x] Finished task <!-- id:a1b2c3 -->
+- [ ] Unfinished task <!-- id:d4e5f6 -->
+
+# Next Week
+`);
+
+        await handler();
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+        const archiveContent = readFileSync(join(testDir, 'archive.md'), 'utf-8');
+
+        expect(currentContent).toContain('- [ ] Unfinished task <!-- id:d4e5f6 rollovers:1 -->');
+        expect(archiveContent).toContain('- [x] Finished task <!-- id:a1b2c3 -->');
+        expect(archiveContent).toContain('- [ ] Unfinished task <!-- id:d4e5f6 -->');
+      });
+    });
+
+    describe('rollovers and stale tasks', () => {
+      beforeEach(() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Fresh task
+- [ ] Lingering task <!-- id:a1b2c3 rollovers:2 -->
+  Lingering description
+- [x] Done task <!-- rollovers:5 -->
+
+# Next Week
+- [ ] Planned task`);
+      });
+
+      it('should count how many weeks each unfinished task has been carried over', async() => {
+        await handler();
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        expect(currentContent).toContain('- [ ] Fresh task <!-- rollovers:1 -->');
+        expect(currentContent).toContain('- [ ] Lingering task <!-- id:a1b2c3 rollovers:3 -->\n  Lingering description');
+        expect(currentContent).toContain('- [ ] Planned task\n');
+      });
+
+      it('should report tasks reaching the stale threshold', async() => {
+        const result = await handler();
+
+        expect(result.content[0].text).toContain(
+          'Stale tasks carried over at least 3 weeks (still in This Week):\n- Lingering task (carried over 3 weeks)',
+        );
+      });
+
+      it('should use a custom stale threshold', async() => {
+        const result = await handler({ stale_threshold: 1 });
+
+        expect(result.content[0].text).toContain('- Fresh task (carried over 1 weeks)');
+        expect(result.content[0].text).toContain('- Lingering task (carried over 3 weeks)');
+      });
+
+      it('should not report stale tasks below the threshold', async() => {
+        const result = await handler({ stale_threshold: 4 });
+
+        expect(result.content[0].text).not.toContain('Stale tasks');
+      });
+
+      it('should move stale tasks to the backlog when requested', async() => {
+        const result = await handler({ move_stale_to_backlog: true });
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+        const backlogContent = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        expect(currentContent).not.toContain('Lingering task');
+        expect(currentContent).toContain('- [ ] Fresh task <!-- rollovers:1 -->');
+        expect(backlogContent).toContain('- [ ] Lingering task added on 2024-01-15 <!-- id:a1b2c3 -->\n  Lingering description');
+        expect(result.content[0].text).toContain('(moved to backlog)');
+      });
+    });
+
+    describe('dry run', () => {
+      it('should not modify any files or make commits', async() => {
+        const originalCurrent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+        const originalArchive = readFileSync(join(testDir, 'archive.md'), 'utf-8');
+        const originalBacklog = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
+
+        await handler({ dry_run: true, stale_threshold: 1, move_stale_to_backlog: true });
+
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe(originalCurrent);
+        expect(readFileSync(join(testDir, 'archive.md'), 'utf-8')).toBe(originalArchive);
+        expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe(originalBacklog);
+        expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+        expect(gitUtils.hasUntrackedFiles).not.toHaveBeenCalled();
+      });
+
+      it('should preview the archive section, carried over and finished tasks', async() => {
+        const result = await handler({ dry_run: true });
+        const text = result.content[0].text;
+
+        expect(text).toStartWith('Dry run: no changes made. Starting the week would archive the week of 2024-01-08.');
+        expect(text).toContain('Archive section to be added to archive.md:\n# Week of 2024-01-08\n- [x] Completed this week task\n');
+        expect(text).toContain(
+          'Tasks carried over to This Week:\n- [ ] Unfinished this week task <!-- rollovers:1 -->\n- [ ] Another unfinished task <!-- rollovers:1 -->',
+        );
+        expect(text).toContain(
+          'Tasks dropped as finished:\n- [x] Completed this week task\n- [-] Closed this week task  \n- [x] This week task with description',
+        );
+      });
+
+      it('should preview the resulting current.md exactly as the transition writes it', async() => {
+        const preview = (await handler({ dry_run: true })).content[0].text;
+
+        await handler();
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+
+        expect(preview).toEndWith(`Resulting current.md:\n${currentContent}`);
+      });
+
+      it('should report when the week has already been archived', async() => {
+        dateUtils.getArchiveWeekDate.mockReturnValue('2024-01-01');
+
+        const result = await handler({ dry_run: true });
+
+        expect(result.content[0].text).toStartWith('Week of 2024-01-01 has already been archived. No changes made.');
+      });
     });
 
     describe('description preservation', () => {
@@ -199,6 +497,33 @@ describe('startWeek tool', () => {
         expect(archiveContent).toContain('  Details here');
       });
 
+      it('should carry over unfinished tasks with only their unfinished subtasks', async() => {
+        writeFileSync(join(testDir, 'current.md'), `# This Week
+- [ ] Plan trip
+  Summer holiday
+  - [x] Book flights
+    Cheapest option
+  - [ ] Book hotel
+
+# Next Week`);
+
+        await handler();
+
+        const currentContent = readFileSync(join(testDir, 'current.md'), 'utf-8');
+        const archiveContent = readFileSync(join(testDir, 'archive.md'), 'utf-8');
+
+        expect(currentContent).toContain(`- [ ] Plan trip <!-- rollovers:1 -->
+  Summer holiday
+  - [ ] Book hotel`);
+        expect(currentContent).not.toContain('Book flights');
+        expect(currentContent).not.toContain('Cheapest option');
+        expect(archiveContent).toContain(`- [ ] Plan trip
+  Summer holiday
+  - [x] Book flights
+    Cheapest option
+  - [ ] Book hotel`);
+      });
+
       it('should handle tasks without descriptions correctly', async() => {
         await handler();
 
@@ -211,7 +536,7 @@ describe('startWeek tool', () => {
     });
 
     describe('file operations', () => {
-      it('should not modify backlog.md', async() => {
+      it('should not modify backlog.md without scheduled tasks', async() => {
         const originalBacklog = readFileSync(join(testDir, 'backlog.md'), 'utf-8');
 
         await handler();
@@ -282,7 +607,7 @@ describe('startWeek tool', () => {
         await handler();
 
         // First commit should be pre-backup
-        expect(gitUtils.commitChanges).toHaveBeenNthCalledWith(1, 'Pre-start-week backup');
+        expect(gitUtils.commitChanges).toHaveBeenNthCalledWith(1, 'Pre-start-week backup', { undoable: false });
       });
 
       it('should skip pre-backup commit when there are no untracked files', async() => {
@@ -374,6 +699,33 @@ describe('startWeek tool', () => {
       });
     });
 
+    describe('expected revision', () => {
+      it('should reject a stale revision before changing anything', async() => {
+        const result = await handler({ expected_revision: 'stale1234567' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Revision conflict');
+        expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+      });
+
+      it('should abort when the tasks change while the backup is committed', async() => {
+        const concurrentContent = '# This Week\n- [ ] Added elsewhere\n\n# Next Week\n';
+
+        spyOn(gitUtils, 'commitChanges').mockImplementation(() => {
+          writeFileSync(join(testDir, 'current.md'), concurrentContent);
+
+          return Promise.resolve();
+        });
+
+        const result = await handler();
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Revision conflict');
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe(concurrentContent);
+        expect(readFileSync(join(testDir, 'archive.md'), 'utf-8')).not.toContain('# Week of 2024-01-08');
+      });
+    });
+
     describe('edge cases', () => {
       it('should handle empty sections gracefully', async() => {
         writeFileSync(join(testDir, 'current.md'), `# This Week
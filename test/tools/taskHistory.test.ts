@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/taskHistory';
+import { handler as addTask } from 'src/tools/addTask';
+import { handler as editTask } from 'src/tools/editTask';
+import { handler as moveTask } from 'src/tools/moveTask';
+import { handler as finishTask } from 'src/tools/finishTask';
+import { handler as startWeek } from 'src/tools/startWeek';
+import { initializeWorkspace } from 'src/utils/initializeWorkspace';
+import { initGitRepo } from 'src/utils/git';
+import * as dateUtils from 'src/utils/dates';
+
+describe('taskHistory tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-taskhistory';
+
+  function eventTypes(result: Awaited<ReturnType<typeof handler>>): string[] {
+    const events = result.structuredContent?.events as { type: string }[];
+
+    return events.map(event => event.type);
+  }
+
+  beforeEach(async() => {
+    // Create fresh workspace with a real git repository
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    setWorkingDirectory(testDir);
+    await initializeWorkspace();
+
+    spyOn(dateUtils, 'getCurrentDate').mockReturnValue('2024-01-15');
+    spyOn(dateUtils, 'getArchiveWeekDate').mockReturnValue('2024-01-08');
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mock.restore();
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('task_history');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Task History',
+        description: 'List the chronological history of a task (added, edited, moved, finished, archived) from the git log',
+        inputSchema: {
+          task_identifier: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should list the events of a task in chronological order', async() => {
+      await addTask({ task_text: 'Write report', target: 'backlog' });
+      await moveTask({ task_identifier: 'Write report', destination: 'current_week' });
+      await editTask({ task_identifier: 'Write report', new_text: 'Write quarterly report' });
+      await startWeek();
+      await finishTask({ task_identifier: 'quarterly', status: 'completed' });
+
+      const result = await handler({ task_identifier: 'quarterly' });
+      const events = result.structuredContent?.events as Record<string, string>[];
+
+      expect(eventTypes(result)).toEqual(['added', 'moved', 'edited', 'archived', 'finished']);
+      expect(events[0]).toEqual({
+        date: expect.any(String),
+        commit: 'Added task: Write report',
+        type: 'added',
+        details: 'Added to backlog',
+      });
+      expect(events[1].details).toBe('Moved from backlog to This Week');
+      expect(events[2].details).toBe('Text changed from "Write report" to "Write quarterly report"');
+      expect(events[3].details).toBe('Archived in week of 2024-01-08, carried over to This Week');
+      expect(events[4].details).toBe('Marked as completed');
+      expect(result.structuredContent?.task).toEqual({
+        id: expect.stringMatching(/^[0-9a-f]{6}$/),
+        taskText: 'Write quarterly report',
+      });
+    });
+
+    it('should find tasks that only remain in the archive', async() => {
+      await addTask({ task_text: 'Ship release', target: 'current_week' });
+      await finishTask({ task_identifier: 'Ship release', status: 'completed' });
+      await startWeek();
+
+      const result = await handler({ task_identifier: 'ship release' });
+
+      expect(eventTypes(result)).toEqual(['added', 'finished', 'archived']);
+      expect((result.structuredContent?.events as Record<string, string>[])[2].details)
+        .toBe('Archived in week of 2024-01-08, removed from current tasks');
+    });
+
+    it('should track legacy tasks without IDs by text', async() => {
+      writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Legacy task\n\n# Next Week\n');
+      await initializeWorkspace();
+      await moveTask({ task_identifier: 'Legacy task', destination: 'next_week' });
+
+      const result = await handler({ task_identifier: 'Legacy' });
+
+      expect(eventTypes(result)).toEqual(['added', 'moved']);
+    });
+
+    it('should follow tasks of a workspace inside a larger repository', async() => {
+      // The workspace is a subdirectory of the test directory's repository
+      rmSync(testDir, { recursive: true });
+      mkdirSync(testDir);
+      setWorkingDirectory(testDir);
+      await initGitRepo();
+      setWorkingDirectory(join(testDir, 'tasks'));
+      await initializeWorkspace();
+
+      await addTask({ task_text: 'Nested task', target: 'backlog' });
+      await moveTask({ task_identifier: 'Nested task', destination: 'current_week' });
+
+      const result = await handler({ task_identifier: 'Nested task' });
+
+      expect(eventTypes(result)).toEqual(['added', 'moved']);
+    });
+
+    it('should return an error for unknown tasks', async() => {
+      const result = await handler({ task_identifier: 'Nonexistent' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error reading task history:');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { name, config, handler } from 'src/tools/undo';
+import { commitChanges, initGitRepo } from 'src/utils/git';
+
+describe('undo tool', () => {
+  const testDir = '/tmp/mcp-tasks-test-undo';
+
+  function readCurrent(): string {
+    return readFileSync(join(testDir, 'current.md'), 'utf-8');
+  }
+
+  function gitLog(): string[] {
+    return execFileSync('git', ['log', '--format=%s'], { cwd: testDir }).toString().trim().split('\n');
+  }
+
+  async function writeAndCommit(content: string, message: string, undoable = true): Promise<void> {
+    writeFileSync(join(testDir, 'current.md'), content);
+    await commitChanges(message, { undoable });
+  }
+
+  beforeEach(async() => {
+    // Create fresh test directory with a real git repository
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    await initGitRepo();
+    await writeAndCommit('# This Week\n', 'Changes since last startup', false);
+    await writeAndCommit('# This Week\n- [ ] First task\n', 'Added task: First task');
+    await writeAndCommit('# This Week\n- [ ] First task\n- [ ] Second task\n', 'Added task: Second task');
+  });
+
+  afterEach(() => {
+    // Clean up test directory
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('tool metadata', () => {
+    it('should export correct tool name', () => {
+      expect(name).toBe('undo');
+    });
+
+    it('should export correct config structure', () => {
+      expect(config).toEqual({
+        title: 'Undo',
+        description: 'Revert the most recent task operation(s). Only changes made by this server\'s tools can be undone',
+        inputSchema: {
+          count: expect.any(Object),
+          expected_revision: expect.any(Object),
+        },
+      });
+    });
+  });
+
+  describe('handler function', () => {
+    it('should revert the most recent operation', async() => {
+      const result = await handler({});
+
+      expect(readCurrent()).toBe('# This Week\n- [ ] First task\n');
+      expect(gitLog()[0]).toBe('Undo: Added task: Second task');
+      expect(result.content[0].text).toMatch(/^Successfully undid 1 operation\(s\):\n- Added task: Second task \(/);
+      expect(result).not.toHaveProperty('isError');
+    });
+
+    it('should revert the last N operations in one commit', async() => {
+      const result = await handler({ count: 2 });
+
+      expect(readCurrent()).toBe('# This Week\n');
+      expect(gitLog()[0]).toBe('Undo 2 operations');
+      expect(result.content[0].text).toContain('- Added task: Second task');
+      expect(result.content[0].text).toContain('- Added task: First task');
+    });
+
+    it('should step further back on repeated undos', async() => {
+      await handler({});
+      await handler({});
+
+      expect(readCurrent()).toBe('# This Week\n');
+    });
+
+    it('should refuse to undo commits not made by a task operation', async() => {
+      await handler({ count: 2 });
+
+      const result = await handler({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(
+        'Error undoing operation: No operations can be undone: "Changes since last startup" was not made by a task operation',
+      );
+      expect(readCurrent()).toBe('# This Week\n');
+    });
+
+    it('should refuse to undo more operations than are available', async() => {
+      const result = await handler({ count: 3 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Only 2 operation(s) can be undone');
+      expect(readCurrent()).toBe('# This Week\n- [ ] First task\n- [ ] Second task\n');
+    });
+
+    it('should refuse to undo with uncommitted changes', async() => {
+      writeFileSync(join(testDir, 'current.md'), '# Edited by hand\n');
+
+      const result = await handler({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('uncommitted changes');
+      expect(readCurrent()).toBe('# Edited by hand\n');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import {
+  parseArchiveWeekTitle,
+  getArchiveWeeks,
+  selectArchiveWeeks,
+  formatArchiveWeeks,
+  type ArchiveWeek,
+} from 'src/utils/archive';
+
+describe('archive utilities', () => {
+  const testDir = '/tmp/mcp-tasks-test-archive';
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('parseArchiveWeekTitle', () => {
+    it('should extract the week date from a heading', () => {
+      expect(parseArchiveWeekTitle('Week of 2024-01-08')).toBe('2024-01-08');
+    });
+
+    it('should ignore other headings', () => {
+      expect(parseArchiveWeekTitle('Archive')).toBeUndefined();
+      expect(parseArchiveWeekTitle('Week of last year')).toBeUndefined();
+    });
+  });
+
+  describe('getArchiveWeeks', () => {
+    it('should return weeks in chronological order, skipping other sections', () => {
+      writeFileSync(join(testDir, 'archive.md'), `# Archive
+
+# Week of 2024-01-08
+- [x] Second week task
+
+# Week of 2024-01-01
+- [x] First week task
+`);
+
+      const weeks = getArchiveWeeks();
+
+      expect(weeks.map(week => week.week)).toEqual(['2024-01-01', '2024-01-08']);
+      expect(weeks[0].content).toContain('- [x] First week task');
+    });
+  });
+
+  describe('selectArchiveWeeks', () => {
+    const weeks: ArchiveWeek[] = ['2024-01-01', '2024-01-08', '2024-01-15', '2024-01-22']
+      .map(week => ({ week, content: [] }));
+
+    it('should select a specific week', () => {
+      expect(selectArchiveWeeks(weeks, { week: '2024-01-08' })).toEqual([weeks[1]]);
+    });
+
+    it('should select an inclusive range of weeks', () => {
+      expect(selectArchiveWeeks(weeks, { fromWeek: '2024-01-05', toWeek: '2024-01-15' }))
+        .toEqual([weeks[1], weeks[2]]);
+    });
+
+    it('should select the most recent N weeks', () => {
+      expect(selectArchiveWeeks(weeks, { last: 2 })).toEqual([weeks[2], weeks[3]]);
+    });
+
+    it('should apply the last N limit within a range', () => {
+      expect(selectArchiveWeeks(weeks, { toWeek: '2024-01-15', last: 1 })).toEqual([weeks[2]]);
+    });
+
+    it('should return every week when nothing is selected', () => {
+      expect(selectArchiveWeeks(weeks, {})).toEqual(weeks);
+    });
+  });
+
+  describe('formatArchiveWeeks', () => {
+    it('should format weeks as markdown sections separated by blank lines', () => {
+      const result = formatArchiveWeeks([
+        { week: '2024-01-01', content: ['- [x] First', ''] },
+        { week: '2024-01-08', content: ['- [-] Second'] },
+      ]);
+
+      expect(result).toBe('# Week of 2024-01-01\n- [x] First\n\n# Week of 2024-01-08\n- [-] Second');
+    });
+  });
+});
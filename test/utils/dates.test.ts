@@ -1,8 +1,58 @@
 /* global global */
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { getCurrentDate, getArchiveWeekDate } from 'src/utils/dates';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import {
+  getCurrentDate,
+  getArchiveWeekDate,
+  getWeekStartDate,
+  getDaysBetween,
+  appendAddedDate,
+  splitAddedDate,
+  addDays,
+} from 'src/utils/dates';
 
 describe('dates utilities', () => {
+  const testDir = '/tmp/mcp-tasks-test-dates';
+  let originalDate: typeof Date;
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+    originalDate = Date;
+  });
+
+  afterEach(() => {
+    global.Date = originalDate;
+
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  function mockDate(dateString: string) {
+    const mockDate = new Date(dateString);
+
+    global.Date = class extends Date {
+      constructor(...args) {
+        if (args.length === 0) {
+          super(mockDate.getTime());
+        } else {
+          super(...args);
+        }
+      }
+    };
+  }
+
+  function writeWeekConfig(week: Record<string, string>) {
+    writeFileSync(join(testDir, '.mcp-tasks.json'), JSON.stringify({ week }));
+    setWorkingDirectory(testDir);
+  }
+
   describe('getCurrentDate', () => {
     it('should return date in YYYY-MM-DD format', () => {
       const result = getCurrentDate();
@@ -16,33 +66,23 @@ describe('dates utilities', () => {
 
       expect(result).toBe(expected);
     });
-  });
 
-  describe('getArchiveWeekDate', () => {
-    let originalDate: typeof Date;
-
-    beforeEach(() => {
-      originalDate = Date;
-    });
+    it('should use the configured timezone', () => {
+      mockDate('2024-01-15T23:30:00Z');
+      writeWeekConfig({ timezone: 'Asia/Tokyo' });
 
-    afterEach(() => {
-      global.Date = originalDate;
+      expect(getCurrentDate()).toBe('2024-01-16');
     });
 
-    function mockDate(dateString: string) {
-      const mockDate = new Date(dateString);
+    it('should handle timezones behind UTC', () => {
+      mockDate('2024-01-15T03:00:00Z');
+      writeWeekConfig({ timezone: 'America/Los_Angeles' });
 
-      global.Date = class extends Date {
-        constructor(...args) {
-          if (args.length === 0) {
-            super(mockDate.getTime());
-          } else {
-            super(...args);
-          }
-        }
-      };
-    }
+      expect(getCurrentDate()).toBe('2024-01-14');
+    });
+  });
 
+  describe('getArchiveWeekDate', () => {
     it('should return date in YYYY-MM-DD format', () => {
       mockDate('2024-01-15'); // Monday
       const result = getArchiveWeekDate();
@@ -130,4 +170,106 @@ describe('dates utilities', () => {
       expect(result).toBe('2024-02-26');
     });
   });
+
+  describe('getArchiveWeekDate with configured weeks', () => {
+    it('should return the Sunday of the running week for Sunday-start weeks', () => {
+      mockDate('2024-01-17'); // Wednesday
+      writeWeekConfig({ startDay: 'sunday', cutoverDay: 'wednesday' });
+
+      expect(getArchiveWeekDate()).toBe('2024-01-14');
+    });
+
+    it('should return the previous Sunday before the cut-over day', () => {
+      mockDate('2024-01-16'); // Tuesday
+      writeWeekConfig({ startDay: 'sunday', cutoverDay: 'wednesday' });
+
+      expect(getArchiveWeekDate()).toBe('2024-01-07');
+    });
+
+    it('should treat the start day as the cut-over when both are equal', () => {
+      mockDate('2024-01-15'); // Monday
+      writeWeekConfig({ startDay: 'monday', cutoverDay: 'monday' });
+
+      expect(getArchiveWeekDate()).toBe('2024-01-15');
+    });
+
+    it('should support custom start days', () => {
+      mockDate('2024-01-19'); // Friday
+      writeWeekConfig({ startDay: 'saturday', cutoverDay: 'tuesday' });
+
+      // Saturday 2024-01-13 starts the running week, cut-over already passed
+      expect(getArchiveWeekDate()).toBe('2024-01-13');
+    });
+
+    it('should compute the week in the configured timezone', () => {
+      mockDate('2024-01-17T22:00:00Z'); // Wednesday in UTC, Thursday in Tokyo
+      writeWeekConfig({ timezone: 'Asia/Tokyo' });
+
+      expect(getArchiveWeekDate()).toBe('2024-01-15');
+    });
+  });
+
+  describe('addDays', () => {
+    it('should shift dates across month and year boundaries', () => {
+      expect(addDays('2024-01-30', 3)).toBe('2024-02-02');
+      expect(addDays('2024-01-02', -3)).toBe('2023-12-30');
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    });
+  });
+
+  describe('getDaysBetween', () => {
+    it('should count the days between two dates', () => {
+      expect(getDaysBetween('2024-01-15', '2024-02-05')).toBe(21);
+      expect(getDaysBetween('2024-02-05', '2024-01-15')).toBe(-21);
+      expect(getDaysBetween('2024-03-10', '2024-03-10')).toBe(0);
+    });
+  });
+
+  describe('getWeekStartDate', () => {
+    it('should return the start of the week containing a date', () => {
+      expect(getWeekStartDate('2024-01-17')).toBe('2024-01-15');
+      expect(getWeekStartDate('2024-01-15')).toBe('2024-01-15');
+      expect(getWeekStartDate('2024-01-21')).toBe('2024-01-15');
+    });
+
+    it('should follow the configured start day', () => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), JSON.stringify({ week: { startDay: 'sunday' } }));
+      setWorkingDirectory(testDir);
+
+      expect(getWeekStartDate('2024-01-17')).toBe('2024-01-14');
+    });
+  });
+
+  describe('backlog added dates', () => {
+    it('should append the added date suffix', () => {
+      expect(appendAddedDate('Upgrade database', '2024-01-15')).toBe('Upgrade database added on 2024-01-15');
+    });
+
+    it('should split the added date from task text', () => {
+      expect(splitAddedDate('Upgrade database added on 2024-01-15')).toEqual({
+        text: 'Upgrade database',
+        addedOn: '2024-01-15',
+      });
+    });
+
+    it('should keep tags typed after the added date in the task text', () => {
+      expect(splitAddedDate('Upgrade database added on 2024-01-15 #infra @office')).toEqual({
+        text: 'Upgrade database #infra @office',
+        addedOn: '2024-01-15',
+      });
+    });
+
+    it('should return text unchanged when there is no added date', () => {
+      expect(splitAddedDate('Upgrade database')).toEqual({ text: 'Upgrade database' });
+    });
+
+    it('should use the configured label', () => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), JSON.stringify({ backlogDateLabel: 'since (ISO)' }));
+      setWorkingDirectory(testDir);
+
+      expect(appendAddedDate('Upgrade database', '2024-01-15')).toBe('Upgrade database since (ISO) 2024-01-15');
+      expect(splitAddedDate('Upgrade database since (ISO) 2024-01-15').addedOn).toBe('2024-01-15');
+      expect(splitAddedDate('Upgrade database added on 2024-01-15').addedOn).toBeUndefined();
+    });
+  });
 });
@@ -1,8 +1,19 @@
-import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+/* global console */
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import * as fs from 'fs';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync, readdirSync } from 'fs';
 import { join } from 'path';
-import { setWorkingDirectory } from 'src/config';
-import { readFile, changeFile, appendToFile, addTaskToFile } from 'src/utils/fileOperations';
+import { setWorkingDirectory, addWorkspace, runInWorkspace } from 'src/config';
+import {
+  readFile,
+  changeFile,
+  appendToFile,
+  addTaskToFile,
+  onFileChange,
+  writeFileAtomic,
+  runTransaction,
+  type FileChange,
+} from 'src/utils/fileOperations';
 
 describe('fileOperations', () => {
   const testDir = '/tmp/mcp-tasks-test-fileoperations';
@@ -21,6 +32,8 @@ describe('fileOperations', () => {
     if (existsSync(testDir)) {
       rmSync(testDir, { recursive: true });
     }
+    // Clear all spies
+    mock.restore();
   });
 
   describe('readFile', () => {
@@ -368,4 +381,177 @@ describe('fileOperations', () => {
       expect(() => addTaskToFile('current', 'section', 'task')).toThrow();
     });
   });
+
+  describe('onFileChange', () => {
+    it('should notify listeners with the workspace and file that changed', () => {
+      const changes: FileChange[] = [];
+      const removeListener = onFileChange(change => changes.push(change));
+
+      writeFileSync(join(testDir, 'current.md'), 'content');
+      writeFileSync(join(testDir, 'archive.md'), '# Archive');
+      changeFile('current', content => `${content} updated`);
+      addWorkspace('other', testDir);
+      runInWorkspace('other', () => appendToFile('archive', 'archived'));
+      removeListener();
+
+      expect(changes).toEqual([
+        { workspace: 'default', fileName: 'current' },
+        { workspace: 'other', fileName: 'archive' },
+      ]);
+    });
+
+    it('should stop notifying removed listeners', () => {
+      const changes: FileChange[] = [];
+      const removeListener = onFileChange(change => changes.push(change));
+
+      removeListener();
+      writeFileSync(join(testDir, 'current.md'), 'content');
+      changeFile('current', content => content);
+
+      expect(changes).toEqual([]);
+    });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should replace the file without leaving temporary files behind', () => {
+      writeFileSync(join(testDir, 'current.md'), 'old');
+
+      writeFileAtomic(join(testDir, 'current.md'), 'new');
+
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe('new');
+      expect(readdirSync(testDir)).toEqual(['current.md']);
+    });
+
+    it('should clean up the temporary file when the rename fails', () => {
+      mkdirSync(join(testDir, 'folder.md'));
+
+      expect(() => writeFileAtomic(join(testDir, 'folder.md'), 'content')).toThrow();
+      expect(readdirSync(testDir)).toEqual(['folder.md']);
+    });
+  });
+
+  describe('runTransaction', () => {
+    beforeEach(() => {
+      writeFileSync(join(testDir, 'current.md'), 'current');
+      writeFileSync(join(testDir, 'backlog.md'), 'backlog');
+    });
+
+    it('should write every staged change once the operation succeeds', () => {
+      runTransaction(() => {
+        changeFile('current', content => `${content} changed`);
+        changeFile('backlog', content => `${content} changed`);
+
+        // Nothing reaches the disk before the transaction completes
+        expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe('current');
+      });
+
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe('current changed');
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe('backlog changed');
+    });
+
+    it('should read staged content within the transaction', () => {
+      const result = runTransaction(() => {
+        changeFile('current', content => `${content} once`);
+        changeFile('current', content => `${content} twice`);
+
+        return readFile('current');
+      });
+
+      expect(result).toBe('current once twice');
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe('current once twice');
+    });
+
+    it('should leave every file untouched when the operation fails', () => {
+      expect(() => runTransaction(() => {
+        changeFile('current', content => `${content} changed`);
+        changeFile('backlog', () => {
+          throw new Error('Section not found');
+        });
+      })).toThrow('Section not found');
+
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe('current');
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe('backlog');
+    });
+
+    it('should discard only the changes of a failed nested transaction', () => {
+      runTransaction(() => {
+        changeFile('current', content => `${content} kept`);
+        expect(() => runTransaction(() => {
+          changeFile('current', content => `${content} discarded`);
+          changeFile('backlog', content => `${content} discarded`);
+          throw new Error('Nested failure');
+        })).toThrow('Nested failure');
+      });
+
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe('current kept');
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe('backlog');
+    });
+
+    it('should restore written files and report the original error when a write fails', () => {
+      const renameSync = fs.renameSync;
+      let renames = 0;
+
+      spyOn(fs, 'renameSync').mockImplementation((oldPath, newPath) => {
+        renames++;
+
+        if (renames === 2) {
+          throw new Error('Disk full');
+        }
+
+        renameSync(oldPath, newPath);
+      });
+
+      expect(() => runTransaction(() => {
+        changeFile('current', content => `${content} changed`);
+        changeFile('backlog', content => `${content} changed`);
+      })).toThrow('Disk full');
+
+      expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe('current');
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe('backlog');
+    });
+
+    it('should keep the original error when restoring a file fails too', () => {
+      spyOn(console, 'error').mockImplementation(() => {});
+      const renameSync = fs.renameSync;
+      let renames = 0;
+
+      spyOn(fs, 'renameSync').mockImplementation((oldPath, newPath) => {
+        renames++;
+
+        if (renames === 2) {
+          throw new Error('Disk full');
+        }
+
+        if (renames === 3) {
+          throw new Error('Rollback failed');
+        }
+
+        renameSync(oldPath, newPath);
+      });
+
+      expect(() => runTransaction(() => {
+        changeFile('current', content => `${content} changed`);
+        changeFile('backlog', content => `${content} changed`);
+      })).toThrow('Disk full');
+
+      expect(console.error).toHaveBeenCalledWith(
+        `Failed to restore ${join(testDir, 'current.md')} after a failed transaction:`,
+        new Error('Rollback failed'),
+      );
+    });
+
+    it('should notify listeners once per changed file after writing', () => {
+      const changes: FileChange[] = [];
+      const removeListener = onFileChange(change => changes.push(change));
+
+      runTransaction(() => {
+        changeFile('current', content => `${content} once`);
+        changeFile('current', content => `${content} twice`);
+        expect(changes).toEqual([]);
+      });
+      removeListener();
+
+      expect(changes).toEqual([{ workspace: 'default', fileName: 'current' }]);
+    });
+  });
 });
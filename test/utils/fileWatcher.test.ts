@@ -0,0 +1,127 @@
+/* global console */
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { watchWorkspace, formatExternalEditMessage, type FileWatcher } from 'src/utils/fileWatcher';
+import { changeFile, onFileChange, type FileChange } from 'src/utils/fileOperations';
+import * as gitUtils from 'src/utils/git';
+
+describe('fileWatcher', () => {
+  const testDir = '/tmp/mcp-tasks-test-filewatcher';
+  let watcher: FileWatcher;
+
+  // Long enough for the watch event plus the settle delay
+  async function waitForWatcher(): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+  }
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] First task\n\n# Next Week\n');
+    writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n');
+    writeFileSync(join(testDir, 'archive.md'), '# Archive\n');
+
+    spyOn(gitUtils, 'hasUntrackedFiles').mockResolvedValue(true);
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+    // Keep the watcher's reports out of the test output
+    spyOn(console, 'error').mockImplementation(() => {});
+
+    watcher = watchWorkspace();
+  });
+
+  afterEach(() => {
+    watcher.close();
+    mock.restore();
+
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should commit external edits with a distinct message', async() => {
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] First task\n- [ ] Hand-written task\n\n# Next Week\n');
+    await waitForWatcher();
+
+    expect(gitUtils.hasUntrackedFiles).toHaveBeenCalledWith([join(testDir, 'current.md')]);
+    expect(gitUtils.commitChanges).toHaveBeenCalledWith('External edit to current.md', {
+      undoable: false,
+      paths: [join(testDir, 'current.md')],
+    });
+  });
+
+  it('should record validation problems in the commit message', async() => {
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n- [?] Odd task\n');
+    await waitForWatcher();
+
+    expect(gitUtils.commitChanges).toHaveBeenCalledWith(
+      'External edit to current.md\n\nValidation warnings:\n- Missing section "# Next Week"\n- Line 2: unknown task status "[?]"',
+      { undoable: false, paths: [join(testDir, 'current.md')] },
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      'External edit to current.md has problems:\nMissing section "# Next Week"\nLine 2: unknown task status "[?]"',
+    );
+  });
+
+  it('should report edits that cannot be committed', async() => {
+    const error = new Error('git failed');
+
+    gitUtils.commitChanges.mockRejectedValue(error);
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Changed task\n\n# Next Week\n');
+    await waitForWatcher();
+
+    expect(console.error).toHaveBeenCalledWith('Failed to record external edit to current file:', error);
+  });
+
+  it('should notify file change listeners about external edits', async() => {
+    const changes: FileChange[] = [];
+    const removeListener = onFileChange(change => changes.push(change));
+
+    writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n- [ ] Someday task\n');
+    await waitForWatcher();
+    removeListener();
+
+    expect(changes).toEqual([{ workspace: 'default', fileName: 'backlog' }]);
+  });
+
+  it('should ignore writes made by the server', async() => {
+    changeFile('current', content => content.replace('First task', 'Renamed task'));
+    await waitForWatcher();
+
+    expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+  });
+
+  it('should skip edits that are already committed', async() => {
+    gitUtils.hasUntrackedFiles.mockResolvedValue(false);
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n\n# Next Week\n');
+    await waitForWatcher();
+
+    expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+  });
+
+  it('should ignore files that are not task files', async() => {
+    writeFileSync(join(testDir, 'notes.txt'), 'scratch');
+    await waitForWatcher();
+
+    expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+  });
+
+  it('should stop watching once closed', async() => {
+    watcher.close();
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n\n# Next Week\n');
+    await waitForWatcher();
+
+    expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatExternalEditMessage', () => {
+  it('should use a plain subject without problems', () => {
+    expect(formatExternalEditMessage('current.md', [])).toBe('External edit to current.md');
+  });
+});
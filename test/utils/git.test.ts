@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
 import { setWorkingDirectory } from 'src/config';
-import { isGitRepo, initGitRepo, hasUntrackedFiles, commitChanges } from 'src/utils/git';
+import { isGitRepo, initGitRepo, hasUntrackedFiles, commitChanges, getCommitLog, revertCommits } from 'src/utils/git';
 
 // Mock child_process module
 const mockSpawn = mock(() => {
@@ -160,6 +161,42 @@ describe('git utilities', () => {
       );
     });
 
+    it('should use the configured git identity', async() => {
+      const testDir = '/tmp/mcp-tasks-test-git-identity';
+
+      mkdirSync(testDir, { recursive: true });
+      writeFileSync(`${testDir}/.mcp-tasks.json`, JSON.stringify({ git: { name: 'Task Bot', email: 'bot@example.org' } }));
+      setWorkingDirectory(testDir);
+      mockSpawn.mockImplementation(() => ({
+        stdout: { on: mock() },
+        stderr: { on: mock() },
+        on: mock((event: string, callback: (_code: number) => void) => {
+          if (event === 'close') {
+            setTimeout(() => callback(0), 1);
+          }
+        }),
+      }));
+
+      try {
+        await initGitRepo();
+      } finally {
+        rmSync(testDir, { recursive: true });
+      }
+
+      expect(mockSpawn).toHaveBeenNthCalledWith(
+        2,
+        'git',
+        ['config', 'user.email', 'bot@example.org'],
+        { cwd: testDir, stdio: ['pipe', 'pipe', 'pipe'] },
+      );
+      expect(mockSpawn).toHaveBeenNthCalledWith(
+        3,
+        'git',
+        ['config', 'user.name', 'Task Bot'],
+        { cwd: testDir, stdio: ['pipe', 'pipe', 'pipe'] },
+      );
+    });
+
     it('should throw error when git init fails', async() => {
       mockSpawn.mockImplementationOnce(() => {
         const mockChild = {
@@ -241,7 +278,7 @@ describe('git utilities', () => {
       expect(result).toBe(true);
       expect(mockSpawn).toHaveBeenCalledWith(
         'git',
-        ['status', '--porcelain'],
+        ['status', '--porcelain', '--', '.', ':(exclude).mcp-tasks.lock', ':(exclude)*.tmp'],
         { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
       );
     });
@@ -341,13 +378,45 @@ describe('git utilities', () => {
       expect(mockSpawn).toHaveBeenNthCalledWith(
         1,
         'git',
-        ['add', '.'],
+        ['add', '--', '.', ':(exclude).mcp-tasks.lock', ':(exclude)*.tmp'],
+        { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
+      );
+      expect(mockSpawn).toHaveBeenNthCalledWith(
+        2,
+        'git',
+        ['commit', '-m', 'Test commit message', '-m', 'MCP-Tasks-Operation: true'],
+        { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
+      );
+    });
+
+    it('should limit the commit to the given paths', async() => {
+      mockSpawn.mockImplementation(() => {
+        const mockChild = {
+          stdout: { on: mock() },
+          stderr: { on: mock() },
+          on: mock((event: string, callback: (_code: number) => void) => {
+            if (event === 'close') {
+              setTimeout(() => callback(0), 1);
+            }
+          }),
+        };
+
+        return mockChild;
+      });
+
+      await commitChanges('Test commit message', { undoable: false, paths: ['/test/directory/current.md'] });
+
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+      expect(mockSpawn).toHaveBeenNthCalledWith(
+        1,
+        'git',
+        ['add', '--', '/test/directory/current.md', ':(exclude).mcp-tasks.lock', ':(exclude)*.tmp'],
         { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
       );
       expect(mockSpawn).toHaveBeenNthCalledWith(
         2,
         'git',
-        ['commit', '-m', 'Test commit message'],
+        ['commit', '-m', 'Test commit message', '--', '/test/directory/current.md'],
         { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
       );
     });
@@ -425,7 +494,138 @@ describe('git utilities', () => {
       expect(mockSpawn).toHaveBeenNthCalledWith(
         2,
         'git',
-        ['commit', '-m', 'Test: "quotes" & special chars!'],
+        ['commit', '-m', 'Test: "quotes" & special chars!', '-m', 'MCP-Tasks-Operation: true'],
+        { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
+      );
+    });
+  });
+
+  describe('snapshot commits', () => {
+    it('should not mark commits as operations when not undoable', async() => {
+      mockSpawn.mockImplementation(() => {
+        const mockChild = {
+          stdout: { on: mock() },
+          stderr: { on: mock() },
+          on: mock((event: string, callback: (_code: number) => void) => {
+            if (event === 'close') {
+              setTimeout(() => callback(0), 1);
+            }
+          }),
+        };
+
+        return mockChild;
+      });
+
+      await commitChanges('Changes since last startup', { undoable: false });
+
+      expect(mockSpawn).toHaveBeenNthCalledWith(
+        2,
+        'git',
+        ['commit', '-m', 'Changes since last startup'],
+        { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
+      );
+    });
+  });
+
+  describe('getCommitLog', () => {
+    it('should parse commit records with their trailers', async() => {
+      const output = [
+        'abc123\x1fUndo: Added task: Test\x1f2024-01-15T10:00:00+00:00\x1f\x1fdef456\n\x1e',
+        '\ndef456\x1fAdded task: Test\x1f2024-01-15T09:00:00+00:00\x1ftrue\n\x1f\x1e',
+        '\n012345\x1fChanges since last startup\x1f2024-01-14T09:00:00+00:00\x1f\x1f\x1e\n',
+      ].join('');
+
+      mockSpawn.mockImplementationOnce(() => {
+        const mockChild = {
+          stdout: {
+            on: mock((event: string, callback: (_data: Buffer) => void) => {
+              if (event === 'data') {
+                setTimeout(() => callback(Buffer.from(output)), 1);
+              }
+            }),
+          },
+          stderr: { on: mock() },
+          on: mock((event: string, callback: (_code: number) => void) => {
+            if (event === 'close') {
+              setTimeout(() => callback(0), 2);
+            }
+          }),
+        };
+
+        return mockChild;
+      });
+
+      const log = await getCommitLog();
+
+      expect(log).toEqual([
+        { hash: 'abc123', subject: 'Undo: Added task: Test', date: '2024-01-15T10:00:00+00:00', isOperation: false, reverts: ['def456'] },
+        { hash: 'def456', subject: 'Added task: Test', date: '2024-01-15T09:00:00+00:00', isOperation: true, reverts: [] },
+        { hash: '012345', subject: 'Changes since last startup', date: '2024-01-14T09:00:00+00:00', isOperation: false, reverts: [] },
+      ]);
+    });
+  });
+
+  describe('revertCommits', () => {
+    const commits = [
+      { hash: 'def456', subject: 'Second', date: '', isOperation: true, reverts: [] },
+      { hash: 'abc123', subject: 'First', date: '', isOperation: true, reverts: [] },
+    ];
+
+    it('should revert all commits and record them in a single commit', async() => {
+      mockSpawn.mockImplementation(() => {
+        const mockChild = {
+          stdout: { on: mock() },
+          stderr: { on: mock() },
+          on: mock((event: string, callback: (_code: number) => void) => {
+            if (event === 'close') {
+              setTimeout(() => callback(0), 1);
+            }
+          }),
+        };
+
+        return mockChild;
+      });
+
+      await revertCommits(commits, 'Undo 2 operations');
+
+      expect(mockSpawn).toHaveBeenNthCalledWith(
+        1,
+        'git',
+        ['revert', '--no-commit', 'def456', 'abc123'],
+        { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
+      );
+      expect(mockSpawn).toHaveBeenNthCalledWith(
+        2,
+        'git',
+        ['commit', '-m', 'Undo 2 operations', '-m', 'MCP-Tasks-Revert: def456\nMCP-Tasks-Revert: abc123'],
+        { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
+      );
+    });
+
+    it('should abort the revert when it fails', async() => {
+      let callCount = 0;
+
+      mockSpawn.mockImplementation(() => {
+        callCount++;
+        const exitCode = callCount === 1 ? 1 : 0;
+        const mockChild = {
+          stdout: { on: mock() },
+          stderr: { on: mock() },
+          on: mock((event: string, callback: (_code: number) => void) => {
+            if (event === 'close') {
+              setTimeout(() => callback(exitCode), 1);
+            }
+          }),
+        };
+
+        return mockChild;
+      });
+
+      await expect(revertCommits(commits, 'Undo 2 operations')).rejects.toThrow('Command failed with code 1');
+      expect(mockSpawn).toHaveBeenNthCalledWith(
+        2,
+        'git',
+        ['revert', '--abort'],
         { cwd: '/test/directory', stdio: ['pipe', 'pipe', 'pipe'] },
       );
     });
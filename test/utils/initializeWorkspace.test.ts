@@ -49,7 +49,7 @@ describe('initializeWorkspace', () => {
       expect(gitUtils.isGitRepo).toHaveBeenCalledTimes(1);
       expect(gitUtils.initGitRepo).toHaveBeenCalledTimes(1);
       expect(gitUtils.hasUntrackedFiles).toHaveBeenCalledTimes(1);
-      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Changes since last startup');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Changes since last startup', { undoable: false });
 
       // Verify files were created with correct templates
       expect(existsSync(join(testDir, 'current.md'))).toBe(true);
@@ -82,7 +82,7 @@ describe('initializeWorkspace', () => {
 
       expect(gitUtils.isGitRepo).toHaveBeenCalledTimes(1);
       expect(gitUtils.initGitRepo).toHaveBeenCalledTimes(1);
-      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Changes since last startup');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Changes since last startup', { undoable: false });
     });
 
     it('should skip git initialization if already a git repo', async() => {
@@ -103,7 +103,7 @@ describe('initializeWorkspace', () => {
       await initializeWorkspace();
 
       expect(gitUtils.initGitRepo).not.toHaveBeenCalled();
-      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Changes since last startup');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Changes since last startup', { undoable: false });
     });
   });
 
@@ -160,7 +160,7 @@ describe('initializeWorkspace', () => {
       expect(readFileSync(join(testDir, 'current.md'), 'utf-8')).toBe('# This Week\n\n# Next Week\n');
       expect(readFileSync(join(testDir, 'archive.md'), 'utf-8')).toBe('# Archive\n');
 
-      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Changes since last startup');
+      expect(gitUtils.commitChanges).toHaveBeenCalledWith('Changes since last startup', { undoable: false });
     });
   });
 
@@ -279,4 +279,20 @@ describe('initializeWorkspace', () => {
       expect(archiveContent).toBe('# Archive\n');
     });
   });
+
+  describe('workspace configuration', () => {
+    it('should create files using configured names and section titles', async() => {
+      writeFileSync(join(testDir, '.mcp-tasks.json'), JSON.stringify({
+        files: { current: 'now.md' },
+        sections: { thisWeek: 'Now', nextWeek: 'Soon', backlog: 'Someday' },
+      }));
+      setWorkingDirectory(testDir);
+
+      await initializeWorkspace();
+
+      expect(readFileSync(join(testDir, 'now.md'), 'utf-8')).toBe('# Now\n\n# Soon\n');
+      expect(readFileSync(join(testDir, 'backlog.md'), 'utf-8')).toBe('# Someday\n');
+      expect(existsSync(join(testDir, 'current.md'))).toBe(false);
+    });
+  });
 });
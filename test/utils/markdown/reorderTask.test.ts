@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import { reorderTask } from 'src/utils/markdown/reorderTask';
+
+describe('reorderTask', () => {
+  const sampleContent = `# Tasks
+- [ ] First task
+- [ ] Task with description
+  Description line
+- [ ] Last task
+
+# Other Section
+- [ ] Other task`;
+
+  it('should move a task above an earlier task', () => {
+    expect(reorderTask(sampleContent, 5, 2)).toBe(`# Tasks
+- [ ] Last task
+- [ ] First task
+- [ ] Task with description
+  Description line
+
+# Other Section
+- [ ] Other task`);
+  });
+
+  it('should move a task with its description above a later task', () => {
+    expect(reorderTask(sampleContent, 3, 5)).toStartWith(`# Tasks
+- [ ] First task
+- [ ] Task with description
+  Description line
+- [ ] Last task`);
+    expect(reorderTask(sampleContent, 2, 5)).toStartWith(`# Tasks
+- [ ] Task with description
+  Description line
+- [ ] First task
+- [ ] Last task`);
+  });
+
+  it('should move a task to the end of its section before the trailing blank lines', () => {
+    expect(reorderTask(sampleContent, 3, null)).toBe(`# Tasks
+- [ ] First task
+- [ ] Last task
+- [ ] Task with description
+  Description line
+
+# Other Section
+- [ ] Other task`);
+  });
+
+  it('should throw error for non-task lines', () => {
+    expect(() => reorderTask(sampleContent, 4, null)).toThrow('No task found at line 4');
+    expect(() => reorderTask(sampleContent, 2, 6)).toThrow('No task found at line 6');
+  });
+
+  it('should throw error for invalid line number', () => {
+    expect(() => reorderTask(sampleContent, 20, null)).toThrow('Line 20 not found in content');
+  });
+});
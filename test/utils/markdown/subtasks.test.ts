@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  getSubtaskProgress,
+  formatSubtaskProgress,
+  removeFinishedSubtasks,
+  addSubtask,
+} from 'src/utils/markdown/subtasks';
+import { annotateSubtaskProgress } from 'src/utils/markdown/taskBlocks';
+
+describe('getSubtaskProgress', () => {
+  it('should count finished and total subtasks', () => {
+    expect(getSubtaskProgress([
+      '  Some details',
+      '  - [x] Done subtask',
+      '  - [-] Closed subtask',
+      '  - [ ] Open subtask',
+      '  - [/] Started subtask',
+    ])).toEqual({ finished: 2, total: 4 });
+  });
+
+  it('should ignore deeper nested checkboxes', () => {
+    expect(getSubtaskProgress(['  - [ ] Subtask', '    - [x] Nested item'])).toEqual({ finished: 0, total: 1 });
+  });
+
+  it('should return undefined for tasks without subtasks', () => {
+    expect(getSubtaskProgress(['  Just a description'])).toBeUndefined();
+    expect(getSubtaskProgress([])).toBeUndefined();
+  });
+});
+
+describe('formatSubtaskProgress', () => {
+  it('should format progress as finished/total', () => {
+    expect(formatSubtaskProgress({ finished: 2, total: 5 })).toBe('2/5');
+  });
+});
+
+describe('removeFinishedSubtasks', () => {
+  it('should drop finished subtasks with their descriptions and keep everything else', () => {
+    expect(removeFinishedSubtasks([
+      '  Parent details',
+      '  - [x] Done subtask',
+      '    Done details',
+      '  - [ ] Open subtask',
+      '    Open details',
+      '  - [-] Closed subtask',
+      '  More parent details',
+    ])).toEqual([
+      '  Parent details',
+      '  - [ ] Open subtask',
+      '    Open details',
+      '  More parent details',
+    ]);
+  });
+});
+
+describe('addSubtask', () => {
+  const content = `# This Week
+- [ ] Plan trip
+  Summer holiday
+  - [ ] Book flights
+    Cheapest option
+- [ ] Other task`;
+
+  it('should add the subtask after the existing description and subtasks', () => {
+    expect(addSubtask(content, 2, 'Book hotel')).toBe(`# This Week
+- [ ] Plan trip
+  Summer holiday
+  - [ ] Book flights
+    Cheapest option
+  - [ ] Book hotel
+- [ ] Other task`);
+  });
+
+  it('should indent the subtask description below the subtask', () => {
+    expect(addSubtask(content, 6, 'Call Bob', 'About the\nquarterly report', 'in_progress')).toBe(`# This Week
+- [ ] Plan trip
+  Summer holiday
+  - [ ] Book flights
+    Cheapest option
+- [ ] Other task
+  - [/] Call Bob
+    About the
+    quarterly report`);
+  });
+
+  it('should throw when the parent line is not a task', () => {
+    expect(() => addSubtask(content, 1, 'Subtask')).toThrow('No task found at line 1');
+    expect(() => addSubtask(content, 20, 'Subtask')).toThrow('Line 20 not found in content');
+  });
+});
+
+describe('annotateSubtaskProgress', () => {
+  it('should add the progress before the task metadata', () => {
+    expect(annotateSubtaskProgress(`# This Week
+- [ ] Plan trip <!-- id:a1b2c3 -->
+  - [x] Book flights
+  - [ ] Book hotel
+- [ ] Plain task`)).toBe(`# This Week
+- [ ] Plan trip (1/2) <!-- id:a1b2c3 -->
+  - [x] Book flights
+  - [ ] Book hotel
+- [ ] Plain task`);
+  });
+});
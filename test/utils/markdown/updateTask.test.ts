@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'bun:test';
-import { updateTaskStatus, updateTaskText, updateTaskDescription } from 'src/utils/markdown/updateTask';
+import { updateTaskStatus, updateTaskText, updateTaskDescription, updateTaskMetadata } from 'src/utils/markdown/updateTask';
 
 describe('updateTaskStatus', () => {
   const sampleContent = `# Tasks
@@ -24,6 +24,16 @@ Some other content`;
     expect(result).toContain('- [-] Closed task');
   });
 
+  it('should mark a finished task as new again', () => {
+    const result = updateTaskStatus(sampleContent, 4, 'new');
+
+    expect(result).toContain('- [ ] Closed task');
+  });
+
+  it('should accept a task that already has the status', () => {
+    expect(updateTaskStatus(sampleContent, 2, 'new')).toBe(sampleContent);
+  });
+
   it('should throw error for invalid line number', () => {
     expect(() => {
       updateTaskStatus(sampleContent, 10, 'completed');
@@ -36,6 +46,12 @@ Some other content`;
     }).toThrow('No task found at line 5');
   });
 
+  it('should update a subtask while keeping its indentation', () => {
+    const result = updateTaskStatus('- [ ] Parent task\n  - [ ] Subtask\n    Details', 2, 'completed');
+
+    expect(result).toBe('- [ ] Parent task\n  - [x] Subtask\n    Details');
+  });
+
   it('should preserve task text when updating status', () => {
     const result = updateTaskStatus(sampleContent, 2, 'completed');
 
@@ -73,6 +89,13 @@ describe('updateTaskText', () => {
     expect(result).toContain('- [-] New closed task');
   });
 
+  it('should preserve task metadata such as the ID', () => {
+    const content = '# Tasks\n- [ ] Task with ID <!-- id:a1b2c3 -->';
+    const result = updateTaskText(content, 2, 'Renamed task');
+
+    expect(result).toContain('- [ ] Renamed task <!-- id:a1b2c3 -->');
+  });
+
   it('should throw error for invalid line number', () => {
     expect(() => {
       updateTaskText(sampleContent, 10, 'New text');
@@ -89,6 +112,26 @@ Not a task line`;
   });
 });
 
+describe('updateTaskMetadata', () => {
+  const sampleContent = `# Tasks
+- [/] Task with ID <!-- id:a1b2c3 -->
+Not a task`;
+
+  it('should add metadata while keeping existing keys and the status', () => {
+    expect(updateTaskMetadata(sampleContent, 2, { priority: 'P1' })).toContain('- [/] Task with ID <!-- id:a1b2c3 priority:P1 -->');
+  });
+
+  it('should remove keys set to an empty string', () => {
+    const content = '# Tasks\n- [ ] Task <!-- priority:P2 -->';
+
+    expect(updateTaskMetadata(content, 2, { priority: '' })).toBe('# Tasks\n- [ ] Task');
+  });
+
+  it('should throw error for non-task line', () => {
+    expect(() => updateTaskMetadata(sampleContent, 3, { priority: 'P1' })).toThrow('No task found at line 3');
+  });
+});
+
 describe('updateTaskDescription', () => {
   const sampleContent = `# Tasks
 - [ ] Task with description
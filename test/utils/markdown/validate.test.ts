@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import { validateTaskFile } from 'src/utils/markdown/validate';
+
+describe('validateTaskFile', () => {
+  it('should accept a well-formed file', () => {
+    const content = `# This Week
+- [ ] Open task
+  With a description
+- [x] Done task
+- [-] Closed task
+
+# Next Week
+`;
+
+    expect(validateTaskFile(content, ['This Week', 'Next Week'])).toEqual([]);
+  });
+
+  it('should report missing required sections', () => {
+    expect(validateTaskFile('# This Week\n- [ ] Task\n', ['This Week', 'Next Week'])).toEqual([
+      'Missing section "# Next Week"',
+    ]);
+  });
+
+  it('should report content before the first section', () => {
+    expect(validateTaskFile('Stray note\n# Backlog\n', ['Backlog'])).toEqual([
+      'Line 1: content outside of any section',
+    ]);
+  });
+
+  it('should report content when there are no sections at all', () => {
+    expect(validateTaskFile('- [ ] Task', [])).toEqual([
+      'Line 1: content outside of any section',
+    ]);
+  });
+
+  it('should report unknown task statuses', () => {
+    expect(validateTaskFile('# Backlog\n- [?] Unsure task\n', ['Backlog'])).toEqual([
+      'Line 2: unknown task status "[?]"',
+    ]);
+  });
+
+  it('should accept the additional statuses by default', () => {
+    expect(validateTaskFile('# Backlog\n- [/] Started\n- [!] Stuck\n- [>] Later\n', ['Backlog'])).toEqual([]);
+  });
+
+  it('should report statuses that are not allowed', () => {
+    expect(validateTaskFile('# Backlog\n- [/] Started\n', ['Backlog'], ['new', 'completed', 'closed'])).toEqual([
+      'Line 2: task status "[/]" is not enabled in this workspace',
+    ]);
+  });
+
+  it('should report tasks without text', () => {
+    expect(validateTaskFile('# Backlog\n- [ ] \n', ['Backlog'])).toEqual([
+      'Line 2: task has no text',
+    ]);
+  });
+});
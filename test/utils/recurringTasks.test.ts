@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import {
+  readRecurringTasks,
+  createRecurringTask,
+  findRecurringTask,
+  deleteRecurringTask,
+  describeRecurrence,
+  recursInWeek,
+  getRecurringTaskId,
+  formatRecurringInstance,
+  type RecurringTask,
+} from 'src/utils/recurringTasks';
+
+describe('recurringTasks utilities', () => {
+  const testDir = '/tmp/mcp-tasks-test-recurringtasks';
+  const recurringPath = join(testDir, '.mcp-tasks-recurring.json');
+
+  const timesheet: RecurringTask = {
+    id: 'aaa111',
+    text: 'Submit timesheet',
+    frequency: 'weekly',
+    interval: 2,
+    startDate: '2024-01-10',
+  };
+  const rent: RecurringTask = { id: 'bbb222', text: 'Pay rent', frequency: 'monthly', dayOfMonth: 31 };
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('storage', () => {
+    it('should have no recurring tasks without a definitions file', () => {
+      expect(readRecurringTasks()).toEqual([]);
+    });
+
+    it('should store new definitions under fresh IDs', () => {
+      const created = createRecurringTask({ text: 'Prepare 1:1', frequency: 'weekly', interval: 1, startDate: '2024-01-15' });
+
+      expect(created.id).toMatch(/^[0-9a-f]{6}$/);
+      expect(readRecurringTasks()).toEqual([created]);
+      expect(JSON.parse(readFileSync(recurringPath, 'utf-8'))).toEqual([created]);
+    });
+
+    it('should find definitions by ID or unique text and delete them', () => {
+      writeFileSync(recurringPath, JSON.stringify([timesheet, rent]));
+
+      expect(findRecurringTask('bbb222')).toEqual(rent);
+      expect(findRecurringTask('timesheet')).toEqual(timesheet);
+      expect(() => findRecurringTask('e')).toThrow('Multiple recurring tasks found for "e"');
+      expect(() => findRecurringTask('groceries')).toThrow('No recurring task found for "groceries"');
+
+      deleteRecurringTask('aaa111');
+
+      expect(readRecurringTasks()).toEqual([rent]);
+    });
+
+    it('should reject invalid definitions files', () => {
+      writeFileSync(recurringPath, JSON.stringify([{ id: 'ccc333', text: 'Broken', frequency: 'daily' }]));
+
+      expect(() => readRecurringTasks()).toThrow('Invalid .mcp-tasks-recurring.json: 0.frequency:');
+    });
+  });
+
+  describe('recursInWeek', () => {
+    it('should repeat weekly tasks every interval weeks from the week of the start date', () => {
+      expect(recursInWeek(timesheet, '2024-01-01')).toBe(false);
+      expect(recursInWeek(timesheet, '2024-01-08')).toBe(true);
+      expect(recursInWeek(timesheet, '2024-01-15')).toBe(false);
+      expect(recursInWeek(timesheet, '2024-01-22')).toBe(true);
+    });
+
+    it('should use the last day of shorter months for monthly tasks', () => {
+      expect(recursInWeek(rent, '2024-01-29')).toBe(true);
+      expect(recursInWeek(rent, '2024-02-26')).toBe(true);
+      expect(recursInWeek(rent, '2024-02-19')).toBe(false);
+    });
+  });
+
+  describe('instances', () => {
+    it('should describe how often tasks recur', () => {
+      expect(describeRecurrence(timesheet)).toBe('every 2 weeks');
+      expect(describeRecurrence({ ...timesheet, interval: 1 })).toBe('weekly');
+      expect(describeRecurrence(rent)).toBe('monthly on day 31');
+    });
+
+    it('should format instances carrying their own ID and the definition ID', () => {
+      const lines = formatRecurringInstance({ ...rent, priority: 'P1', description: 'Transfer\nKeep the receipt' }, 'c0ffee');
+
+      expect(lines).toEqual(['- [ ] Pay rent <!-- id:c0ffee priority:P1 recurring:bbb222 -->', '  Transfer', '  Keep the receipt']);
+      expect(getRecurringTaskId(lines[0])).toBe('bbb222');
+      expect(getRecurringTaskId('- [ ] One-off task')).toBeUndefined();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { createSuccessResponse, createErrorResponse, type MCPResponse } from '../../src/utils/responses';
+import { createSuccessResponse, createStructuredResponse, createErrorResponse, type MCPResponse } from '../../src/utils/responses';
 
 describe('response utilities', () => {
   describe('createSuccessResponse', () => {
@@ -22,6 +22,22 @@ describe('response utilities', () => {
     });
   });
 
+  describe('createStructuredResponse', () => {
+    test('should include data as structured content and JSON text', () => {
+      const data = { results: [{ taskText: 'Task' }] };
+      const result = createStructuredResponse(data);
+
+      expect(result).toEqual({
+        content: [{
+          type: 'text',
+          text: JSON.stringify(data, null, 2),
+        }],
+        structuredContent: data,
+      });
+      expect(result.isError).toBeUndefined();
+    });
+  });
+
   describe('createErrorResponse', () => {
     test('should create proper error response with Error object', () => {
       const error = new Error('File not found');
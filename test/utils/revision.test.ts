@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { computeRevision, getWorkspaceRevision, checkRevision } from 'src/utils/revision';
+
+describe('revision utilities', () => {
+  const testDir = '/tmp/mcp-tasks-test-revision';
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Task\n\n# Next Week\n');
+    writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n');
+    writeFileSync(join(testDir, 'archive.md'), '# Archive\n');
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('computeRevision', () => {
+    it('should return a short hex token', () => {
+      expect(computeRevision(['a', 'b'])).toMatch(/^[0-9a-f]{12}$/);
+    });
+
+    it('should depend on which file holds the content', () => {
+      expect(computeRevision(['ab', ''])).not.toBe(computeRevision(['a', 'b']));
+    });
+  });
+
+  describe('getWorkspaceRevision', () => {
+    it('should be stable while the files are unchanged', () => {
+      expect(getWorkspaceRevision()).toBe(getWorkspaceRevision());
+    });
+
+    it('should change when any task file changes', () => {
+      const revision = getWorkspaceRevision();
+
+      writeFileSync(join(testDir, 'archive.md'), '# Archive\n\n# Week of 2024-01-08\n');
+
+      expect(getWorkspaceRevision()).not.toBe(revision);
+    });
+
+    it('should treat missing files as empty', () => {
+      rmSync(join(testDir, 'archive.md'));
+
+      expect(getWorkspaceRevision()).toMatch(/^[0-9a-f]{12}$/);
+    });
+  });
+
+  describe('checkRevision', () => {
+    it('should accept a missing or current revision', () => {
+      expect(() => checkRevision()).not.toThrow();
+      expect(() => checkRevision(getWorkspaceRevision())).not.toThrow();
+    });
+
+    it('should reject a stale revision', () => {
+      const revision = getWorkspaceRevision();
+
+      writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n- [ ] New task\n');
+
+      expect(() => checkRevision(revision)).toThrow(`Revision conflict: the tasks changed since revision ${revision}`);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'bun:test';
+import { isValidDate, parseTaskDate } from '../../src/utils/taskDates';
+
+describe('taskDates utilities', () => {
+  describe('isValidDate', () => {
+    test('should accept calendar dates in YYYY-MM-DD format', () => {
+      expect(isValidDate('2024-04-15')).toBe(true);
+      expect(isValidDate('2024-02-29')).toBe(true);
+    });
+
+    test('should reject impossible dates and other formats', () => {
+      expect(isValidDate('2023-02-29')).toBe(false);
+      expect(isValidDate('2024-13-01')).toBe(false);
+      expect(isValidDate('15/04/2024')).toBe(false);
+      expect(isValidDate('2024-04-15T10:00')).toBe(false);
+    });
+  });
+
+  describe('parseTaskDate', () => {
+    test('should parse valid metadata dates', () => {
+      expect(parseTaskDate('2024-04-15')).toBe('2024-04-15');
+    });
+
+    test('should ignore missing and invalid values', () => {
+      expect(parseTaskDate(undefined)).toBeUndefined();
+      expect(parseTaskDate('friday')).toBeUndefined();
+    });
+  });
+});
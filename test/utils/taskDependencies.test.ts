@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  parseBlockedBy,
+  formatBlockedBy,
+  formatTaskReference,
+  getOpenPrerequisites,
+  findTasksUnblockedBy,
+  dependsOn,
+  getFinishingNotes,
+  type DependentTask,
+} from 'src/utils/taskDependencies';
+
+describe('taskDependencies', () => {
+  const tasks: DependentTask[] = [
+    { taskText: 'Design schema', status: 'completed', id: 'aaa111' },
+    { taskText: 'Write migration', status: 'in_progress', id: 'bbb222', blockedBy: ['aaa111'] },
+    { taskText: 'Review migration', status: 'new', id: 'ccc333' },
+    { taskText: 'Deploy release', status: 'new', id: 'ddd444', blockedBy: ['bbb222', 'ccc333'] },
+    { taskText: 'Announce release', status: 'new', blockedBy: ['ddd444', 'archived'] },
+  ];
+
+  describe('parseBlockedBy and formatBlockedBy', () => {
+    it('should read and write comma-separated IDs', () => {
+      expect(parseBlockedBy('aaa111,bbb222')).toEqual(['aaa111', 'bbb222']);
+      expect(parseBlockedBy(undefined)).toEqual([]);
+      expect(formatBlockedBy(['aaa111', 'bbb222'])).toBe('aaa111,bbb222');
+    });
+  });
+
+  describe('formatTaskReference', () => {
+    it('should include the ID when the task has one', () => {
+      expect(formatTaskReference(tasks[0])).toBe('"Design schema" (aaa111)');
+      expect(formatTaskReference(tasks[4])).toBe('"Announce release"');
+    });
+  });
+
+  describe('getOpenPrerequisites', () => {
+    it('should return the unfinished prerequisites only', () => {
+      expect(getOpenPrerequisites(tasks[1], tasks)).toEqual([]);
+      expect(getOpenPrerequisites(tasks[3], tasks).map(task => task.id)).toEqual(['bbb222', 'ccc333']);
+    });
+
+    it('should ignore prerequisites that are no longer in the task lists', () => {
+      expect(getOpenPrerequisites(tasks[4], tasks).map(task => task.id)).toEqual(['ddd444']);
+    });
+  });
+
+  describe('findTasksUnblockedBy', () => {
+    it('should return the tasks waiting for the given task only', () => {
+      expect(findTasksUnblockedBy('bbb222', tasks)).toEqual([]);
+      expect(findTasksUnblockedBy('ddd444', tasks).map(task => task.taskText)).toEqual(['Announce release']);
+    });
+  });
+
+  describe('dependsOn', () => {
+    it('should follow prerequisites transitively', () => {
+      expect(dependsOn(tasks[4], 'aaa111', tasks)).toBe(true);
+      expect(dependsOn(tasks[3], 'ccc333', tasks)).toBe(true);
+      expect(dependsOn(tasks[1], 'ddd444', tasks)).toBe(false);
+    });
+
+    it('should stop at existing cycles', () => {
+      const cyclicTasks: DependentTask[] = [
+        { taskText: 'A', status: 'new', id: 'a', blockedBy: ['b'] },
+        { taskText: 'B', status: 'new', id: 'b', blockedBy: ['a'] },
+      ];
+
+      expect(dependsOn(cyclicTasks[0], 'c', cyclicTasks)).toBe(false);
+    });
+  });
+
+  describe('getFinishingNotes', () => {
+    it('should warn about open prerequisites when completing a task', () => {
+      expect(getFinishingNotes(tasks[3], 'completed', tasks)).toEqual([
+        'Warning: "Deploy release" still has open prerequisites: "Write migration" (bbb222), "Review migration" (ccc333)',
+        'Now unblocked: "Announce release"',
+      ]);
+    });
+
+    it('should not warn when closing a task', () => {
+      expect(getFinishingNotes(tasks[3], 'closed', tasks)).toEqual(['Now unblocked: "Announce release"']);
+    });
+
+    it('should return no notes for tasks without dependencies', () => {
+      expect(getFinishingNotes(tasks[2], 'completed', tasks)).toEqual([]);
+    });
+  });
+});
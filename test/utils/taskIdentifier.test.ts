@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import * as crypto from 'crypto';
 import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
 import { setWorkingDirectory } from 'src/config';
-import { findAllTasks, findMatchingTasks, validateTaskMatch } from 'src/utils/taskIdentifier';
+import { findAllTasks, findMatchingTasks, validateTaskMatch, generateTaskId, assertTaskAtLine } from 'src/utils/taskIdentifier';
 
 describe('taskIdentifier', () => {
   const testDir = '/tmp/mcp-tasks-test-taskidentifier';
@@ -20,6 +21,8 @@ describe('taskIdentifier', () => {
     if (existsSync(testDir)) {
       rmSync(testDir, { recursive: true });
     }
+    // Clear all spies
+    mock.restore();
   });
 
   describe('findAllTasks', () => {
@@ -91,6 +94,34 @@ describe('taskIdentifier', () => {
       });
     });
 
+    it('should read prerequisites from task metadata', () => {
+      writeFileSync(`${testDir}/current.md`, '# This Week\n- [ ] Deploy release <!-- id:ccc333 blocked_by:a1b2c3,d4e5f6 -->');
+      writeFileSync(`${testDir}/backlog.md`, '# Backlog');
+
+      expect(findAllTasks()[0].blockedBy).toEqual(['a1b2c3', 'd4e5f6']);
+    });
+
+    it('should read due and scheduled dates from task metadata', () => {
+      writeFileSync(`${testDir}/current.md`, `# Today
+- [ ] Dated task <!-- id:a1b2c3 due:2024-01-19 scheduled:2024-01-17 -->
+- [ ] Badly dated task <!-- due:tomorrow -->`);
+      writeFileSync(`${testDir}/backlog.md`, '# Future\n');
+
+      const [datedTask, badlyDatedTask] = findAllTasks();
+
+      expect(datedTask).toEqual({
+        file: 'current',
+        section: 'Today',
+        taskText: 'Dated task',
+        lineNumber: 2,
+        status: 'new',
+        id: 'a1b2c3',
+        dueDate: '2024-01-19',
+        scheduledDate: '2024-01-17',
+      });
+      expect(badlyDatedTask).not.toHaveProperty('dueDate');
+    });
+
     it('should find tasks in both files', () => {
       const currentContent = `# Today
 - [ ] Current task`;
@@ -324,6 +355,115 @@ Some regular text
     });
   });
 
+  describe('task IDs', () => {
+    beforeEach(() => {
+      const currentContent = `# Today
+- [ ] Write tests <!-- id:a1b2c3 -->
+- [ ] Write docs <!-- id:d4e5f6 -->`;
+
+      const backlogContent = `# Future
+- [ ] Plan sprint added on 2024-01-01 <!-- id:0a0b0c -->
+- [ ] Legacy task without ID`;
+
+      writeFileSync(`${testDir}/current.md`, currentContent);
+      writeFileSync(`${testDir}/backlog.md`, backlogContent);
+    });
+
+    it('should parse IDs and strip them from task text', () => {
+      const tasks = findAllTasks();
+
+      expect(tasks[0]).toEqual({
+        file: 'current',
+        section: 'Today',
+        taskText: 'Write tests',
+        lineNumber: 2,
+        status: 'new',
+        id: 'a1b2c3',
+      });
+      expect(tasks[2].taskText).toBe('Plan sprint added on 2024-01-01');
+      expect(tasks[2].id).toBe('0a0b0c');
+      expect(tasks[3]).not.toHaveProperty('id');
+    });
+
+    it('should resolve a task by its ID', () => {
+      const task = validateTaskMatch('d4e5f6');
+
+      expect(task.taskText).toBe('Write docs');
+    });
+
+    it('should prefer an ID match over text matches', () => {
+      const matches = findMatchingTasks('0a0b0c');
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].file).toBe('backlog');
+    });
+
+    it('should not match text against the ID comment', () => {
+      expect(findMatchingTasks('id:')).toHaveLength(0);
+    });
+
+    it('should still fall back to substring matching', () => {
+      expect(() => validateTaskMatch('write')).toThrow(/Multiple matches found/);
+      expect(validateTaskMatch('legacy').taskText).toBe('Legacy task without ID');
+    });
+
+    it('should generate IDs not used by existing tasks', () => {
+      const id = generateTaskId();
+
+      expect(id).toMatch(/^[0-9a-f]{6}$/);
+      expect(['a1b2c3', 'd4e5f6', '0a0b0c']).not.toContain(id);
+    });
+
+    it('should not reuse IDs of archived tasks', () => {
+      writeFileSync(`${testDir}/archive.md`, '# Week of 2024-01-01\n- [x] Old task <!-- id:aaaaaa -->');
+      spyOn(crypto, 'randomBytes')
+        .mockReturnValueOnce(Buffer.from('aaaaaa', 'hex'))
+        .mockReturnValueOnce(Buffer.from('bbbbbb', 'hex'));
+
+      expect(generateTaskId()).toBe('bbbbbb');
+    });
+  });
+
+  describe('subtasks', () => {
+    beforeEach(() => {
+      writeFileSync(`${testDir}/current.md`, `# This Week
+- [ ] Plan trip
+  Summer holiday
+  - [x] Book flights <!-- id:a1b2c3 -->
+    - [ ] Nested checklist item
+  - [ ] Book hotel
+- [ ] Book dentist`);
+      writeFileSync(`${testDir}/backlog.md`, '# Backlog');
+    });
+
+    it('should leave subtasks out by default', () => {
+      expect(findAllTasks().map(task => task.taskText)).toEqual(['Plan trip', 'Book dentist']);
+    });
+
+    it('should include subtasks with their parent when asked to', () => {
+      const tasks = findAllTasks({ includeSubtasks: true });
+
+      expect(tasks.map(task => task.taskText)).toEqual(['Plan trip', 'Book flights', 'Book hotel', 'Book dentist']);
+      expect(tasks[1]).toEqual({
+        file: 'current',
+        section: 'This Week',
+        taskText: 'Book flights',
+        lineNumber: 4,
+        status: 'completed',
+        id: 'a1b2c3',
+        parent: 'Plan trip',
+      });
+      expect(tasks[0]).not.toHaveProperty('parent');
+    });
+
+    it('should match subtasks by text or ID only when asked to', () => {
+      expect(() => validateTaskMatch('hotel')).toThrow(/No matching tasks found/);
+      expect(validateTaskMatch('hotel', { includeSubtasks: true }).lineNumber).toBe(6);
+      expect(validateTaskMatch('a1b2c3', { includeSubtasks: true }).taskText).toBe('Book flights');
+      expect(findMatchingTasks('book', { includeSubtasks: true })).toHaveLength(3);
+    });
+  });
+
   describe('line number calculation', () => {
     it('should calculate correct line numbers', () => {
       const content = `# Section 1
@@ -379,5 +519,37 @@ Another line
 
       expect(tasks[2].status).toBe('closed');
     });
+
+    it('should identify in-progress, blocked and deferred tasks', () => {
+      writeFileSync(`${testDir}/current.md`, '# Tasks\n- [/] Started task\n- [!] Blocked task\n- [>] Deferred task');
+      writeFileSync(`${testDir}/backlog.md`, '');
+
+      expect(findAllTasks().map(task => task.status)).toEqual(['in_progress', 'blocked', 'deferred']);
+    });
+  });
+
+  describe('assertTaskAtLine', () => {
+    const content = '# This Week\n- [ ] First task\n- [ ] Second task <!-- id:a1b2c3 -->';
+
+    it('should accept content where the task is still at its line', () => {
+      const task = { file: 'current' as const, section: 'This Week', taskText: 'First task', lineNumber: 2, status: 'new' as const };
+
+      expect(() => assertTaskAtLine(content, task)).not.toThrow();
+    });
+
+    it('should match by ID when the task has one', () => {
+      const task = {
+        file: 'current' as const, section: 'This Week', taskText: 'Old text', lineNumber: 3, status: 'new' as const, id: 'a1b2c3',
+      };
+
+      expect(() => assertTaskAtLine(content, task)).not.toThrow();
+    });
+
+    it('should reject content where another task took the line', () => {
+      const task = { file: 'current' as const, section: 'This Week', taskText: 'Second task', lineNumber: 2, status: 'new' as const };
+
+      expect(() => assertTaskAtLine(content, task))
+        .toThrow('Revision conflict: "Second task" is no longer at line 2 of the current file');
+    });
   });
 });
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import { splitTaskMetadata, formatTaskMetadata } from '../../src/utils/taskMetadata';
+
+describe('taskMetadata utilities', () => {
+  describe('splitTaskMetadata', () => {
+    test('should return text unchanged when there is no metadata', () => {
+      expect(splitTaskMetadata('Plain task')).toEqual({ text: 'Plain task', metadata: {} });
+    });
+
+    test('should extract key:value pairs from a trailing comment', () => {
+      expect(splitTaskMetadata('Task text <!-- id:a1b2c3 -->')).toEqual({
+        text: 'Task text',
+        metadata: { id: 'a1b2c3' },
+      });
+    });
+
+    test('should extract multiple pairs', () => {
+      expect(splitTaskMetadata('Task <!-- id:a1b2c3 other:value -->').metadata).toEqual({
+        id: 'a1b2c3',
+        other: 'value',
+      });
+    });
+
+    test('should ignore comments that are not at the end of the text', () => {
+      expect(splitTaskMetadata('Task <!-- id:a1b2c3 --> more text')).toEqual({
+        text: 'Task <!-- id:a1b2c3 --> more text',
+        metadata: {},
+      });
+    });
+
+    test('should ignore free-form comments', () => {
+      expect(splitTaskMetadata('Task <!-- just a note -->').metadata).toEqual({});
+    });
+  });
+
+  describe('formatTaskMetadata', () => {
+    test('should append metadata as a trailing comment', () => {
+      expect(formatTaskMetadata('Task text', { id: 'a1b2c3' })).toBe('Task text <!-- id:a1b2c3 -->');
+    });
+
+    test('should omit the comment when there is no metadata', () => {
+      expect(formatTaskMetadata('Task text', {})).toBe('Task text');
+    });
+
+    test('should skip empty values', () => {
+      expect(formatTaskMetadata('Task text', { id: 'a1b2c3', other: '' })).toBe('Task text <!-- id:a1b2c3 -->');
+    });
+
+    test('should round-trip through splitTaskMetadata', () => {
+      const formatted = formatTaskMetadata('Task text', { id: 'a1b2c3', other: 'value' });
+
+      expect(splitTaskMetadata(formatted)).toEqual({
+        text: 'Task text',
+        metadata: { id: 'a1b2c3', other: 'value' },
+      });
+    });
+  });
+});
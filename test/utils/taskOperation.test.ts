@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory } from 'src/config';
+import { runTaskOperation } from 'src/utils/taskOperation';
+import { getWorkspaceRevision } from 'src/utils/revision';
+import * as gitUtils from 'src/utils/git';
+
+describe('runTaskOperation', () => {
+  const testDir = '/tmp/mcp-tasks-test-taskoperation';
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+
+    writeFileSync(join(testDir, 'current.md'), '# This Week\n- [ ] Task\n\n# Next Week\n');
+    writeFileSync(join(testDir, 'backlog.md'), '# Backlog\n');
+    writeFileSync(join(testDir, 'archive.md'), '# Archive\n');
+
+    spyOn(gitUtils, 'commitChanges').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mock.restore();
+  });
+
+  it('should commit the change and return the operation message', async() => {
+    const result = await runTaskOperation('testing', getWorkspaceRevision(), () => ({
+      message: 'Done',
+      commitMessage: 'Did it',
+    }));
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Done' }] });
+    expect(gitUtils.commitChanges).toHaveBeenCalledWith('Did it');
+  });
+
+  it('should not commit when the operation changed nothing', async() => {
+    const result = await runTaskOperation('testing', undefined, () => ({ message: 'Nothing to do' }));
+
+    expect(result.content[0].text).toBe('Nothing to do');
+    expect(gitUtils.commitChanges).not.toHaveBeenCalled();
+  });
+
+  it('should not run the operation on a revision conflict', async() => {
+    const operation = mock(() => ({ message: 'Done', commitMessage: 'Did it' }));
+
+    const result = await runTaskOperation('testing', 'stale', operation);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toStartWith('Error testing: Revision conflict');
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should turn errors into error responses', async() => {
+    const result = await runTaskOperation('testing', undefined, () => {
+      throw new Error('Broken');
+    });
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Error testing: Broken' }], isError: true });
+  });
+});
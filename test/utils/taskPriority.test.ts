@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'bun:test';
+import { parsePriority, comparePriority } from '../../src/utils/taskPriority';
+
+describe('taskPriority utilities', () => {
+  describe('parsePriority', () => {
+    test('should parse known priorities', () => {
+      expect(parsePriority('P1')).toBe('P1');
+      expect(parsePriority('P3')).toBe('P3');
+    });
+
+    test('should ignore missing and unknown values', () => {
+      expect(parsePriority(undefined)).toBeUndefined();
+      expect(parsePriority('P4')).toBeUndefined();
+      expect(parsePriority('high')).toBeUndefined();
+    });
+  });
+
+  describe('comparePriority', () => {
+    test('should rank more important priorities first', () => {
+      expect(comparePriority('P1', 'P2')).toBeLessThan(0);
+      expect(comparePriority('P3', 'P2')).toBeGreaterThan(0);
+      expect(comparePriority('P2', 'P2')).toBe(0);
+    });
+
+    test('should rank unprioritized tasks last', () => {
+      expect(comparePriority(undefined, 'P3')).toBeGreaterThan(0);
+      expect(comparePriority(undefined, undefined)).toBe(0);
+    });
+  });
+});
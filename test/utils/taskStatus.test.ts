@@ -6,7 +6,9 @@ import {
   isFinishedStatus,
   getStatusDisplay,
   isValidStatus,
-  type TaskStatus,
+  getEnabledStatuses,
+  TASK_STATUSES,
+  TASK_LINE_PATTERN,
 } from '../../src/utils/taskStatus';
 
 describe('taskStatus utilities', () => {
@@ -15,6 +17,9 @@ describe('taskStatus utilities', () => {
       expect(getStatusChar('new')).toBe(' ');
       expect(getStatusChar('completed')).toBe('x');
       expect(getStatusChar('closed')).toBe('-');
+      expect(getStatusChar('in_progress')).toBe('/');
+      expect(getStatusChar('blocked')).toBe('!');
+      expect(getStatusChar('deferred')).toBe('>');
     });
   });
 
@@ -23,6 +28,9 @@ describe('taskStatus utilities', () => {
       expect(parseStatusChar(' ')).toBe('new');
       expect(parseStatusChar('x')).toBe('completed');
       expect(parseStatusChar('-')).toBe('closed');
+      expect(parseStatusChar('/')).toBe('in_progress');
+      expect(parseStatusChar('!')).toBe('blocked');
+      expect(parseStatusChar('>')).toBe('deferred');
     });
 
     test('should default to new for unknown characters', () => {
@@ -44,6 +52,9 @@ describe('taskStatus utilities', () => {
       expect(isFinishedStatus('completed')).toBe(true);
       expect(isFinishedStatus('closed')).toBe(true);
       expect(isFinishedStatus('new')).toBe(false);
+      expect(isFinishedStatus('in_progress')).toBe(false);
+      expect(isFinishedStatus('blocked')).toBe(false);
+      expect(isFinishedStatus('deferred')).toBe(false);
     });
   });
 
@@ -52,6 +63,8 @@ describe('taskStatus utilities', () => {
       expect(getStatusDisplay('new')).toBe('new [ ]');
       expect(getStatusDisplay('completed')).toBe('completed [x]');
       expect(getStatusDisplay('closed')).toBe('closed [-]');
+      expect(getStatusDisplay('in_progress')).toBe('in progress [/]');
+      expect(getStatusDisplay('deferred')).toBe('deferred [>]');
     });
   });
 
@@ -60,6 +73,7 @@ describe('taskStatus utilities', () => {
       expect(isValidStatus('new')).toBe(true);
       expect(isValidStatus('completed')).toBe(true);
       expect(isValidStatus('closed')).toBe(true);
+      expect(isValidStatus('blocked')).toBe(true);
     });
 
     test('should reject invalid status strings', () => {
@@ -71,9 +85,7 @@ describe('taskStatus utilities', () => {
 
   describe('type consistency', () => {
     test('getStatusChar and parseStatusChar should be inverse functions', () => {
-      const statuses: TaskStatus[] = ['new', 'completed', 'closed'];
-
-      for (const status of statuses) {
+      for (const status of TASK_STATUSES) {
         const char = getStatusChar(status);
         const parsedStatus = parseStatusChar(char);
 
@@ -81,4 +93,32 @@ describe('taskStatus utilities', () => {
       }
     });
   });
+
+  describe('TASK_LINE_PATTERN', () => {
+    test('should capture the status character and text of every status', () => {
+      expect('- [/] Started'.match(TASK_LINE_PATTERN)?.slice(1)).toEqual(['/', 'Started']);
+      expect('- [>] Later'.match(TASK_LINE_PATTERN)?.slice(1)).toEqual(['>', 'Later']);
+    });
+
+    test('should not match unknown status characters', () => {
+      expect(TASK_LINE_PATTERN.test('- [?] Unsure')).toBe(false);
+    });
+
+    test('should stay valid in unicode mode', () => {
+      const unicodePattern = new RegExp(TASK_LINE_PATTERN.source, 'u');
+
+      expect(unicodePattern.test('- [-] Dropped')).toBe(true);
+      expect(unicodePattern.test('- [?] Unsure')).toBe(false);
+    });
+  });
+
+  describe('getEnabledStatuses', () => {
+    test('should always include the core statuses', () => {
+      expect(getEnabledStatuses([])).toEqual(['new', 'completed', 'closed']);
+    });
+
+    test('should add the enabled optional statuses', () => {
+      expect(getEnabledStatuses(['blocked'])).toEqual(['new', 'blocked', 'completed', 'closed']);
+    });
+  });
 });
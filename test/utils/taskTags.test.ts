@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { parseTags, normalizeTag, setTags, addTags, hasAllTags } from '../../src/utils/taskTags';
+
+describe('taskTags utilities', () => {
+  describe('parseTags', () => {
+    test('should find project and context tags in order', () => {
+      expect(parseTags('Renew certificates #infra @office')).toEqual(['#infra', '@office']);
+      expect(parseTags('#infra Renew certificates')).toEqual(['#infra']);
+    });
+
+    test('should ignore duplicates regardless of case', () => {
+      expect(parseTags('Task #infra #Infra')).toEqual(['#infra']);
+    });
+
+    test('should not treat e-mail addresses, issue numbers or anchors as tags', () => {
+      expect(parseTags('Mail bob@example.com about issue #123')).toEqual([]);
+      expect(parseTags('Link to page#section')).toEqual([]);
+    });
+  });
+
+  describe('normalizeTag', () => {
+    test('should add the # prefix to bare names', () => {
+      expect(normalizeTag('infra')).toBe('#infra');
+      expect(normalizeTag(' @home ')).toBe('@home');
+    });
+
+    test('should reject invalid tags', () => {
+      expect(() => normalizeTag('two words')).toThrow('Invalid tag "two words"');
+      expect(() => normalizeTag('#1st')).toThrow('Invalid tag "#1st"');
+    });
+  });
+
+  describe('setTags', () => {
+    test('should replace existing tags', () => {
+      expect(setTags('Renew #infra certificates @office', ['ops', '@home'])).toBe('Renew certificates #ops @home');
+    });
+
+    test('should remove all tags when given none', () => {
+      expect(setTags('Renew certificates #infra', [])).toBe('Renew certificates');
+    });
+  });
+
+  describe('addTags', () => {
+    test('should append only tags the text does not carry yet', () => {
+      expect(addTags('Renew certificates #infra', ['Infra', '@office'])).toBe('Renew certificates #infra @office');
+    });
+  });
+
+  describe('hasAllTags', () => {
+    test('should require every tag, ignoring case and prefixless names', () => {
+      expect(hasAllTags('Renew certificates #Infra @office', ['infra', '@office'])).toBe(true);
+      expect(hasAllTags('Renew certificates #infra', ['#infra', '@office'])).toBe(false);
+      expect(hasAllTags('Renew certificates', [])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory, LOCK_FILE_NAME } from 'src/config';
+import { withWorkspaceLock } from 'src/utils/workspaceLock';
+
+describe('withWorkspaceLock', () => {
+  const testDir = '/tmp/mcp-tasks-test-workspacelock';
+  const lockPath = join(testDir, LOCK_FILE_NAME);
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    setWorkingDirectory(testDir);
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should hold the lock file while the operation runs', async() => {
+    const result = await withWorkspaceLock(() => Promise.resolve(existsSync(lockPath)));
+
+    expect(result).toBe(true);
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('should release the lock when the operation fails', async() => {
+    await expect(withWorkspaceLock(() => Promise.reject(new Error('Operation failed'))))
+      .rejects.toThrow('Operation failed');
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('should run concurrent operations one after another', async() => {
+    const events: string[] = [];
+    const operation = (label: string) => withWorkspaceLock(async() => {
+      events.push(`${label} start`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      events.push(`${label} end`);
+    });
+
+    await Promise.all([operation('first'), operation('second')]);
+
+    expect(events).toEqual(['first start', 'first end', 'second start', 'second end']);
+  });
+
+  it('should not wait on itself for nested operations', async() => {
+    const result = await withWorkspaceLock(() => withWorkspaceLock(() => Promise.resolve('nested')), 100);
+
+    expect(result).toBe('nested');
+  });
+
+  it('should time out while another process holds the lock', async() => {
+    // The current process stands in for another live process
+    writeFileSync(lockPath, String(process.pid));
+
+    await expect(withWorkspaceLock(() => Promise.resolve(), 50))
+      .rejects.toThrow('The workspace is locked by another operation');
+    expect(existsSync(lockPath)).toBe(true);
+  });
+
+  it('should take over a lock left behind by a process that no longer runs', async() => {
+    writeFileSync(lockPath, '999999999');
+
+    const result = await withWorkspaceLock(() => Promise.resolve('done'), 100);
+
+    expect(result).toBe('done');
+    expect(existsSync(lockPath)).toBe(false);
+  });
+});
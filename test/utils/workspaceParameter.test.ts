@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { setWorkingDirectory, addWorkspace } from 'src/config';
+import { withWorkspaceParameter } from 'src/utils/workspaceParameter';
+import * as getCurrentTasks from 'src/tools/getCurrentTasks';
+
+describe('withWorkspaceParameter', () => {
+  const defaultDir = '/tmp/mcp-tasks-test-workspaceparam-default';
+  const teamDir = '/tmp/mcp-tasks-test-workspaceparam-team';
+  const tool = withWorkspaceParameter(getCurrentTasks);
+
+  beforeEach(() => {
+    for (const dir of [defaultDir, teamDir]) {
+      if (existsSync(dir)) {
+        rmSync(dir, { recursive: true });
+      }
+      mkdirSync(dir, { recursive: true });
+    }
+
+    writeFileSync(join(defaultDir, 'current.md'), '# This Week\n- [ ] Personal task\n');
+    writeFileSync(join(teamDir, 'current.md'), '# This Week\n- [ ] Team task\n');
+    setWorkingDirectory(defaultDir);
+    addWorkspace('team', teamDir);
+  });
+
+  afterEach(() => {
+    for (const dir of [defaultDir, teamDir]) {
+      if (existsSync(dir)) {
+        rmSync(dir, { recursive: true });
+      }
+    }
+  });
+
+  it('should keep the tool name and add a workspace parameter', () => {
+    expect(tool.name).toBe('get_current_tasks');
+    expect(tool.config.title).toBe(getCurrentTasks.config.title);
+    expect(tool.config.inputSchema).toEqual({
+      sort_by_priority: expect.any(Object),
+      tags: expect.any(Object),
+      workspace: expect.any(Object),
+    });
+  });
+
+  it('should use the default workspace when no workspace is given', async() => {
+    const result = await tool.handler({});
+
+    expect(result.content[0].text).toContain('Personal task');
+  });
+
+  it('should run the handler in the named workspace', async() => {
+    const result = await tool.handler({ workspace: 'team' });
+
+    expect(result.content[0].text).toContain('Team task');
+  });
+
+  it('should pass the remaining arguments to the handler', async() => {
+    const received: object[] = [];
+    const wrapped = withWorkspaceParameter({
+      ...getCurrentTasks,
+      handler: (args: object) => {
+        received.push(args);
+
+        return getCurrentTasks.handler();
+      },
+    });
+
+    await wrapped.handler({ workspace: 'team', query: 'x' });
+
+    expect(received).toEqual([{ query: 'x' }]);
+  });
+
+  it('should return an error for unknown workspaces', async() => {
+    const result = await tool.handler({ workspace: 'missing' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Error selecting workspace: Unknown workspace "missing"');
+  });
+});